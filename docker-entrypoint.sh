@@ -19,6 +19,7 @@ SKIP_PAGEDJS="${SKIP_PAGEDJS:-false}"
 SKIP_VIVLIOSTYLE="${SKIP_VIVLIOSTYLE:-false}"
 SKIP_CONVERT="${SKIP_CONVERT:-false}"
 SKIP_COMPARE="${SKIP_COMPARE:-false}"
+CONCURRENCY="${CONCURRENCY:-1}"
 
 log_info() {
     echo -e "${BLUE}[INFO]${NC} $1"
@@ -62,6 +63,7 @@ show_help() {
     echo "  SKIP_VIVLIOSTYLE   Skip Vivliostyle build (default: false)"
     echo "  SKIP_CONVERT       Skip PDF/X conversion (default: false)"
     echo "  SKIP_COMPARE       Skip comparison report (default: false)"
+    echo "  CONCURRENCY        Jobs run in parallel per project (default: 1)"
     echo ""
     echo "Volume Mounts:"
     echo "  -v /path/to/input:/input     Mount input directory"
@@ -132,6 +134,7 @@ process_project() {
     [ "$SKIP_VIVLIOSTYLE" = "true" ] && args="$args --skip-vivliostyle"
     [ "$SKIP_CONVERT" = "true" ] && args="$args --skip-convert"
     [ "$SKIP_COMPARE" = "true" ] && args="$args --skip-compare"
+    args="$args --concurrency $CONCURRENCY"
     
     # Run the pipeline using the batch processor
     cd /app
@@ -225,6 +228,7 @@ run_default_test() {
     [ "$SKIP_VIVLIOSTYLE" = "true" ] && args="$args --skip-vivliostyle"
     [ "$SKIP_CONVERT" = "true" ] && args="$args --skip-convert"
     [ "$SKIP_COMPARE" = "true" ] && args="$args --skip-compare"
+    args="$args --concurrency $CONCURRENCY"
     
     cd /app
     bun run scripts/batch-process.ts \
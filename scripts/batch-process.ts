@@ -3,54 +3,115 @@
  * Batch Process Script
  * Processes a single project directory with configurable input/output paths
  * Used by Docker entrypoint for batch processing multiple projects
+ * Each engine's build -> convert -> TAC steps are scheduled as jobs (see job-pool.ts),
+ * with one convert -> TAC chain per PDF/X target (--pdfx x1a,x4) and, with --digital,
+ * a digital edition (RGB download PDF, see digital-edition.ts) built beside them
+ * and skipped when build-manifest.json shows their inputs are unchanged (see build-manifest.ts)
  */
 
 import { $ } from "bun";
 import { existsSync, mkdirSync, copyFileSync, readdirSync } from "node:fs";
-import { join, dirname, basename } from "node:path";
+import { join, dirname, basename, relative } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { buildWithPagedJS } from "./build-pagedjs.ts";
-import { buildWithVivliostyle } from "./build-vivliostyle.ts";
-import { buildWithWeasyPrint } from "./build-weasyprint.ts";
 import { convertToPdfx } from "./convert-pdfx.ts";
-import { runComparisonInDir } from "./compare-pdfs.ts";
-import { validatePdf } from "./validate-pdfs.ts";
-import { validateTAC, type TACValidationResult } from "./validate-tac.ts";
-import { limitTAC } from "./limit-tac.ts";
+import { buildDigitalEdition } from "./digital-edition.ts";
+import { runComparisonInDir, type ComparisonReport } from "./compare-pdfs.ts";
+import { heatmapDirFor, validateTAC, type TACValidationResult } from "./validate-tac.ts";
+import { DEFAULT_TAC_DPI } from "./tac-analyzer.ts";
+import { limitTAC, saveRasterizedPages } from "./limit-tac.ts";
+import { loadOutputProfile, type ProfileInfo } from "./icc-profile.ts";
+import { formatPageList, writePageBoxes } from "./page-boxes.ts";
+import { loadPrintSpec, copyPrintSpec, pageSize, formatSize, digitalSettings, type PrintSpec } from "./print-spec.ts";
+import {
+  PDFX_TARGETS,
+  resolveProvider,
+  applyProvider,
+  parsePdfxTargetList,
+  pdfxTargetOf,
+  withPdfxTarget,
+  type PdfxTarget,
+  type ProviderProfile,
+} from "./providers.ts";
+import { RENDERERS, selectRenderers, parseEngineList, rendererOutputs } from "./renderers.ts";
+import { createJobPool, parseConcurrency, runJobGraph, type Job, type JobPool } from "./job-pool.ts";
+import {
+  MANIFEST_FILE,
+  STAGES,
+  countFreshStages,
+  hashDirectory,
+  hashValue,
+  invalidateFrom,
+  loadManifest,
+  recordStage,
+  saveManifest,
+  type Stage,
+} from "./build-manifest.ts";
+import { diffChecks, linkedFiles, snapshotChecks, watchPaths, type CheckSnapshot } from "./watch.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const APP_ROOT = join(__dirname, "..");
 
-// DriveThruRPG target page dimensions
-// Trim size: 6" x 9" + 0.125" bleed on each side = 6.25" x 9.25"
-const TARGET_PAGE = {
-  trimWidthIn: 6,
-  trimHeightIn: 9,
-  bleedIn: 0.125,
-  // Final page size with bleed
-  get widthIn() { return this.trimWidthIn + this.bleedIn * 2; },
-  get heightIn() { return this.trimHeightIn + this.bleedIn * 2; },
-  // Convert to mm for PagedJS (1 inch = 25.4 mm)
-  get widthMM() { return this.widthIn * 25.4; },
-  get heightMM() { return this.heightIn * 25.4; },
-  // Vivliostyle format: "6.25in,9.25in"
-  get vivliostyleSize() { return `${this.widthIn}in,${this.heightIn}in`; },
-  get bleedMM() { return `${(this.bleedIn * 25.4).toFixed(2)}mm`; },
-};
-
 interface BatchOptions {
   inputDir: string;
   outputDir: string;
   htmlFile: string;
-  skipPagedJS: boolean;
-  skipVivliostyle: boolean;
-  skipWeasyPrint: boolean;
+  /** Engines to run, in order (default: every registered renderer) */
+  engines?: string[];
+  /** Engines to leave out (e.g. from --skip-pagedjs) */
+  skipEngines?: string[];
   skipConvert: boolean;
   skipCompare: boolean;
   strictCompliance?: boolean; // Fail if PDFs are not compliant
   /** Theme name for CSS concatenation (e.g., "kitchen-sink", "dark-theme") or "none" to use HTML-linked CSS */
   theme?: string;
+  /** Print spec override; defaults to the project's pdfx.config.json */
+  printSpec?: PrintSpec;
+  /** Print provider profile id; overrides the spec's "provider" field */
+  provider?: string;
+  /**
+   * PDF/X targets to convert to (CLI: --pdfx x1a,x4). The first is the main target and is
+   * written to `<engine>-pdfx.pdf`; the others go to `<engine>-pdfx-<target>.pdf` and are
+   * compared beside it. Default: the provider's own PDF/X variant.
+   */
+  pdfxTargets?: PdfxTarget[];
+  /** Also build each engine's digital edition (`<engine>-digital.pdf`) from its RGB build (CLI: --digital) */
+  digital?: boolean;
+  /** Maximum jobs (builds, conversions, TAC runs) running at once (default: 1) */
+  concurrency?: number;
+  /** Shared pool, e.g. one pool across all projects in run-all; overrides `concurrency` */
+  pool?: JobPool;
+  /** Pages rasterized at once within each TAC limiting job (default: 1) */
+  tacWorkers?: number;
+  /** Re-run every stage even when build-manifest.json says its inputs are unchanged */
+  force?: boolean;
+  /** Keep running and rebuild when the project or shared styles change (CLI: --watch) */
+  watch?: boolean;
+}
+
+/** Outcome of one PDF/X target's convert -> TAC chain */
+interface TargetResult {
+  convert: boolean;
+  compliant: boolean;
+  tacValidation?: TACValidationResult;
+}
+
+/** Per-engine outcome of a batch run; the fields it shares with TargetResult are the main target's */
+interface EngineResult extends TargetResult {
+  build: boolean;
+  /** Targets after the first in `pdfxTargets` */
+  targets?: Partial<Record<PdfxTarget, TargetResult>>;
+  /** Digital edition built and, after the comparison, valid (only with `digital`) */
+  digital?: { build: boolean; valid: boolean };
+}
+
+interface BatchResult {
+  success: boolean;
+  /** Keyed by renderer name; engines that were not run are absent */
+  engines: Record<string, EngineResult>;
+  errors: string[];
+  /** Comparison report, unless the compare step was skipped or failed */
+  report?: ComparisonReport;
 }
 
 function parseArgs(): BatchOptions {
@@ -65,9 +126,7 @@ function parseArgs(): BatchOptions {
         ? process.env.OUTPUT_DIR
         : join(process.cwd(), "output", "default-test"),
     htmlFile: "book.html",
-    skipPagedJS: false,
-    skipVivliostyle: false,
-    skipWeasyPrint: false,
+    skipEngines: [],
     skipConvert: false,
     skipCompare: false,
     strictCompliance: false,
@@ -91,14 +150,9 @@ function parseArgs(): BatchOptions {
         options.htmlFile = nextArg;
         i++;
         break;
-      case "--skip-pagedjs":
-        options.skipPagedJS = true;
-        break;
-      case "--skip-vivliostyle":
-        options.skipVivliostyle = true;
-        break;
-      case "--skip-weasyprint":
-        options.skipWeasyPrint = true;
+      case "--engines":
+        options.engines = parseEngineList(nextArg);
+        i++;
         break;
       case "--skip-convert":
         options.skipConvert = true;
@@ -109,29 +163,64 @@ function parseArgs(): BatchOptions {
       case "--strict":
         options.strictCompliance = true;
         break;
+      case "--force":
+        options.force = true;
+        break;
+      case "--watch":
+        options.watch = true;
+        break;
+      case "--digital":
+        options.digital = true;
+        break;
       case "--theme":
         options.theme = nextArg;
         i++;
         break;
+      case "--provider":
+        options.provider = nextArg;
+        i++;
+        break;
+      case "--pdfx":
+        options.pdfxTargets = parsePdfxTargetList(nextArg);
+        i++;
+        break;
+      case "--concurrency":
+        options.concurrency = parseConcurrency(nextArg);
+        i++;
+        break;
+      case "--tac-workers":
+        options.tacWorkers = parseConcurrency(nextArg);
+        i++;
+        break;
+      default:
+        // --skip-<engine> for any registered renderer (e.g. --skip-pagedjs)
+        if (arg.startsWith("--skip-") && RENDERERS[arg.slice("--skip-".length)]) {
+          options.skipEngines!.push(arg.slice("--skip-".length));
+        }
+        break;
     }
   }
 
   return options;
 }
 
-async function processBatch(options: BatchOptions): Promise<{
-  success: boolean;
-  pagedjs: { build: boolean; convert: boolean; compliant: boolean; tacValidation?: TACValidationResult };
-  vivliostyle: { build: boolean; convert: boolean; compliant: boolean; tacValidation?: TACValidationResult };
-  weasyprint: { build: boolean; convert: boolean; compliant: boolean; tacValidation?: TACValidationResult };
-  errors: string[];
-}> {
-  const result = {
+/**
+ * The project's HTML entry point: `htmlFile` if present, otherwise the first HTML file in the directory
+ */
+function findHtmlFile(inputDir: string, htmlFile: string): string | null {
+  const htmlPath = join(inputDir, htmlFile);
+  if (existsSync(htmlPath)) {
+    return htmlPath;
+  }
+  const found = readdirSync(inputDir).find((f) => f.endsWith(".html"));
+  return found ? join(inputDir, found) : null;
+}
+
+async function processBatch(options: BatchOptions): Promise<BatchResult> {
+  const result: BatchResult = {
     success: true,
-    pagedjs: { build: false, convert: false, compliant: false, tacValidation: undefined as TACValidationResult | undefined },
-    vivliostyle: { build: false, convert: false, compliant: false, tacValidation: undefined as TACValidationResult | undefined },
-    weasyprint: { build: false, convert: false, compliant: false, tacValidation: undefined as TACValidationResult | undefined },
-    errors: [] as string[],
+    engines: {},
+    errors: [],
   };
 
   const { inputDir, outputDir, htmlFile } = options;
@@ -141,30 +230,50 @@ async function processBatch(options: BatchOptions): Promise<{
     mkdirSync(outputDir, { recursive: true });
   }
 
-  // Find the HTML file
-  const htmlPath = join(inputDir, htmlFile);
-  if (!existsSync(htmlPath)) {
-    // Try to find any HTML file
-    const htmlFiles = readdirSync(inputDir).filter((f) => f.endsWith(".html"));
-    if (htmlFiles.length === 0) {
-      result.errors.push(`No HTML file found in ${inputDir}`);
-      result.success = false;
-      return result;
-    }
-    console.log(`Using found HTML file: ${htmlFiles[0]}`);
+  // Load the project's print spec (trim size, bleed, TAC limits), tightened to the provider's rules
+  let baseSpec: PrintSpec;
+  let spec: PrintSpec;
+  let provider: ProviderProfile;
+  let targets: PdfxTarget[];
+  let renderers: ReturnType<typeof selectRenderers>;
+  let outputProfile: ProfileInfo;
+  try {
+    baseSpec = options.printSpec ?? loadPrintSpec(inputDir);
+    const baseProvider = resolveProvider(baseSpec, options.provider);
+    targets = [...new Set(options.pdfxTargets?.length ? options.pdfxTargets : [pdfxTargetOf(baseProvider)])];
+    provider = withPdfxTarget(baseProvider, targets[0]);
+    spec = applyProvider(baseSpec, provider);
+    renderers = selectRenderers(options.engines, options.skipEngines);
+    outputProfile = loadOutputProfile(spec.iccProfile);
+  } catch (e) {
+    result.errors.push(`Configuration: ${e instanceof Error ? e.message : e}`);
+    result.success = false;
+    return result;
   }
 
-  const actualHtmlPath = existsSync(htmlPath)
-    ? htmlPath
-    : join(inputDir, readdirSync(inputDir).find((f) => f.endsWith(".html"))!);
+  // Find the HTML file
+  const actualHtmlPath = findHtmlFile(inputDir, htmlFile);
+  if (!actualHtmlPath) {
+    result.errors.push(`No HTML file found in ${inputDir}`);
+    result.success = false;
+    return result;
+  }
+  if (basename(actualHtmlPath) !== htmlFile) {
+    console.log(`Using found HTML file: ${basename(actualHtmlPath)}`);
+  }
 
   console.log(`\n${"=".repeat(60)}`);
   console.log(`Processing: ${basename(inputDir)}`);
   console.log(`HTML: ${actualHtmlPath}`);
   console.log(`Output: ${outputDir}`);
+  console.log(`Page: ${formatSize(pageSize(spec))} (max TAC ${spec.maxTAC}%)`);
+  console.log(`Provider: ${provider.name} (${targets.map((target) => PDFX_TARGETS[target].standard).join(", ")})`);
+  console.log(`ICC: ${outputProfile.name}`);
+  console.log(`Engines: ${renderers.map((r) => r.label).join(", ") || "none"}`);
   console.log(`${"=".repeat(60)}\n`);
 
-  // Copy CSS files to output for reference
+  // Copy CSS files and the print spec to output for reference
+  // (validate-pdfs and compare-pdfs read pdfx.config.json from the output directory)
   const cssFiles = readdirSync(inputDir).filter((f) => f.endsWith(".css"));
   for (const css of cssFiles) {
     try {
@@ -173,396 +282,483 @@ async function processBatch(options: BatchOptions): Promise<{
       // Ignore copy errors
     }
   }
-
-  // Step 1: Build with PagedJS
-  if (!options.skipPagedJS) {
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`Building with PagedJS CLI`);
-    console.log(`${"─".repeat(40)}`);
-
-    try {
-      const pjResult = await buildWithPagedJS({
-        input: actualHtmlPath,
-        output: join(outputDir, "pagedjs-output.pdf"),
-        timeout: 120000,
-        theme: options.theme,
-        // Let CSS @page size rule control page dimensions
-        // PagedJS's -w/-h options don't work as expected with CSS-defined sizes
-      });
-      result.pagedjs.build = pjResult.success;
-      if (!pjResult.success && pjResult.error) {
-        result.errors.push(`PagedJS build: ${pjResult.error}`);
-      }
-    } catch (e) {
-      result.errors.push(`PagedJS build exception: ${e}`);
-    }
+  try {
+    copyPrintSpec(inputDir, outputDir);
+  } catch (e) {
+    // Ignore copy errors
   }
 
-  // Step 2: Build with Vivliostyle
-  if (!options.skipVivliostyle) {
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`Building with Vivliostyle CLI`);
-    console.log(`${"─".repeat(40)}`);
-
+  const context = { input: actualHtmlPath, theme: options.theme, spec, timeout: 120000 };
+  const tacSuffix = `tac${spec.maxTAC}`;
+  const tacDpi = 150; // Lower DPI for faster processing during testing
+
+  // Incremental builds: a stage whose inputs hash the same as last run reuses its outputs.
+  // Inputs are the project files, the shared styles/ tree, the theme and the resolved spec.
+  const manifest = loadManifest(outputDir);
+  const inputsKey = hashValue(
+    hashDirectory(inputDir, [outputDir]),
+    hashDirectory(join(APP_ROOT, "styles")),
+    basename(actualHtmlPath),
+    options.theme,
+    spec
+  );
+  const saveProgress = () => {
     try {
-      const vsResult = await buildWithVivliostyle({
-        input: actualHtmlPath,
-        output: join(outputDir, "vivliostyle-output.pdf"),
-        timeout: 120000,
-        theme: options.theme,
-        // Pass explicit page size for consistent output
-        size: TARGET_PAGE.vivliostyleSize,
-        // Note: We don't use press-ready here as we do our own PDF/X conversion
-        // with Ghostscript for better control over the process
-      });
-      result.vivliostyle.build = vsResult.success;
-      if (!vsResult.success && vsResult.error) {
-        result.errors.push(`Vivliostyle build: ${vsResult.error}`);
-      }
+      saveManifest(outputDir, manifest);
     } catch (e) {
-      result.errors.push(`Vivliostyle build exception: ${e}`);
+      console.log(`   ⚠️  Could not write ${MANIFEST_FILE}: ${e}`);
     }
+  };
+  if (options.force) {
+    console.log(`🔁 --force: rebuilding every stage`);
   }
 
-  // Step 2.5: Build with WeasyPrint (with direct PDF/X-1a output)
-  // WeasyPrint 68+ supports native PDF/X output, skipping Ghostscript conversion
-  if (!options.skipWeasyPrint) {
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`Building with WeasyPrint`);
-    console.log(`${"─".repeat(40)}`);
-
-    try {
-      // Build standard PDF first for comparison
-      const wpResult = await buildWithWeasyPrint({
-        input: actualHtmlPath,
-        output: join(outputDir, "weasyprint-output.pdf"),
-        timeout: 120000,
-        mediaType: "print",
-        theme: options.theme,
-      });
-      result.weasyprint.build = wpResult.success;
-      if (!wpResult.success && wpResult.error) {
-        result.errors.push(`WeasyPrint build: ${wpResult.error}`);
+  // Each engine is a chain of jobs (build -> convert -> limit TAC -> validate TAC);
+  // chains for different engines run side by side, up to the pool's concurrency
+  const jobs: Job[] = [];
+  const jobLabels = new Map<string, string>();
+  const addJob = (label: string, job: Job) => {
+    jobLabels.set(job.id, label);
+    jobs.push(job);
+  };
+  const lastJobs: string[] = [];
+
+  for (const renderer of renderers) {
+    const engine: EngineResult = { build: false, convert: false, compliant: false };
+    result.engines[renderer.name] = engine;
+    const engineOutputs = rendererOutputs(outputDir, renderer.name);
+
+    // Each stage's key chains the previous one, so a change upstream invalidates everything after it
+    const buildKey = hashValue(
+      inputsKey,
+      renderer.name,
+      await renderer.version(),
+      Boolean(renderer.buildPdfx && !options.skipConvert),
+      // Native PDF/X is built for the main target
+      renderer.buildPdfx ? targets[0] : undefined
+    );
+
+    // Manifest state of one PDF/X target's chain; extra targets are recorded as "<engine>:<target>"
+    const chainState = (chain: string, targetProvider: ProviderProfile) => {
+      const convertKey = hashValue(
+        buildKey,
+        targetProvider.id,
+        targetProvider.pdfx,
+        outputProfile.checksum,
+        spec.trimSize,
+        spec.bleed,
+        spec.flattenTransparency ? spec.dpi : false
+      );
+      const limitKey = hashValue(convertKey, renderer.postProcess.limitTAC, spec.maxTAC, tacDpi);
+      const keys: Record<Stage, string> = {
+        build: buildKey,
+        convert: convertKey,
+        "limit-tac": limitKey,
+        "validate-tac": hashValue(limitKey, spec.maxTAC, spec.warnTAC, DEFAULT_TAC_DPI),
+      };
+
+      let fresh = options.force ? 0 : countFreshStages(manifest, chain, keys, outputDir);
+      // TAC limiting overwrites the PDF/X in place, so limiting again needs a new PDF/X to start from.
+      // Only the main target's PDF/X can come from the engine itself; the others are always converted.
+      if (renderer.postProcess.limitTAC && fresh <= STAGES.indexOf("limit-tac")) {
+        const nativePdfx = chain === renderer.name && renderer.buildPdfx;
+        fresh = Math.min(fresh, STAGES.indexOf(nativePdfx ? "build" : "convert"));
       }
+      return {
+        keys,
+        reuse: (stage: Stage) => fresh > STAGES.indexOf(stage),
+        stageRecord: (stage: Stage) => manifest.engines[chain]?.[stage],
+      };
+    };
+    const primaryChain = chainState(renderer.name, provider);
+
+    // Step 1: Build
+    // Engines with native PDF/X support also build their PDF/X output here
+    addJob(`${renderer.label} build`, {
+      id: `${renderer.name}:build`,
+      run: async () => {
+        if (primaryChain.reuse("build")) {
+          const record = primaryChain.stageRecord("build")!;
+          engine.build = true;
+          engine.convert = Boolean((record.data as { pdfx?: boolean } | undefined)?.pdfx);
+          console.log(`\n♻️  ${renderer.label}: inputs unchanged, reusing ${record.outputs.join(", ")}`);
+          return;
+        }
+        invalidateFrom(manifest, renderer.name, "build");
+
+        console.log(`\n${"─".repeat(40)}`);
+        console.log(`Building with ${renderer.label}`);
+        console.log(`${"─".repeat(40)}`);
 
-      // If standard build succeeded and we're not skipping conversion,
-      // build PDF/X-3 directly using WeasyPrint 68's native support
-      // Note: PDF/X-1a converts fonts to outlines, PDF/X-3 preserves embedded fonts
-      // This uses the CGATS21_CRPC1.icc profile via CSS @color-profile
-      if (wpResult.success && !options.skipConvert) {
-        console.log(`\n📄 Building PDF/X-3 directly with WeasyPrint (with CMYK color profile)...`);
-        const wpPdfxResult = await buildWithWeasyPrint({
-          input: actualHtmlPath,
-          output: join(outputDir, "weasyprint-pdfx.pdf"),
-          timeout: 120000,
-          mediaType: "print",
-          theme: options.theme,
-          pdfVariant: "pdf/x-3", // PDF/X-3 preserves fonts (X-1a converts to outlines)
-          optimizeImages: true,
-          dpi: 300, // Print-quality DPI
-          fullFonts: true, // Embed full fonts (required for print)
-        });
-        result.weasyprint.convert = wpPdfxResult.success;
-        if (!wpPdfxResult.success && wpPdfxResult.error) {
-          result.errors.push(`WeasyPrint PDF/X: ${wpPdfxResult.error}`);
+        const buildResult = await renderer.build(context, engineOutputs.rgb);
+        engine.build = buildResult.success;
+        if (!buildResult.success && buildResult.error) {
+          result.errors.push(`${renderer.label} build: ${buildResult.error}`);
         }
-      }
-    } catch (e) {
-      result.errors.push(`WeasyPrint build exception: ${e}`);
-    }
-  }
 
-  // Step 3: Convert to PDF/X
-  if (!options.skipConvert) {
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`Converting to PDF/X`);
-    console.log(`${"─".repeat(40)}`);
-
-    // Convert PagedJS output
-    const pjPdf = join(outputDir, "pagedjs-output.pdf");
-    if (existsSync(pjPdf)) {
-      try {
-        const pjConvert = await convertToPdfx({
-          input: pjPdf,
-          output: join(outputDir, "pagedjs-pdfx.pdf"),
-          title: `PagedJS - ${basename(inputDir)}`,
-        });
-        result.pagedjs.convert = pjConvert.success;
-        if (!pjConvert.success && pjConvert.error) {
-          result.errors.push(`PagedJS convert: ${pjConvert.error}`);
+        if (buildResult.success && renderer.buildPdfx && !options.skipConvert) {
+          console.log(`\n📄 Building PDF/X directly with ${renderer.label}...`);
+          const pdfxResult = await renderer.buildPdfx(context, engineOutputs.pdfx, targets[0]);
+          engine.convert = pdfxResult.success;
+          if (!pdfxResult.success && pdfxResult.error) {
+            result.errors.push(`${renderer.label} PDF/X: ${pdfxResult.error}`);
+          }
         }
-      } catch (e) {
-        result.errors.push(`PagedJS convert exception: ${e}`);
-      }
-    }
 
-    // Convert Vivliostyle output
-    const vsPdf = join(outputDir, "vivliostyle-output.pdf");
-    if (existsSync(vsPdf)) {
-      try {
-        const vsConvert = await convertToPdfx({
-          input: vsPdf,
-          output: join(outputDir, "vivliostyle-pdfx.pdf"),
-          title: `Vivliostyle - ${basename(inputDir)}`,
-        });
-        result.vivliostyle.convert = vsConvert.success;
-        if (!vsConvert.success && vsConvert.error) {
-          result.errors.push(`Vivliostyle convert: ${vsConvert.error}`);
+        if (engine.build) {
+          const nativePdfx = Boolean(renderer.buildPdfx && engine.convert);
+          recordStage(manifest, renderer.name, "build", {
+            key: buildKey,
+            outputs: [basename(engineOutputs.rgb), ...(nativePdfx ? [basename(engineOutputs.pdfx)] : [])],
+            data: { pdfx: nativePdfx },
+          });
+          saveProgress();
         }
-      } catch (e) {
-        result.errors.push(`Vivliostyle convert exception: ${e}`);
-      }
-    }
+      },
+    });
+
+    // Digital edition: the RGB build made into a download PDF, independent of PDF/X conversion.
+    // Its manifest chain mirrors the build and records the edition as its "convert" stage.
+    if (options.digital) {
+      const digitalChain = `${renderer.name}:digital`;
+      const digitalKeys = { build: buildKey, convert: hashValue(buildKey, "digital", digitalSettings(spec)) };
+      const digitalFresh = options.force ? 0 : countFreshStages(manifest, digitalChain, digitalKeys, outputDir);
+      const digital: NonNullable<EngineResult["digital"]> = { build: false, valid: false };
+      engine.digital = digital;
+      addJob(`${renderer.label} digital edition`, {
+        id: digitalChain,
+        deps: [`${renderer.name}:build`],
+        run: async (tempDir) => {
+          if (digitalFresh > STAGES.indexOf("convert")) {
+            digital.build = true;
+            console.log(`   ♻️  ${renderer.label} digital edition unchanged, reusing ${basename(engineOutputs.digital)}`);
+            return;
+          }
+          invalidateFrom(manifest, digitalChain, "build");
 
-    // Skip Ghostscript conversion for WeasyPrint - it produces PDF/X directly in Step 2.5
-    // WeasyPrint 68+ uses native PDF/X-1a output with @color-profile for CMYK
-    // The weasyprint-pdfx.pdf is already created with proper color profile
-    const wpPdfx = join(outputDir, "weasyprint-pdfx.pdf");
-    if (!existsSync(wpPdfx)) {
-      // Fallback: convert with Ghostscript if direct PDF/X wasn't created
-      const wpPdf = join(outputDir, "weasyprint-output.pdf");
-      if (existsSync(wpPdf)) {
-        console.log(`   ⚠️  Falling back to Ghostscript conversion for WeasyPrint...`);
-        try {
-          const wpConvert = await convertToPdfx({
-            input: wpPdf,
-            output: join(outputDir, "weasyprint-pdfx.pdf"),
-            title: `WeasyPrint - ${basename(inputDir)}`,
+          if (!existsSync(engineOutputs.rgb)) {
+            return;
+          }
+          const built = await buildDigitalEdition({
+            input: engineOutputs.rgb,
+            output: engineOutputs.digital,
+            html: actualHtmlPath,
+            dpi: digitalSettings(spec).dpi,
+            tempDir,
           });
-          result.weasyprint.convert = wpConvert.success;
-          if (!wpConvert.success && wpConvert.error) {
-            result.errors.push(`WeasyPrint convert: ${wpConvert.error}`);
+          digital.build = built.success;
+          if (!built.success) {
+            result.errors.push(`${renderer.label} digital edition: ${built.error}`);
+            return;
           }
-        } catch (e) {
-          result.errors.push(`WeasyPrint convert exception: ${e}`);
-        }
-      }
-    } else {
-      console.log(`   ✅ WeasyPrint PDF/X-1a already created directly (skipping Ghostscript)`);
+          recordStage(manifest, digitalChain, "build", { key: digitalKeys.build, outputs: [basename(engineOutputs.rgb)] });
+          recordStage(manifest, digitalChain, "convert", {
+            key: digitalKeys.convert,
+            outputs: [basename(engineOutputs.digital)],
+            data: { outline: built.outline, outlineEntries: built.outlineEntries },
+          });
+          saveProgress();
+        },
+      });
+      lastJobs.push(digitalChain);
     }
 
-    // Step 3.5: Apply TAC Limiting to PDF/X outputs
-    // This uses a TIFF pipeline with device-link ICC profiles to enforce 240% TAC
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`Applying TAC Limiting (240% max)`);
-    console.log(`${"─".repeat(40)}`);
-
-    // Limit TAC on PagedJS PDF/X
-    const pjPdfxForTac = join(outputDir, "pagedjs-pdfx.pdf");
-    if (existsSync(pjPdfxForTac)) {
-      try {
-        console.log(`\n🔧 Limiting TAC for PagedJS...`);
-        const tacLimitResult = await limitTAC({
-          input: pjPdfxForTac,
-          output: join(outputDir, "pagedjs-pdfx-tac240.pdf"),
-          maxTAC: 240,
-          dpi: 150, // Lower DPI for faster processing during testing
-          verify: true,
-        });
-        if (tacLimitResult.success) {
-          // Replace the original with the TAC-limited version
-          copyFileSync(join(outputDir, "pagedjs-pdfx-tac240.pdf"), pjPdfxForTac);
-          console.log(`   ✅ TAC limited: ${tacLimitResult.beforeTAC}% → ${tacLimitResult.afterTAC}%`);
-        } else {
-          console.log(`   ⚠️  TAC limiting failed: ${tacLimitResult.error}`);
-        }
-      } catch (e) {
-        console.log(`   ⚠️  TAC limiting skipped: ${e}`);
-      }
+    if (options.skipConvert) {
+      lastJobs.push(`${renderer.name}:build`);
+      continue;
     }
 
-    // Limit TAC on Vivliostyle PDF/X
-    const vsPdfxForTac = join(outputDir, "vivliostyle-pdfx.pdf");
-    if (existsSync(vsPdfxForTac)) {
-      try {
-        console.log(`\n🔧 Limiting TAC for Vivliostyle...`);
-        const tacLimitResult = await limitTAC({
-          input: vsPdfxForTac,
-          output: join(outputDir, "vivliostyle-pdfx-tac240.pdf"),
-          maxTAC: 240,
-          dpi: 150,
-          verify: true,
-        });
-        if (tacLimitResult.success) {
-          // Replace the original with the TAC-limited version
-          copyFileSync(join(outputDir, "vivliostyle-pdfx-tac240.pdf"), vsPdfxForTac);
-          console.log(`   ✅ TAC limited: ${tacLimitResult.beforeTAC}% → ${tacLimitResult.afterTAC}%`);
-        } else {
-          console.log(`   ⚠️  TAC limiting failed: ${tacLimitResult.error}`);
-        }
-      } catch (e) {
-        console.log(`   ⚠️  TAC limiting skipped: ${e}`);
-      }
-    }
+    // Steps 2-2.6 run once per PDF/X target, all starting from the one build
+    for (const target of targets) {
+      const primary = target === targets[0];
+      const chain = primary ? renderer.name : `${renderer.name}:${target}`;
+      const label = primary ? renderer.label : `${renderer.label} ${PDFX_TARGETS[target].standard}`;
+      const targetProvider = withPdfxTarget(provider, target);
+      const state: TargetResult = primary ? engine : ((engine.targets ??= {})[target] = { convert: false, compliant: false });
+      const outputs = primary ? engineOutputs : rendererOutputs(outputDir, renderer.name, target);
+      const { keys, reuse, stageRecord } = primary ? primaryChain : chainState(chain, targetProvider);
+
+      // Step 2: Convert to PDF/X
+      addJob(`${label} convert`, {
+        id: `${chain}:convert`,
+        deps: [`${renderer.name}:build`],
+        run: async (tempDir) => {
+          if (reuse("convert")) {
+            state.convert = true;
+            console.log(`   ♻️  ${label} PDF/X unchanged, reusing ${basename(outputs.pdfx)}`);
+            return;
+          }
+          invalidateFrom(manifest, chain, "convert");
+
+          if (renderer.buildPdfx && state.convert) {
+            // Native PDF/X output was already created in Step 1
+            console.log(`   ✅ ${label} PDF/X already created directly (skipping Ghostscript)`);
+          } else if (existsSync(outputs.rgb)) {
+            if (primary && renderer.buildPdfx) {
+              console.log(`   ⚠️  Falling back to Ghostscript conversion for ${label}...`);
+            }
+
+            const convertResult = await convertToPdfx({
+              input: outputs.rgb,
+              output: outputs.pdfx,
+              title: `${label} - ${basename(inputDir)}`,
+              provider: targetProvider,
+              iccProfile: outputProfile.path,
+              tempDir,
+              flattenTransparency: spec.flattenTransparency,
+              dpi: spec.dpi,
+            });
+            state.convert = convertResult.success;
+            if (!convertResult.success && convertResult.error) {
+              result.errors.push(`${label} convert: ${convertResult.error}`);
+            }
+          }
 
-    // Skip TAC limiting for WeasyPrint PDF/X entirely
-    // CRITICAL: Ghostscript's inkcov device reports ~400% TAC for device-cmyk() colors
-    // even though the mathematical TAC is only 230%. This is a MEASUREMENT ARTIFACT.
-    // WeasyPrint with device-cmyk() produces TAC-compliant output by design.
-    // TAC limiting would rasterize the PDF, destroying embedded fonts for no benefit.
-    const wpPdfxForTac = join(outputDir, "weasyprint-pdfx.pdf");
-    if (existsSync(wpPdfxForTac)) {
-      console.log(`\n🔧 Checking TAC for WeasyPrint...`);
-      console.log(`   ℹ️  Skipping TAC limiting for WeasyPrint to preserve embedded fonts`);
-      console.log(`   ℹ️  Note: Ghostscript inkcov reports inflated TAC for device-cmyk() colors`);
-      console.log(`   ℹ️  Mathematical TAC for device-cmyk(0.5 0.4 0.4 1) = 230% (compliant)`);
-      // Copy the original as the "tac240" version since device-cmyk() is mathematically compliant
-      copyFileSync(wpPdfxForTac, join(outputDir, "weasyprint-pdfx-tac240.pdf"));
-    }
+          // PDF/X needs a TrimBox on every page; write it and the BleedBox from the spec
+          if (state.convert) {
+            const boxes = await writePageBoxes({ input: outputs.pdfx, spec });
+            if (boxes.success) {
+              console.log(`   📐 TrimBox ${formatSize(spec.trimSize)} with ${spec.bleed}" bleed on ${boxes.pageCount} pages`);
+              if (boxes.undersizedPages.length > 0) {
+                result.errors.push(
+                  `${label} page boxes: MediaBox smaller than the trim on page(s) ${formatPageList(boxes.undersizedPages)}`
+                );
+              }
+            } else {
+              state.convert = false;
+              result.errors.push(`${label} page boxes: ${boxes.error}`);
+            }
+          }
 
-    // Step 3.6: Validate TAC (Total Area Coverage)
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`Validating TAC (Total Area Coverage)`);
-    console.log(`${"─".repeat(40)}`);
+          if (state.convert) {
+            if (!primary) {
+              // Mirror the shared build so countFreshStages can walk this chain from "build"
+              recordStage(manifest, chain, "build", { key: keys.build, outputs: [basename(outputs.rgb)] });
+            }
+            recordStage(manifest, chain, "convert", { key: keys.convert, outputs: [basename(outputs.pdfx)] });
+            saveProgress();
+          }
+        },
+      });
 
-    // Validate PagedJS PDF/X output
-    const pjPdfx = join(outputDir, "pagedjs-pdfx.pdf");
-    if (existsSync(pjPdfx)) {
-      try {
-        console.log(`\n🔍 Checking PagedJS PDF/X...`);
-        const tacResult = await validateTAC(pjPdfx);
-        result.pagedjs.tacValidation = tacResult;
+      // Step 2.5: Apply TAC Limiting to the PDF/X output
+      // This uses a TIFF pipeline with device-link ICC profiles to enforce the spec's TAC limit
+      addJob(`${label} TAC limiting`, {
+        id: `${chain}:limit-tac`,
+        deps: [`${chain}:convert`],
+        run: async (tempDir) => {
+          if (reuse("limit-tac")) {
+            console.log(`   ♻️  ${label} TAC-limited PDF/X unchanged, reusing ${basename(outputs.tacLimited(tacSuffix))}`);
+            return;
+          }
+          invalidateFrom(manifest, chain, "limit-tac");
 
-        // Log summary
-        console.log(`   ${tacResult.summary}`);
+          if (!existsSync(outputs.pdfx)) {
+            return;
+          }
+          // Freshly converted: nothing rasterized until limitTAC says otherwise
+          saveRasterizedPages(outputs.pdfx, []);
+
+          let limited = false;
+          let rasterizedPages: number[] = [];
+          if (!renderer.postProcess.limitTAC) {
+            console.log(`\n🔧 Checking TAC for ${label}...`);
+            for (const note of renderer.postProcess.notes ?? []) {
+              console.log(`   ℹ️  ${note}`);
+            }
+            // Copy the original as the TAC-limited version so every engine has the same outputs
+            copyFileSync(outputs.pdfx, outputs.tacLimited(tacSuffix));
+            limited = true;
+          } else {
+            try {
+              console.log(`\n🔧 Limiting TAC for ${label} (${spec.maxTAC}% max)...`);
+              const tacLimitResult = await limitTAC({
+                input: outputs.pdfx,
+                output: outputs.tacLimited(tacSuffix),
+                maxTAC: spec.maxTAC,
+                dpi: tacDpi,
+                verify: true,
+                workers: options.tacWorkers,
+                iccProfile: outputProfile.path,
+                tempDir,
+              });
+              if (tacLimitResult.success) {
+                // Replace the original with the TAC-limited version
+                copyFileSync(outputs.tacLimited(tacSuffix), outputs.pdfx);
+                limited = true;
+                rasterizedPages = tacLimitResult.rasterizedPages ?? [];
+                saveRasterizedPages(outputs.pdfx, rasterizedPages);
+                console.log(`   ✅ TAC limited: ${tacLimitResult.beforeTAC}% → ${tacLimitResult.afterTAC}%`);
+                if (tacLimitResult.colorsChanged) {
+                  console.log(`   🎨 Lowered ${tacLimitResult.colorsChanged} flat colour(s) as vectors`);
+                }
+                if (tacLimitResult.imagesChanged) {
+                  console.log(`   🖼️  Limited ${tacLimitResult.imagesChanged} image(s) in place`);
+                }
+                if (tacLimitResult.failedPages?.length) {
+                  const pages = tacLimitResult.failedPages.map((f) => f.page).join(", ");
+                  result.errors.push(`${label} TAC limiting: page(s) ${pages} could not be rasterized, originals kept`);
+                }
+                if (rasterizedPages.length > 0) {
+                  console.log(`   ⚠️  Rasterized page(s) ${rasterizedPages.join(", ")}: text there is no longer selectable`);
+                }
+              } else {
+                console.log(`   ⚠️  TAC limiting failed: ${tacLimitResult.error}`);
+              }
+            } catch (e) {
+              console.log(`   ⚠️  TAC limiting skipped: ${e}`);
+            }
+          }
 
-        // Warn if TAC exceeds limit
-        if (tacResult.pagesOverLimit.length > 0) {
-          console.log(`   ❌ TAC validation failed: ${tacResult.maxTAC.toFixed(1)}% exceeds 240%`);
-          console.log(`   📄 Pages over limit: ${tacResult.pagesOverLimit.join(", ")}`);
-          for (const rec of tacResult.recommendations.slice(0, 3)) {
-            console.log(`   💡 ${rec}`);
+          if (limited) {
+            recordStage(manifest, chain, "limit-tac", {
+              key: keys["limit-tac"],
+              outputs: [basename(outputs.tacLimited(tacSuffix))],
+              data: { rasterizedPages, outputProfile: { name: outputProfile.name, checksum: outputProfile.checksum } },
+            });
+            saveProgress();
           }
-          // Don't fail the build, just warn
-          result.errors.push(`PagedJS TAC: ${tacResult.pagesOverLimit.length} page(s) exceed 240% limit`);
-        } else if (tacResult.pagesWithWarnings.length > 0) {
-          console.log(`   ⚠️  ${tacResult.pagesWithWarnings.length} page(s) in warning zone (200-240% TAC)`);
-        }
-      } catch (e) {
-        console.log(`   ⚠️  TAC validation skipped: ${e}`);
-      }
-    }
+        },
+      });
 
-    // Validate Vivliostyle PDF/X output
-    const vsPdfx = join(outputDir, "vivliostyle-pdfx.pdf");
-    if (existsSync(vsPdfx)) {
-      try {
-        console.log(`\n🔍 Checking Vivliostyle PDF/X...`);
-        const tacResult = await validateTAC(vsPdfx);
-        result.vivliostyle.tacValidation = tacResult;
+      // Step 2.6: Validate TAC (Total Area Coverage)
+      const reportTAC = (tacResult: TACValidationResult) => {
+        state.tacValidation = tacResult;
 
         // Log summary
         console.log(`   ${tacResult.summary}`);
 
         // Warn if TAC exceeds limit
         if (tacResult.pagesOverLimit.length > 0) {
-          console.log(`   ❌ TAC validation failed: ${tacResult.maxTAC.toFixed(1)}% exceeds 240%`);
+          console.log(`   ❌ TAC validation failed: ${tacResult.maxTAC.toFixed(1)}% exceeds ${spec.maxTAC}%`);
           console.log(`   📄 Pages over limit: ${tacResult.pagesOverLimit.join(", ")}`);
+          if (tacResult.perPage.some((p) => p.heatmap)) {
+            console.log(`   🗺️  Heatmaps: ${relative(outputDir, heatmapDirFor(outputs.pdfx))}/`);
+          }
           for (const rec of tacResult.recommendations.slice(0, 3)) {
             console.log(`   💡 ${rec}`);
           }
           // Don't fail the build, just warn
-          result.errors.push(`Vivliostyle TAC: ${tacResult.pagesOverLimit.length} page(s) exceed 240% limit`);
+          result.errors.push(`${label} TAC: ${tacResult.pagesOverLimit.length} page(s) exceed ${spec.maxTAC}% limit`);
         } else if (tacResult.pagesWithWarnings.length > 0) {
-          console.log(`   ⚠️  ${tacResult.pagesWithWarnings.length} page(s) in warning zone (200-240% TAC)`);
+          console.log(`   ⚠️  ${tacResult.pagesWithWarnings.length} page(s) in warning zone (${spec.warnTAC}-${spec.maxTAC}% TAC)`);
         }
-      } catch (e) {
-        console.log(`   ⚠️  TAC validation skipped: ${e}`);
-      }
-    }
-
-    // Validate WeasyPrint PDF/X output
-    const wpPdfxPath = join(outputDir, "weasyprint-pdfx.pdf");
-    if (existsSync(wpPdfxPath)) {
-      try {
-        console.log(`\n🔍 Checking WeasyPrint PDF/X...`);
-        const tacResult = await validateTAC(wpPdfxPath);
-        result.weasyprint.tacValidation = tacResult;
+      };
+
+      addJob(`${label} TAC validation`, {
+        id: `${chain}:validate-tac`,
+        deps: [`${chain}:limit-tac`],
+        run: async (tempDir) => {
+          if (reuse("validate-tac")) {
+            console.log(`\n♻️  ${label} PDF/X unchanged, reusing TAC validation`);
+            reportTAC(stageRecord("validate-tac")!.data as TACValidationResult);
+            return;
+          }
+          invalidateFrom(manifest, chain, "validate-tac");
 
-        // Log summary
-        console.log(`   ${tacResult.summary}`);
+          if (!existsSync(outputs.pdfx)) {
+            return;
+          }
 
-        // Warn if TAC exceeds limit
-        if (tacResult.pagesOverLimit.length > 0) {
-          console.log(`   ❌ TAC validation failed: ${tacResult.maxTAC.toFixed(1)}% exceeds 240%`);
-          console.log(`   📄 Pages over limit: ${tacResult.pagesOverLimit.join(", ")}`);
-          for (const rec of tacResult.recommendations.slice(0, 3)) {
-            console.log(`   💡 ${rec}`);
+          try {
+            console.log(`\n🔍 Checking ${label} PDF/X TAC...`);
+            const tacResult = await validateTAC(outputs.pdfx, spec, { tempDir });
+            reportTAC(tacResult);
+            recordStage(manifest, chain, "validate-tac", {
+              key: keys["validate-tac"],
+              // Heatmaps are relative to the PDF, which lives in the output directory
+              outputs: tacResult.perPage.flatMap((p) => (p.heatmap ? [p.heatmap] : [])),
+              data: tacResult,
+            });
+            saveProgress();
+          } catch (e) {
+            console.log(`   ⚠️  TAC validation skipped: ${e}`);
           }
-          // Don't fail the build, just warn
-          result.errors.push(`WeasyPrint TAC: ${tacResult.pagesOverLimit.length} page(s) exceed 240% limit`);
-        } else if (tacResult.pagesWithWarnings.length > 0) {
-          console.log(`   ⚠️  ${tacResult.pagesWithWarnings.length} page(s) in warning zone (200-240% TAC)`);
-        }
-      } catch (e) {
-        console.log(`   ⚠️  TAC validation skipped: ${e}`);
-      }
+        },
+      });
+      lastJobs.push(`${chain}:validate-tac`);
+
     }
   }
 
-  // Step 4: Validate and Compare
+  // Step 3: Validate and Compare, once every engine has finished
   if (!options.skipCompare) {
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`Validating and Comparing`);
-    console.log(`${"─".repeat(40)}`);
-
-    try {
-      const comparisonResult = await runComparisonInDir(outputDir);
-
-      // Track compliance status
-      result.pagedjs.compliant = comparisonResult.summary.pagedJsCompliant;
-      result.vivliostyle.compliant = comparisonResult.summary.vivliostyleCompliant;
+    addJob("Comparison", {
+      id: "compare",
+      deps: lastJobs,
+      always: true,
+      run: async () => {
+        console.log(`\n${"─".repeat(40)}`);
+        console.log(`Validating and Comparing`);
+        console.log(`${"─".repeat(40)}`);
+
+        // The TAC validation jobs (run or reused from the manifest) already rendered every page
+        const tacValidations = Object.fromEntries(renderers.map((r) => [r.name, result.engines[r.name]?.tacValidation]));
+        const comparisonResult = await runComparisonInDir(outputDir, { spec, provider, baseSpec }, renderers, tacValidations);
+        result.report = comparisonResult;
+
+        // Track compliance status
+        for (const renderer of renderers) {
+          const engine = result.engines[renderer.name];
+          engine.compliant = comparisonResult.summary.compliant[renderer.name] ?? false;
+          for (const [target, targetResult] of Object.entries(engine.targets ?? {}) as Array<[PdfxTarget, TargetResult]>) {
+            targetResult.compliant = comparisonResult.engines[renderer.name]?.targets?.[target]?.valid ?? false;
+          }
+          if (engine.digital) {
+            engine.digital.valid = comparisonResult.engines[renderer.name]?.digital?.valid ?? false;
+          }
+        }
 
-      // In strict mode, fail if neither PDF is compliant
-      if (options.strictCompliance) {
-        const anyCompliant = result.pagedjs.compliant || result.vivliostyle.compliant;
-        if (!anyCompliant) {
-          result.errors.push("Strict mode: No compliant PDF/X output produced");
+        // In strict mode, fail if no PDF is compliant
+        if (options.strictCompliance) {
+          const anyCompliant = Object.values(result.engines).some((engine) => engine.compliant);
+          if (!anyCompliant) {
+            result.errors.push("Strict mode: No compliant PDF/X output produced");
+          }
         }
-      }
-    } catch (e) {
-      result.errors.push(`Comparison: ${e}`);
+      },
+    });
+  }
+
+  const pool = options.pool ?? createJobPool(options.concurrency ?? 1);
+  if (pool.concurrency > 1) {
+    console.log(`🧵 Running ${jobs.length} jobs, up to ${pool.concurrency} at a time`);
+  }
+  const outcomes = await runJobGraph(jobs, { pool });
+  saveProgress();
+  for (const outcome of Object.values(outcomes)) {
+    if (outcome.status === "failed") {
+      result.errors.push(`${jobLabels.get(outcome.id)} exception: ${outcome.error}`);
     }
   }
 
   // Determine overall success
   result.success =
-    result.errors.length === 0 &&
-    (result.pagedjs.build || options.skipPagedJS) &&
-    (result.vivliostyle.build || options.skipVivliostyle) &&
-    (result.weasyprint.build || options.skipWeasyPrint);
+    result.errors.length === 0 && Object.values(result.engines).every((engine) => engine.build);
 
   // Print summary
   console.log(`\n${"=".repeat(60)}`);
   console.log(`Summary for: ${basename(inputDir)}`);
   console.log(`${"=".repeat(60)}`);
-  const pjBuildStatus = options.skipPagedJS ? "⏭️" : result.pagedjs.build ? "✅" : "❌";
-  const pjConvertStatus =
-    options.skipPagedJS || options.skipConvert ? "⏭️" : result.pagedjs.convert ? "✅" : "❌";
-  const vsBuildStatus = options.skipVivliostyle ? "⏭️" : result.vivliostyle.build ? "✅" : "❌";
-  const vsConvertStatus =
-    options.skipVivliostyle || options.skipConvert ? "⏭️" : result.vivliostyle.convert ? "✅" : "❌";
-
-  const pjCompliantStatus =
-    options.skipCompare ? "⏭️" : result.pagedjs.compliant ? "✅" : "❌";
-  const vsCompliantStatus =
-    options.skipCompare ? "⏭️" : result.vivliostyle.compliant ? "✅" : "❌";
-
-  const wpBuildStatus = options.skipWeasyPrint ? "⏭️" : result.weasyprint.build ? "✅" : "❌";
-  const wpConvertStatus =
-    options.skipWeasyPrint || options.skipConvert ? "⏭️" : result.weasyprint.convert ? "✅" : "❌";
-  const wpCompliantStatus =
-    options.skipCompare ? "⏭️" : result.weasyprint.compliant ? "✅" : "❌";
-
-  console.log(`PagedJS Build:      ${pjBuildStatus}`);
-  console.log(`PagedJS PDF/X:      ${pjConvertStatus}`);
-  console.log(`PagedJS Compliant:  ${pjCompliantStatus}`);
-  console.log(`Vivliostyle Build:  ${vsBuildStatus}`);
-  console.log(`Vivliostyle PDF/X:  ${vsConvertStatus}`);
-  console.log(`Vivliostyle Compliant: ${vsCompliantStatus}`);
-  console.log(`WeasyPrint Build:   ${wpBuildStatus}`);
-  console.log(`WeasyPrint PDF/X:   ${wpConvertStatus}`);
-  console.log(`WeasyPrint Compliant: ${wpCompliantStatus}`);
+  for (const renderer of Object.values(RENDERERS)) {
+    const engine = result.engines[renderer.name];
+    const buildStatus = !engine ? "⏭️" : engine.build ? "✅" : "❌";
+    const convertStatus = !engine || options.skipConvert ? "⏭️" : engine.convert ? "✅" : "❌";
+    const compliantStatus = !engine || options.skipCompare ? "⏭️" : engine.compliant ? "✅" : "❌";
+
+    console.log(`${`${renderer.label} Build:`.padEnd(24)}${buildStatus}`);
+    console.log(`${`${renderer.label} PDF/X:`.padEnd(24)}${convertStatus}`);
+    console.log(`${`${renderer.label} Compliant:`.padEnd(24)}${compliantStatus}`);
+    for (const [target, targetResult] of Object.entries(engine?.targets ?? {}) as Array<[PdfxTarget, TargetResult]>) {
+      const label = `${renderer.label} ${target.toUpperCase()}`;
+      console.log(`${`${label} PDF/X:`.padEnd(24)}${targetResult.convert ? "✅" : "❌"}`);
+      console.log(`${`${label} Compliant:`.padEnd(24)}${options.skipCompare ? "⏭️" : targetResult.compliant ? "✅" : "❌"}`);
+    }
+    if (engine?.digital) {
+      const digitalStatus = !engine.digital.build ? "❌" : options.skipCompare ? "✅ (not validated)" : engine.digital.valid ? "✅" : "❌";
+      console.log(`${`${renderer.label} Digital:`.padEnd(24)}${digitalStatus}`);
+    }
+  }
 
   if (result.errors.length > 0) {
     console.log(`\nErrors:`);
@@ -585,15 +781,104 @@ async function processBatch(options: BatchOptions): Promise<{
   return result;
 }
 
+/**
+ * Watch mode: build once, then rebuild whenever the project HTML, the files it
+ * links or the shared styles/ tree change. The build manifest keeps rebuilds to
+ * the stages whose inputs changed; after each run the page count, max TAC and
+ * unembedded-font changes are printed per engine.
+ */
+async function watchBatch(options: BatchOptions): Promise<void> {
+  const { inputDir, outputDir, htmlFile } = options;
+  if (options.skipCompare) {
+    console.log(`ℹ️  --skip-compare is ignored in watch mode (the check summary comes from the comparison)`);
+  }
+  const runOptions: BatchOptions = { ...options, skipCompare: false };
+
+  let previous: Record<string, CheckSnapshot> = {};
+  const runOnce = async () => {
+    const result = await processBatch(runOptions);
+    if (result.report) {
+      const current = snapshotChecks(result.report);
+      console.log(`\n📋 Checks${Object.keys(previous).length > 0 ? " since last run" : ""}:`);
+      for (const line of diffChecks(previous, current)) {
+        console.log(`   ${line}`);
+      }
+      previous = current;
+    }
+  };
+
+  let stopWatching = () => {};
+  const startWatching = () => {
+    stopWatching();
+    // Re-read the links every run: the HTML may now reference other stylesheets or images
+    const htmlPath = findHtmlFile(inputDir, htmlFile);
+    stopWatching = watchPaths(
+      {
+        dirs: [inputDir, join(APP_ROOT, "styles")],
+        files: htmlPath ? linkedFiles(htmlPath) : [],
+        ignore: [outputDir],
+      },
+      (changed) => void rebuild(changed)
+    );
+    console.log(`\n👀 Watching ${inputDir} and styles/ for changes (Ctrl+C to stop)...`);
+  };
+
+  // Changes that arrive while a build is running are queued for one follow-up run
+  let running = false;
+  let queued: string[] = [];
+  const rebuild = async (changed: string[]) => {
+    if (running) {
+      queued.push(...changed);
+      return;
+    }
+    running = true;
+    console.log(`\n🔄 Changed: ${[...new Set(changed)].map((path) => basename(path)).join(", ")}`);
+    try {
+      await runOnce();
+    } catch (e) {
+      console.error(`   ❌ Rebuild failed: ${e}`);
+    }
+    running = false;
+    try {
+      startWatching();
+    } catch (e) {
+      console.error(`   ❌ Could not restart watching: ${e}`);
+    }
+    if (queued.length > 0) {
+      const next = queued;
+      queued = [];
+      await rebuild(next);
+    }
+  };
+
+  process.on("SIGINT", () => {
+    stopWatching();
+    console.log(`\n👋 Stopped watching`);
+    process.exit(0);
+  });
+
+  // A failed first build still watches, so fixing the file triggers the next run
+  try {
+    await runOnce();
+  } catch (e) {
+    console.error(`   ❌ Build failed: ${e}`);
+  }
+  startWatching();
+}
+
 // Main
 if (import.meta.main) {
   const options = parseArgs();
 
   console.log("Batch Process Options:", options);
 
-  const result = await processBatch(options);
+  if (options.watch) {
+    await watchBatch(options);
+  } else {
+    const result = await processBatch(options);
 
-  process.exit(result.success ? 0 : 1);
+    process.exit(result.success ? 0 : 1);
+  }
 }
 
-export { processBatch, type BatchOptions };
+export { processBatch, type BatchOptions, type BatchResult, type EngineResult, type TargetResult };
@@ -0,0 +1,195 @@
+#!/usr/bin/env bun
+/**
+ * Browser Console & Network Capture
+ * Records what happens inside the headless Chromium used by PagedJS, Vivliostyle
+ * and the plain Chromium baseline: console messages (including PagedJS layout
+ * warnings), uncaught exceptions, failed requests (404 images, missing
+ * @font-face files) and web fonts that failed to load. Messages are returned in
+ * the build result and saved next to the engine log for the comparison report.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
+import type { Page } from "puppeteer";
+import { LOGS_DIR } from "./diagnostics.ts";
+
+export type BrowserMessageKind = "console" | "pageerror" | "requestfailed" | "http-error" | "font-error";
+
+export interface BrowserMessage {
+  kind: BrowserMessageKind;
+  level: "error" | "warning" | "info";
+  text: string;
+  /** Script location for console messages, resource URL for requests */
+  url?: string;
+  line?: number;
+  column?: number;
+  /** Identical messages are folded into one */
+  count: number;
+}
+
+/**
+ * Saved messages for a command producing `output` (e.g. output/book/logs/pagedjs-output.browser.json)
+ */
+export function browserLogPathFor(output: string): string {
+  return join(dirname(output), LOGS_DIR, `${basename(output, ".pdf")}.browser.json`);
+}
+
+/**
+ * Add a message, folding it into an identical earlier one
+ */
+export function addBrowserMessage(messages: BrowserMessage[], message: Omit<BrowserMessage, "count">): void {
+  const existing = messages.find(
+    (m) => m.kind === message.kind && m.level === message.level && m.text === message.text && m.url === message.url
+  );
+  if (existing) {
+    existing.count++;
+  } else {
+    messages.push({ ...message, count: 1 });
+  }
+}
+
+const CONSOLE_LEVELS: Record<string, BrowserMessage["level"] | undefined> = {
+  error: "error",
+  assert: "error",
+  warning: "warning",
+  warn: "warning",
+  info: "info",
+  log: "info",
+};
+
+/**
+ * Record a page's console messages, uncaught exceptions, failed requests and HTTP errors into `messages`.
+ * Attach before navigating so resource failures during load are seen.
+ */
+export function captureBrowserMessages(page: Page, messages: BrowserMessage[]): void {
+  page.on("console", (message) => {
+    // debug/trace/timing chatter is not useful in a report
+    const level = CONSOLE_LEVELS[message.type()];
+    if (!level) return;
+    const location = message.location();
+    addBrowserMessage(messages, {
+      kind: "console",
+      level,
+      text: message.text(),
+      url: location.url || undefined,
+      line: location.lineNumber !== undefined ? location.lineNumber + 1 : undefined,
+      column: location.columnNumber !== undefined ? location.columnNumber + 1 : undefined,
+    });
+  });
+
+  page.on("pageerror", (error) => {
+    addBrowserMessage(messages, {
+      kind: "pageerror",
+      level: "error",
+      text: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  page.on("requestfailed", (request) => {
+    addBrowserMessage(messages, {
+      kind: "requestfailed",
+      level: "error",
+      text: `${request.resourceType()} failed: ${request.failure()?.errorText ?? "unknown error"}`,
+      url: request.url(),
+    });
+  });
+
+  page.on("response", (response) => {
+    if (response.status() < 400) return;
+    addBrowserMessage(messages, {
+      kind: "http-error",
+      level: "error",
+      text: `${response.request().resourceType()} returned HTTP ${response.status()} ${response.statusText()}`.trim(),
+      url: response.url(),
+    });
+  });
+}
+
+/**
+ * Record @font-face rules whose files failed to load. Chromium silently falls
+ * back to another font for these, so they never show up as console errors.
+ */
+export async function recordFontErrors(page: Page, messages: BrowserMessage[]): Promise<void> {
+  // String form: the scripts are not compiled with DOM types
+  const failed = (await page.evaluate(
+    "[...document.fonts].filter((font) => font.status === 'error').map((font) => `${font.family} ${font.weight} ${font.style}`)"
+  )) as string[];
+  for (const font of failed) {
+    addBrowserMessage(messages, { kind: "font-error", level: "error", text: `Web font failed to load: ${font}` });
+  }
+}
+
+/**
+ * Browser messages from a Vivliostyle CLI log run at `--log-level verbose`.
+ * The CLI prints console messages as "console.warn() text" and HTTP errors as
+ * "ERROR 404 url"; it drops console.error() from page scripts itself.
+ */
+export function parseVivliostyleMessages(text: string): BrowserMessage[] {
+  const messages: BrowserMessage[] = [];
+  for (const rawLine of text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const consoleLine = line.match(/^console\.(\w+)\(\)\s*(.*)$/);
+    if (consoleLine) {
+      const level = CONSOLE_LEVELS[consoleLine[1]];
+      if (level) {
+        addBrowserMessage(messages, { kind: "console", level, text: consoleLine[2] });
+      }
+      continue;
+    }
+    const http = line.match(/^ERROR\s+(\d{3})\s+(\S+)$/);
+    if (http) {
+      addBrowserMessage(messages, { kind: "http-error", level: "error", text: `HTTP ${http[1]}`, url: http[2] });
+    }
+  }
+  return messages;
+}
+
+export function saveBrowserMessages(output: string, messages: BrowserMessage[]): string {
+  const path = browserLogPathFor(output);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(messages, null, 2) + "\n", "utf-8");
+  return path;
+}
+
+/**
+ * Saved messages for the given PDFs (missing files contribute nothing)
+ */
+export function loadBrowserMessages(pdfPaths: string[]): BrowserMessage[] {
+  return pdfPaths.flatMap((pdf) => {
+    const path = browserLogPathFor(pdf);
+    if (!existsSync(path)) return [];
+    try {
+      return JSON.parse(readFileSync(path, "utf-8")) as BrowserMessage[];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Print a one-line count of captured errors and warnings
+ */
+export function logBrowserSummary(messages: BrowserMessage[]): void {
+  const errors = messages.filter((m) => m.level === "error").length;
+  const warnings = messages.filter((m) => m.level === "warning").length;
+  if (errors > 0 || warnings > 0) {
+    console.log(`   🌐 Browser: ${errors} error(s), ${warnings} warning(s)`);
+  }
+}
+
+// Run if called directly: show the captured messages for one PDF
+if (import.meta.main) {
+  const pdf = process.argv[2];
+  if (!pdf) {
+    console.error("Usage: bun run scripts/browser-capture.ts <output/project/pagedjs-output.pdf>");
+    process.exit(1);
+  }
+
+  const messages = loadBrowserMessages([pdf]);
+  console.log(`🌐 ${messages.length} browser message(s) for ${pdf}`);
+  for (const m of messages) {
+    const icon = m.level === "error" ? "❌" : m.level === "warning" ? "⚠️ " : "ℹ️ ";
+    const where = m.url ? ` (${m.url}${m.line ? `:${m.line}` : ""})` : "";
+    console.log(`   ${icon} [${m.kind}] ${m.text}${where}${m.count > 1 ? ` ×${m.count}` : ""}`);
+  }
+}
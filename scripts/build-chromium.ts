@@ -0,0 +1,229 @@
+#!/usr/bin/env bun
+/**
+ * Build PDF using plain Chromium print-to-PDF (Puppeteer page.pdf())
+ * Control build with no paged-media polyfill: shows what raw Chromium produces
+ * for the same HTML/CSS, so PagedJS/Vivliostyle bugs can be told apart from
+ * Chromium bugs
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, dirname } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import puppeteer from "puppeteer";
+import { pageSize, printSpecCSS, type PrintSpec } from "./print-spec.ts";
+import {
+  captureBrowserMessages,
+  logBrowserSummary,
+  recordFontErrors,
+  saveBrowserMessages,
+  type BrowserMessage,
+} from "./browser-capture.ts";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+/**
+ * Concatenate CSS files for the Chromium baseline build
+ * Order: variables -> base -> common -> theme -> print spec
+ * There are deliberately no engine-specific overrides: the baseline shows
+ * Chromium's own handling of the shared stylesheets.
+ * @param outputPath - Path to write concatenated CSS
+ * @param theme - Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to skip base styles
+ * @param printSpec - Project print spec; its page size and custom properties are appended last
+ */
+export function concatenateCSS(outputPath: string, theme: string = "kitchen-sink", printSpec?: PrintSpec): string {
+  const stylesDir = join(ROOT, "styles");
+
+  // If theme is "none", rely on HTML-linked CSS plus the print spec
+  const cssFiles =
+    theme === "none"
+      ? []
+      : [
+          // Variables first (CSS custom properties)
+          join(stylesDir, "common/variables.css"),
+          // Base styles
+          join(stylesDir, "base/reset.css"),
+          join(stylesDir, "base/typography.css"),
+          join(stylesDir, "base/print-base.css"),
+          // Common styles
+          join(stylesDir, "common/layout.css"),
+          join(stylesDir, "common/components.css"),
+          // Theme
+          join(stylesDir, `themes/${theme}.css`),
+        ];
+
+  const concatenated = cssFiles
+    .filter((file) => existsSync(file))
+    .map((file) => {
+      const content = readFileSync(file, "utf-8");
+      return `/* Source: ${file.replace(ROOT, "")} */\n${content}\n`;
+    })
+    .join("\n")
+    .concat(printSpec ? `\n${printSpecCSS(printSpec)}` : "");
+
+  writeFileSync(outputPath, concatenated, "utf-8");
+  console.log(
+    theme === "none"
+      ? `   📦 Using HTML-linked CSS (no engine overrides)`
+      : `   📦 Concatenated ${cssFiles.length} CSS files -> ${outputPath}`
+  );
+  return outputPath;
+}
+
+interface BuildOptions {
+  input: string;
+  output: string;
+  timeout?: number;
+  /** Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to use HTML-linked CSS */
+  theme?: string;
+  /** Project print spec (page size and margins appended to the concatenated CSS) */
+  printSpec?: PrintSpec;
+  /** Chromium binary; defaults to PUPPETEER_EXECUTABLE_PATH or Puppeteer's bundled browser */
+  executablePath?: string;
+}
+
+export async function buildWithChromium(options: BuildOptions): Promise<{
+  success: boolean;
+  outputPath: string;
+  duration: number;
+  /** Console messages and failed requests from the rendering page */
+  browserMessages?: BrowserMessage[];
+  error?: string;
+}> {
+  const startTime = performance.now();
+  const {
+    input,
+    output,
+    timeout = 60000,
+    theme = "kitchen-sink",
+    printSpec,
+    executablePath = process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+  } = options;
+
+  // Ensure output directory exists
+  const outputDir = dirname(output);
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+
+  // Check input exists
+  if (!existsSync(input)) {
+    return {
+      success: false,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      error: `Input file not found: ${input}`,
+    };
+  }
+
+  console.log(`\n📄 Building PDF with plain Chromium (page.pdf)...`);
+  console.log(`   Input:  ${input}`);
+  console.log(`   Output: ${output}`);
+
+  let browser: Awaited<ReturnType<typeof puppeteer.launch>> | undefined;
+  const messages: BrowserMessage[] = [];
+  try {
+    // Concatenate CSS files for Chromium
+    const tempCSSPath = join(outputDir, "chromium-styles.css");
+    const concatenatedCSS = concatenateCSS(tempCSSPath, theme, printSpec);
+
+    browser = await puppeteer.launch({
+      headless: "new",
+      executablePath,
+      args: ["--no-sandbox", "--disable-setuid-sandbox"],
+    });
+    console.log(`   Browser: ${await browser.version()}`);
+
+    const page = await browser.newPage();
+    captureBrowserMessages(page, messages);
+    await page.goto(pathToFileURL(input).href, { waitUntil: "networkidle0", timeout });
+    await page.addStyleTag({ path: concatenatedCSS });
+    // Wait for web fonts before printing (string form: this script is not compiled with DOM types)
+    await page.evaluate("document.fonts.ready");
+    await recordFontErrors(page, messages);
+
+    // The @page size from the print spec wins; width/height only apply when no CSS size is set
+    const size = printSpec ? pageSize(printSpec) : undefined;
+    await page.pdf({
+      path: output,
+      preferCSSPageSize: true,
+      printBackground: true,
+      width: size ? `${size.width}in` : undefined,
+      height: size ? `${size.height}in` : undefined,
+      timeout,
+    });
+
+    const duration = performance.now() - startTime;
+
+    if (existsSync(output)) {
+      const stats = await Bun.file(output).stat();
+      console.log(`   ✅ Success! Generated ${((stats?.size ?? 0) / 1024).toFixed(2)} KB`);
+      console.log(`   ⏱️  Duration: ${(duration / 1000).toFixed(2)}s`);
+      return {
+        success: true,
+        outputPath: output,
+        duration,
+        browserMessages: messages,
+      };
+    } else {
+      return {
+        success: false,
+        outputPath: output,
+        duration,
+        browserMessages: messages,
+        error: "Output file was not created",
+      };
+    }
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`   ❌ Error: ${errorMessage}`);
+    return {
+      success: false,
+      outputPath: output,
+      duration,
+      browserMessages: messages,
+      error: errorMessage,
+    };
+  } finally {
+    await browser?.close();
+    saveBrowserMessages(output, messages);
+    logBrowserSummary(messages);
+  }
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const inputDir = process.env.INPUT_DIR && process.env.INPUT_DIR.trim().length > 0
+    ? process.env.INPUT_DIR
+    : join(ROOT, "input");
+
+  let input = join(inputDir, "book.html");
+  if (!existsSync(input)) {
+    const htmlFiles = existsSync(inputDir)
+      ? readdirSync(inputDir).filter((f) => f.toLowerCase().endsWith(".html"))
+      : [];
+    if (htmlFiles.length > 0) {
+      input = join(inputDir, htmlFiles[0]);
+    }
+  }
+
+  const outputBaseDir =
+    process.env.OUTPUT_DIR && process.env.OUTPUT_DIR.trim().length > 0
+      ? process.env.OUTPUT_DIR
+      : join(ROOT, "output");
+  const projectName = process.env.INPUT_DIR && process.env.INPUT_DIR.trim().length > 0
+    ? "project"
+    : "default-test";
+
+  const output = join(outputBaseDir, projectName, "chromium-output.pdf");
+
+  const result = await buildWithChromium({ input, output });
+
+  if (!result.success) {
+    console.error("\n❌ Chromium build failed:", result.error);
+    process.exit(1);
+  }
+
+  console.log("\n✅ Chromium build complete!");
+}
@@ -0,0 +1,172 @@
+#!/usr/bin/env bun
+/**
+ * Build Manifest
+ * Records, per engine and pipeline stage, a hash of everything the stage's
+ * output depends on. processBatch reuses a stage's outputs when its hash is
+ * unchanged and the files are still there, so only the stages downstream of
+ * an edit re-run.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join, relative, resolve } from "node:path";
+
+/** Name of the manifest written to each project output directory */
+export const MANIFEST_FILE = "build-manifest.json";
+
+/** Bump when keys are computed differently, so old manifests are ignored */
+export const MANIFEST_VERSION = 1;
+
+/** Pipeline stages in run order; a stage's key includes the key of the stage before it */
+export const STAGES = ["build", "convert", "limit-tac", "validate-tac"] as const;
+export type Stage = (typeof STAGES)[number];
+
+export interface StageRecord {
+  /** Hash of the stage's inputs */
+  key: string;
+  /** Files the stage produced, relative to the output directory */
+  outputs: string[];
+  completedAt: string;
+  /** Stage result needed when the outputs are reused (e.g. TAC validation) */
+  data?: unknown;
+}
+
+export interface BuildManifest {
+  version: number;
+  /** Keyed by renderer name (`<renderer>:<target>` for extra PDF/X targets), then stage */
+  engines: Record<string, Partial<Record<Stage, StageRecord>>>;
+}
+
+/**
+ * SHA-256 of a list of JSON-serializable values
+ */
+export function hashValue(...parts: unknown[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(JSON.stringify(part) ?? "undefined");
+    hash.update("\0");
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * SHA-256 over every file below a directory (paths and contents).
+ * Dotfiles and the `exclude` directories (e.g. an output directory nested in the input) are skipped.
+ */
+export function hashDirectory(dir: string, exclude: string[] = []): string {
+  const hash = createHash("sha256");
+  const excluded = new Set(exclude.map((path) => resolve(path)));
+
+  const walk = (current: string) => {
+    const entries = readdirSync(current, { withFileTypes: true })
+      .filter((entry) => !entry.name.startsWith("."))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const path = join(current, entry.name);
+      if (excluded.has(resolve(path))) continue;
+      if (entry.isDirectory()) {
+        walk(path);
+      } else if (entry.isFile()) {
+        hash.update(relative(dir, path));
+        hash.update("\0");
+        hash.update(readFileSync(path));
+        hash.update("\0");
+      }
+    }
+  };
+
+  if (existsSync(dir)) {
+    walk(dir);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Load a project's manifest; a missing, unreadable or outdated manifest is treated as empty
+ */
+export function loadManifest(outputDir: string): BuildManifest {
+  const path = join(outputDir, MANIFEST_FILE);
+  try {
+    const manifest = JSON.parse(readFileSync(path, "utf-8")) as BuildManifest;
+    if (manifest.version === MANIFEST_VERSION && manifest.engines && typeof manifest.engines === "object") {
+      return manifest;
+    }
+  } catch {
+    // Start fresh
+  }
+  return { version: MANIFEST_VERSION, engines: {} };
+}
+
+export function saveManifest(outputDir: string, manifest: BuildManifest): void {
+  writeFileSync(join(outputDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Number of leading stages whose recorded key matches and whose outputs still exist.
+ * Stages are a chain: once one is stale, every stage after it re-runs too.
+ */
+export function countFreshStages(
+  manifest: BuildManifest,
+  engine: string,
+  keys: Partial<Record<Stage, string>>,
+  outputDir: string
+): number {
+  const records = manifest.engines[engine] ?? {};
+  let fresh = 0;
+  for (const stage of STAGES) {
+    const record = records[stage];
+    const key = keys[stage];
+    if (!key || !record || record.key !== key) break;
+    if (!record.outputs.every((file) => existsSync(join(outputDir, file)))) break;
+    fresh++;
+  }
+  return fresh;
+}
+
+/**
+ * Record a completed stage
+ */
+export function recordStage(
+  manifest: BuildManifest,
+  engine: string,
+  stage: Stage,
+  record: Omit<StageRecord, "completedAt">
+): void {
+  manifest.engines[engine] ??= {};
+  manifest.engines[engine][stage] = { ...record, completedAt: new Date().toISOString() };
+}
+
+/**
+ * Forget a stage and every stage after it (called before the stage re-runs)
+ */
+export function invalidateFrom(manifest: BuildManifest, engine: string, stage: Stage): void {
+  const records = manifest.engines[engine];
+  if (!records) return;
+  for (const later of STAGES.slice(STAGES.indexOf(stage))) {
+    delete records[later];
+  }
+}
+
+// Run if called directly: show what a project's manifest records
+if (import.meta.main) {
+  const outputDir = process.argv[2];
+  if (!outputDir) {
+    console.error("Usage: bun run scripts/build-manifest.ts <project-output-dir>");
+    process.exit(1);
+  }
+
+  const manifest = loadManifest(outputDir);
+  const engines = Object.entries(manifest.engines);
+  if (engines.length === 0) {
+    console.log(`No ${MANIFEST_FILE} in ${outputDir} (next run builds everything)`);
+  }
+  for (const [engine, records] of engines) {
+    console.log(`\n🧾 ${engine}`);
+    for (const stage of STAGES) {
+      const record = records[stage];
+      console.log(
+        `   ${stage.padEnd(13)} ${record ? `${record.key.slice(0, 12)}  ${record.completedAt}  ${record.outputs.join(", ")}` : "—"}`
+      );
+    }
+  }
+}
@@ -1,24 +1,37 @@
 #!/usr/bin/env bun
 /**
  * Build PDF using PagedJS CLI
- * Renders HTML/CSS to PDF using Chromium via PagedJS polyfill
+ * Renders HTML/CSS to PDF using Chromium via PagedJS polyfill, driving
+ * pagedjs-cli's Printer in-process so browser console and network failures
+ * can be captured
  */
 
-import { $ } from "bun";
 import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { printSpecCSS, type PrintSpec } from "./print-spec.ts";
+import Printer, { type PrinterOptions } from "pagedjs-cli";
+import type { Page } from "puppeteer";
+import { logPathFor, writeLog } from "./diagnostics.ts";
+import {
+  captureBrowserMessages,
+  logBrowserSummary,
+  recordFontErrors,
+  saveBrowserMessages,
+  type BrowserMessage,
+} from "./browser-capture.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 
 /**
  * Concatenate CSS files for PagedJS build
- * Order: variables -> base -> common -> engine-specific -> theme
+ * Order: variables -> base -> common -> engine-specific -> theme -> print spec
  * @param outputPath - Path to write concatenated CSS
  * @param theme - Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to skip base styles
+ * @param printSpec - Project print spec; its page size and custom properties are appended last
  */
-function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): string {
+export function concatenateCSS(outputPath: string, theme: string = "kitchen-sink", printSpec?: PrintSpec): string {
   const stylesDir = join(ROOT, "styles");
 
   // If theme is "none", only include engine-specific overrides
@@ -33,7 +46,8 @@ function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): str
         const content = readFileSync(file, "utf-8");
         return `/* Source: ${file.replace(ROOT, "")} */\n${content}\n`;
       })
-      .join("\n");
+      .join("\n")
+      .concat(printSpec ? `\n${printSpecCSS(printSpec)}` : "");
     writeFileSync(outputPath, concatenated, "utf-8");
     console.log(`   📦 Using HTML-linked CSS + ${cssFiles.filter(f => existsSync(f)).length} engine overrides`);
     return outputPath;
@@ -62,13 +76,67 @@ function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): str
       const content = readFileSync(file, "utf-8");
       return `/* Source: ${file.replace(ROOT, "")} */\n${content}\n`;
     })
-    .join("\n");
+    .join("\n")
+    .concat(printSpec ? `\n${printSpecCSS(printSpec)}` : "");
 
   writeFileSync(outputPath, concatenated, "utf-8");
   console.log(`   📦 Concatenated ${cssFiles.length} CSS files -> ${outputPath}`);
   return outputPath;
 }
 
+/**
+ * pagedjs-cli's Printer with console/network capture attached to the page it renders into
+ */
+class CapturingPrinter extends Printer {
+  private messages: BrowserMessage[];
+
+  constructor(options: PrinterOptions, messages: BrowserMessage[]) {
+    super(options);
+    this.messages = messages;
+  }
+
+  async setup() {
+    const browser = await super.setup();
+    // Printer opens its page and navigates straight away; listen from the start
+    const newPage = browser.newPage.bind(browser);
+    browser.newPage = async () => {
+      const page = await newPage();
+      captureBrowserMessages(page, this.messages);
+      return page;
+    };
+    return browser;
+  }
+
+  async render(input: string): Promise<Page> {
+    const page = await super.render(input);
+    await recordFontErrors(page, this.messages);
+    return page;
+  }
+}
+
+/** Page size presets, as Chromium page.pdf() width/height */
+const PAGE_SIZES: Record<string, { width: string; height: string }> = {
+  a3: { width: "297mm", height: "420mm" },
+  a4: { width: "210mm", height: "297mm" },
+  a5: { width: "148mm", height: "210mm" },
+  b5: { width: "176mm", height: "250mm" },
+  letter: { width: "8.5in", height: "11in" },
+  legal: { width: "8.5in", height: "14in" },
+};
+
+/**
+ * Width and height of a page size preset or a custom "6.25in x 9.25in" size (unitless values are mm)
+ */
+function pageSizeDimensions(pageSize: string): { width: string; height: string } {
+  const preset = PAGE_SIZES[pageSize.trim().toLowerCase()];
+  if (preset) return preset;
+  const match = /^\s*([\d.]+)\s*(mm|cm|in|px)?\s*[x×]\s*([\d.]+)\s*(mm|cm|in|px)?\s*$/i.exec(pageSize);
+  if (!match) {
+    throw new Error(`Unknown page size "${pageSize}" (use ${Object.keys(PAGE_SIZES).join(", ")} or e.g. "6.25in x 9.25in")`);
+  }
+  return { width: `${match[1]}${match[2] ?? "mm"}`, height: `${match[3]}${match[4] ?? "mm"}` };
+}
+
 interface BuildOptions {
   input: string;
   output: string;
@@ -78,20 +146,26 @@ interface BuildOptions {
   widthMM?: number;
   /** Page height in mm (takes precedence over pageSize) */
   heightMM?: number;
-  /** Page size preset like "A4", "letter", or custom "6.25in x 9.25in" */
+  /** Page size preset like "A4", "letter", or custom "6.25in x 9.25in" (takes precedence over the CSS @page size) */
   pageSize?: string;
   /** Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to use HTML-linked CSS */
   theme?: string;
+  /** Project print spec (page size and margins appended to the concatenated CSS) */
+  printSpec?: PrintSpec;
 }
 
 export async function buildWithPagedJS(options: BuildOptions): Promise<{
   success: boolean;
   outputPath: string;
   duration: number;
+  /** Full engine output (see diagnostics.ts) */
+  logPath?: string;
+  /** Console messages and failed requests from the rendering page */
+  browserMessages?: BrowserMessage[];
   error?: string;
 }> {
   const startTime = performance.now();
-  const { input, output, timeout = 60000, additionalStyles, widthMM, heightMM, pageSize, theme = "kitchen-sink" } = options;
+  const { input, output, timeout = 60000, additionalStyles, widthMM, heightMM, pageSize, theme = "kitchen-sink", printSpec } = options;
 
   // Ensure output directory exists
   const outputDir = dirname(output);
@@ -109,44 +183,56 @@ export async function buildWithPagedJS(options: BuildOptions): Promise<{
     };
   }
 
-  console.log(`\n📄 Building PDF with PagedJS CLI...`);
+  console.log(`\n📄 Building PDF with PagedJS...`);
   console.log(`   Input:  ${input}`);
   console.log(`   Output: ${output}`);
 
+  const messages: BrowserMessage[] = [];
   try {
     // Concatenate CSS files for PagedJS
     const tempCSSPath = join(outputDir, "pagedjs-styles.css");
-    const concatenatedCSS = concatenateCSS(tempCSSPath, theme);
-
-    // Build pagedjs-cli command
-    const args = [
-      "npx",
-      "pagedjs-cli",
-      input,
-      "-o",
-      output,
-      "--timeout",
-      String(timeout),
-      "--browserArgs",
-      "--no-sandbox,--disable-setuid-sandbox",
-      "--style",
-      concatenatedCSS,
-    ];
+    const concatenatedCSS = concatenateCSS(tempCSSPath, theme, printSpec);
 
-    if (additionalStyles) {
-      args.push("--style", additionalStyles);
-    }
+    // Render in-process with pagedjs-cli's Printer: the CLI does not forward the
+    // page's console or network events, so warnings and missing files were lost
+    const progress: string[] = [];
+    const printer = new CapturingPrinter(
+      {
+        allowLocal: true,
+        timeout,
+        browserArgs: ["--no-sandbox", "--disable-setuid-sandbox"],
+        styles: additionalStyles ? [concatenatedCSS, additionalStyles] : [concatenatedCSS],
+      },
+      messages
+    );
+    printer.on("rendered", (msg: string) => progress.push(msg));
 
-    // Add page size options - width/height in mm takes precedence
-    if (widthMM && heightMM) {
-      args.push("-w", String(widthMM), "-h", String(heightMM));
-    } else if (pageSize) {
-      args.push("-s", pageSize);
+    try {
+      const pdf = await printer.pdf(input, {
+        outlineTags: ["h1", "h2", "h3"],
+        // Width/height in mm take precedence over pageSize, and both over the CSS @page size
+        ...(widthMM && heightMM
+          ? { width: `${widthMM}mm`, height: `${heightMM}mm` }
+          : pageSize
+            ? pageSizeDimensions(pageSize)
+            : {}),
+      });
+      writeFileSync(output, pdf);
+    } catch (error) {
+      progress.push(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    } finally {
+      // Printer.pdf already closes the browser when rendering fails; a second close
+      // may throw and must not replace the render error
+      await printer.close().catch(() => {});
+      writeLog(logPathFor(output), "pagedjs", { input, output, timeout }, [
+        ...progress,
+        ...messages.map((m) => `[${m.kind}] ${m.level}: ${m.text}${m.url ? ` (${m.url}${m.line ? `:${m.line}` : ""})` : ""}`),
+      ].join("\n"));
+      saveBrowserMessages(output, messages);
+      logBrowserSummary(messages);
     }
 
-    // Run PagedJS CLI
-    const result = await $`${args}`.quiet();
-
     const duration = performance.now() - startTime;
 
     if (existsSync(output)) {
@@ -157,12 +243,16 @@ export async function buildWithPagedJS(options: BuildOptions): Promise<{
         success: true,
         outputPath: output,
         duration,
+        logPath: logPathFor(output),
+        browserMessages: messages,
       };
     } else {
       return {
         success: false,
         outputPath: output,
         duration,
+        logPath: logPathFor(output),
+        browserMessages: messages,
         error: "Output file was not created",
       };
     }
@@ -174,6 +264,7 @@ export async function buildWithPagedJS(options: BuildOptions): Promise<{
       success: false,
       outputPath: output,
       duration,
+      browserMessages: messages,
       error: errorMessage,
     };
   }
@@ -4,21 +4,24 @@
  * Renders HTML/CSS to PDF using Chromium with native CSS Paged Media support
  */
 
-import { $ } from "bun";
 import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { printSpecCSS, type PrintSpec } from "./print-spec.ts";
+import { logDiagnosticSummary, logPathFor, runFailure, runLogged } from "./diagnostics.ts";
+import { logBrowserSummary, parseVivliostyleMessages, saveBrowserMessages, type BrowserMessage } from "./browser-capture.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 
 /**
  * Concatenate CSS files for Vivliostyle build
- * Order: variables -> base -> common -> engine-specific -> theme
+ * Order: variables -> base -> common -> engine-specific -> theme -> print spec
  * @param outputPath - Path to write concatenated CSS
  * @param theme - Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to skip base styles
+ * @param printSpec - Project print spec; its page size and custom properties are appended last
  */
-function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): string {
+export function concatenateCSS(outputPath: string, theme: string = "kitchen-sink", printSpec?: PrintSpec): string {
   const stylesDir = join(ROOT, "styles");
 
   // If theme is "none", only include engine-specific overrides
@@ -33,7 +36,8 @@ function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): str
         const content = readFileSync(file, "utf-8");
         return `/* Source: ${file.replace(ROOT, "")} */\n${content}\n`;
       })
-      .join("\n");
+      .join("\n")
+      .concat(printSpec ? `\n${printSpecCSS(printSpec)}` : "");
     writeFileSync(outputPath, concatenated, "utf-8");
     console.log(`   📦 Using HTML-linked CSS + ${cssFiles.filter(f => existsSync(f)).length} engine overrides`);
     return outputPath;
@@ -62,7 +66,8 @@ function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): str
       const content = readFileSync(file, "utf-8");
       return `/* Source: ${file.replace(ROOT, "")} */\n${content}\n`;
     })
-    .join("\n");
+    .join("\n")
+    .concat(printSpec ? `\n${printSpecCSS(printSpec)}` : "");
 
   writeFileSync(outputPath, concatenated, "utf-8");
   console.log(`   📦 Concatenated ${cssFiles.length} CSS files -> ${outputPath}`);
@@ -85,16 +90,22 @@ interface BuildOptions {
   bleed?: string;
   /** Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to use HTML-linked CSS */
   theme?: string;
+  /** Project print spec (page size and margins appended to the concatenated CSS) */
+  printSpec?: PrintSpec;
 }
 
 export async function buildWithVivliostyle(options: BuildOptions): Promise<{
   success: boolean;
   outputPath: string;
   duration: number;
+  /** Full engine output (see diagnostics.ts) */
+  logPath?: string;
+  /** Console messages and HTTP errors reported by the Vivliostyle viewer page */
+  browserMessages?: BrowserMessage[];
   error?: string;
 }> {
   const startTime = performance.now();
-  const { input, output, timeout = 120000, size, additionalTheme, press = false, cropMarks = false, bleed, theme = "kitchen-sink" } = options;
+  const { input, output, timeout = 120000, size, additionalTheme, press = false, cropMarks = false, bleed, theme = "kitchen-sink", printSpec } = options;
 
   // Ensure output directory exists
   const outputDir = dirname(output);
@@ -119,7 +130,7 @@ export async function buildWithVivliostyle(options: BuildOptions): Promise<{
   try {
     // Concatenate CSS files for Vivliostyle
     const tempCSSPath = join(outputDir, "vivliostyle-styles.css");
-    const concatenatedCSS = concatenateCSS(tempCSSPath, theme);
+    const concatenatedCSS = concatenateCSS(tempCSSPath, theme, printSpec);
 
     // Build vivliostyle command
     const args = [
@@ -131,8 +142,9 @@ export async function buildWithVivliostyle(options: BuildOptions): Promise<{
       output,
       "--timeout",
       String(timeout),
+      // verbose adds the page's console messages, captured as browser messages
       "--log-level",
-      "info",
+      "verbose",
     ];
 
     // Add size if specified (otherwise use CSS @page size)
@@ -166,8 +178,15 @@ export async function buildWithVivliostyle(options: BuildOptions): Promise<{
     // Note: Vivliostyle CLI does not support --browser-arg flag
     // The sandbox flags are handled internally by playwright
 
-    // Run Vivliostyle CLI
-    const result = await $`${args}`.quiet();
+    // Run Vivliostyle CLI, keeping its full output in logs/
+    const run = await runLogged("vivliostyle", args, logPathFor(output));
+    logDiagnosticSummary(run.diagnostics);
+    const browserMessages = parseVivliostyleMessages(`${run.stdout}\n${run.stderr}`);
+    saveBrowserMessages(output, browserMessages);
+    logBrowserSummary(browserMessages);
+    if (run.exitCode !== 0) {
+      throw new Error(runFailure(run));
+    }
 
     const duration = performance.now() - startTime;
 
@@ -179,12 +198,16 @@ export async function buildWithVivliostyle(options: BuildOptions): Promise<{
         success: true,
         outputPath: output,
         duration,
+        logPath: run.logPath,
+        browserMessages,
       };
     } else {
       return {
         success: false,
         outputPath: output,
         duration,
+        logPath: run.logPath,
+        browserMessages,
         error: "Output file was not created",
       };
     }
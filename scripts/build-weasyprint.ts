@@ -11,21 +11,37 @@
  * - CSS Color Level 4/5 support (device-cmyk, color())
  */
 
-import { $ } from "bun";
 import { existsSync, mkdirSync, readFileSync, writeFileSync, copyFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { printSpecCSS, type PrintSpec } from "./print-spec.ts";
+import { loadOutputProfile } from "./icc-profile.ts";
+import { logDiagnosticSummary, logPathFor, runFailure, runLogged } from "./diagnostics.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 
+/** File name color-profile.css's @color-profile rule loads, next to the CSS */
+const OUTPUT_PROFILE_FILE = "output-profile.icc";
+
+/**
+ * Copy the project's output profile next to the CSS for @color-profile resolution
+ * (refreshed every build, since projects may select different profiles)
+ */
+function copyOutputProfile(outputDir: string, printSpec?: PrintSpec): void {
+  const profile = loadOutputProfile(printSpec?.iccProfile);
+  copyFileSync(profile.path, join(outputDir, OUTPUT_PROFILE_FILE));
+  console.log(`   🎨 Copied ICC profile to output directory (${profile.name})`);
+}
+
 /**
  * Concatenate CSS files for WeasyPrint build
- * Order: variables -> base -> common -> engine-specific -> theme
+ * Order: variables -> base -> common -> engine-specific -> theme -> print spec
  * @param outputPath - Path to write concatenated CSS
  * @param theme - Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to skip base styles
+ * @param printSpec - Project print spec; its page size and custom properties are appended last
  */
-function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): string {
+export function concatenateCSS(outputPath: string, theme: string = "kitchen-sink", printSpec?: PrintSpec): string {
   const stylesDir = join(ROOT, "styles");
 
   // If theme is "none", only include engine-specific overrides
@@ -41,17 +57,12 @@ function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): str
         const content = readFileSync(file, "utf-8");
         return `/* Source: ${file.replace(ROOT, "")} */\n${content}\n`;
       })
-      .join("\n");
+      .join("\n")
+      .concat(printSpec ? `\n${printSpecCSS(printSpec)}` : "");
     writeFileSync(outputPath, concatenated, "utf-8");
     console.log(`   📦 Using HTML-linked CSS + ${cssFiles.filter(f => existsSync(f)).length} engine overrides`);
 
-    // Copy ICC profile to output directory for @color-profile resolution
-    const iccSource = join(ROOT, "assets", "CGATS21_CRPC1.icc");
-    const iccDest = join(dirname(outputPath), "CGATS21_CRPC1.icc");
-    if (existsSync(iccSource) && !existsSync(iccDest)) {
-      copyFileSync(iccSource, iccDest);
-      console.log(`   🎨 Copied ICC profile to output directory`);
-    }
+    copyOutputProfile(dirname(outputPath), printSpec);
 
     return outputPath;
   }
@@ -81,22 +92,25 @@ function concatenateCSS(outputPath: string, theme: string = "kitchen-sink"): str
       const content = readFileSync(file, "utf-8");
       return `/* Source: ${file.replace(ROOT, "")} */\n${content}\n`;
     })
-    .join("\n");
+    .join("\n")
+    .concat(printSpec ? `\n${printSpecCSS(printSpec)}` : "");
 
   writeFileSync(outputPath, concatenated, "utf-8");
   console.log(`   📦 Concatenated ${cssFiles.filter(f => existsSync(f)).length} CSS files -> ${outputPath}`);
 
-  // Copy ICC profile to output directory for @color-profile resolution
-  const iccSource = join(ROOT, "assets", "CGATS21_CRPC1.icc");
-  const iccDest = join(dirname(outputPath), "CGATS21_CRPC1.icc");
-  if (existsSync(iccSource) && !existsSync(iccDest)) {
-    copyFileSync(iccSource, iccDest);
-    console.log(`   🎨 Copied ICC profile to output directory`);
-  }
+  copyOutputProfile(dirname(outputPath), printSpec);
 
   return outputPath;
 }
 
+/**
+ * WeasyPrint executable: the project virtual environment's if available, otherwise the system one
+ */
+export function weasyPrintCommand(): string {
+  const venvWeasyPrint = join(ROOT, ".venv", "bin", "weasyprint");
+  return existsSync(venvWeasyPrint) ? venvWeasyPrint : "weasyprint";
+}
+
 /** PDF variant types supported by WeasyPrint 68+ */
 type PdfVariant =
   | "pdf/a-1b" | "pdf/a-2b" | "pdf/a-3b" | "pdf/a-2u" | "pdf/a-3u" | "pdf/a-4u"
@@ -119,6 +133,8 @@ interface BuildOptions {
   attachments?: string[];
   /** Theme name (e.g., "kitchen-sink", "dark-theme") or "none" to use HTML-linked CSS */
   theme?: string;
+  /** Project print spec (page size and margins appended to the concatenated CSS) */
+  printSpec?: PrintSpec;
   /** Optimize embedded images (lossless) */
   optimizeImages?: boolean;
   /** JPEG quality for image compression (0-95) */
@@ -139,6 +155,8 @@ export async function buildWithWeasyPrint(options: BuildOptions): Promise<{
   success: boolean;
   outputPath: string;
   duration: number;
+  /** Full engine output (see diagnostics.ts) */
+  logPath?: string;
   error?: string;
 }> {
   const startTime = performance.now();
@@ -151,6 +169,7 @@ export async function buildWithWeasyPrint(options: BuildOptions): Promise<{
     pdfVariant,
     attachments = [],
     theme = "kitchen-sink",
+    printSpec,
     optimizeImages = false,
     jpegQuality,
     dpi,
@@ -183,15 +202,11 @@ export async function buildWithWeasyPrint(options: BuildOptions): Promise<{
   try {
     // Concatenate CSS files for WeasyPrint
     const tempCSSPath = join(outputDir, "weasyprint-styles.css");
-    concatenateCSS(tempCSSPath, theme);
+    concatenateCSS(tempCSSPath, theme, printSpec);
 
     // Build weasyprint command
-    // Use virtual environment's WeasyPrint if available, otherwise fallback to system
-    const venvWeasyPrint = join(ROOT, ".venv", "bin", "weasyprint");
-    const weasyPrintCmd = existsSync(venvWeasyPrint) ? venvWeasyPrint : "weasyprint";
-
     const args = [
-      weasyPrintCmd,
+      weasyPrintCommand(),
       "--media-type", mediaType,
     ];
 
@@ -250,7 +265,11 @@ export async function buildWithWeasyPrint(options: BuildOptions): Promise<{
 
     // Run WeasyPrint
     console.log(`   🔧 Running: ${args.join(" ")}`);
-    const result = await $`${args}`.quiet();
+    const run = await runLogged("weasyprint", args, logPathFor(output));
+    logDiagnosticSummary(run.diagnostics);
+    if (run.exitCode !== 0) {
+      throw new Error(runFailure(run));
+    }
 
     const duration = performance.now() - startTime;
 
@@ -262,12 +281,14 @@ export async function buildWithWeasyPrint(options: BuildOptions): Promise<{
         success: true,
         outputPath: output,
         duration,
+        logPath: run.logPath,
       };
     } else {
       return {
         success: false,
         outputPath: output,
         duration,
+        logPath: run.logPath,
         error: "Output file was not created",
       };
     }
@@ -367,8 +388,8 @@ Environment:
 
 CMYK & Color Profile:
   WeasyPrint uses CSS @color-profile and device-cmyk() for CMYK output.
-  The color profile (CGATS21_CRPC1.icc) is included automatically when
-  using the concatenated CSS. See styles/engines/weasyprint/color-profile.css
+  The output profile (iccProfile in pdfx.config.json, default CGATS21_CRPC1.icc)
+  is included automatically when using the concatenated CSS. See styles/engines/weasyprint/color-profile.css
 
 Examples:
   # Basic build
@@ -0,0 +1,347 @@
+#!/usr/bin/env bun
+/**
+ * Colour Space Analysis
+ * Lists the colour spaces a PDF actually paints with, per page, by walking the
+ * page resources and content streams with pdf-lib:
+ *
+ * - fills and strokes (g/rg/k and cs/CS, and their stroking forms)
+ * - images (XObjects and inline images; image masks paint in the fill colour)
+ * - shadings (sh, and shading patterns selected with scn/SCN)
+ *
+ * Form XObjects and tiling patterns are followed, so content drawn through them
+ * counts on every page that draws them. Each space is reported as written
+ * (e.g. "ICCBased RGB", "Indexed DeviceRGB", "Separation PANTONE 185 C") with
+ * the process model it paints in, so RGB left over after CMYK conversion shows
+ * up even when most of the page is CMYK.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { basename } from "node:path";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFObject,
+} from "pdf-lib";
+import { forEachOperator } from "./vector-tac.ts";
+import { formatPageList } from "./page-boxes.ts";
+import { INLINE_SPACES, dictOf, nameOf } from "./pdf-objects.ts";
+
+/** Colour model a space paints in; Separation/DeviceN on non-process colorants are "Spot" */
+export type ColorModel = "CMYK" | "Gray" | "RGB" | "Lab" | "Spot" | "Unknown";
+
+export interface ColorSpaceUsage {
+  /** Colour space as written, e.g. "DeviceRGB", "ICCBased CMYK", "Indexed DeviceRGB" */
+  space: string;
+  model: ColorModel;
+  /** Non-stroking colour selections (g, rg, k, cs) */
+  fill: number;
+  /** Stroking colour selections (G, RG, K, CS) */
+  stroke: number;
+  /** Images drawn (XObjects and inline images) */
+  image: number;
+  /** Shadings drawn (sh and shading patterns) */
+  shading: number;
+}
+
+export interface PageColorSpaces {
+  page: number;
+  spaces: ColorSpaceUsage[];
+}
+
+export interface ColorSpaceReport {
+  pages: PageColorSpaces[];
+  /** Uses per colour space over the whole document */
+  totals: ColorSpaceUsage[];
+}
+
+type ColorUse = "fill" | "stroke" | "image" | "shading";
+type Counts = Map<string, ColorSpaceUsage>;
+
+/** Models a CMYK print file may not contain */
+export const NON_CMYK_MODELS: ColorModel[] = ["RGB", "Lab"];
+
+const PROCESS_COLORANTS = ["Cyan", "Magenta", "Yellow", "Black"];
+
+const DEVICE_MODELS: Record<string, ColorModel> = {
+  DeviceGray: "Gray",
+  DeviceRGB: "RGB",
+  DeviceCMYK: "CMYK",
+  CalGray: "Gray",
+  CalRGB: "RGB",
+  CalCMYK: "CMYK",
+  Lab: "Lab",
+};
+
+/** ICC profile component count → model */
+const ICC_MODELS: Record<number, ColorModel> = { 1: "Gray", 3: "RGB", 4: "CMYK" };
+
+/**
+ * Label and process model of a colour space object (a name or a family array)
+ */
+export function describeColorSpace(space: PDFObject | undefined, context: PDFContext): { space: string; model: ColorModel } {
+  const resolved = space instanceof PDFRef ? context.lookup(space) : space;
+  const name = nameOf(resolved);
+  if (name) return { space: name, model: DEVICE_MODELS[name] ?? "Unknown" };
+  if (!(resolved instanceof PDFArray) || resolved.size() === 0) return { space: "unknown", model: "Unknown" };
+
+  const family = nameOf(context.lookup(resolved.get(0))) ?? "unknown";
+  switch (family) {
+    case "ICCBased": {
+      const profile = context.lookup(resolved.get(1));
+      const components = profile instanceof PDFStream ? context.lookup(profile.dict.get(PDFName.of("N"))) : undefined;
+      const model = components instanceof PDFNumber ? ICC_MODELS[components.asNumber()] ?? "Unknown" : "Unknown";
+      return { space: `ICCBased ${model === "Unknown" ? "" : model}`.trim(), model };
+    }
+    case "Indexed": {
+      const base = describeColorSpace(resolved.get(1), context);
+      return { space: `Indexed ${base.space}`, model: base.model };
+    }
+    case "Separation": {
+      const colorant = nameOf(context.lookup(resolved.get(1))) ?? "unnamed";
+      const process = PROCESS_COLORANTS.includes(colorant) || colorant === "All" || colorant === "None";
+      return { space: `Separation ${colorant}`, model: process ? "CMYK" : "Spot" };
+    }
+    case "DeviceN": {
+      const names = context.lookup(resolved.get(1));
+      const colorants = names instanceof PDFArray ? names.asArray().map((n) => nameOf(context.lookup(n)) ?? "?") : [];
+      const process = colorants.every((c) => PROCESS_COLORANTS.includes(c) || c === "None");
+      return { space: `DeviceN ${colorants.join("+")}`, model: process ? "CMYK" : "Spot" };
+    }
+    default:
+      return { space: family, model: DEVICE_MODELS[family] ?? "Unknown" };
+  }
+}
+
+function record(counts: Counts, described: { space: string; model: ColorModel }, use: ColorUse, times = 1): void {
+  let usage = counts.get(described.space);
+  if (!usage) {
+    usage = { ...described, fill: 0, stroke: 0, image: 0, shading: 0 };
+    counts.set(described.space, usage);
+  }
+  usage[use] += times;
+}
+
+function merge(into: Counts, from: Counts): void {
+  for (const usage of from.values()) {
+    for (const use of ["fill", "stroke", "image", "shading"] as const) {
+      if (usage[use] > 0) record(into, usage, use, usage[use]);
+    }
+  }
+}
+
+interface Walk {
+  context: PDFContext;
+  /** Uses per Form XObject / tiling pattern, counted once and added per draw */
+  drawn: Map<string, Counts>;
+}
+
+/**
+ * Colour uses of a form or tiling pattern (`stream` at `ref`), memoized
+ */
+function walkDrawn(ref: PDFObject, stream: PDFRawStream, walk: Walk): Counts {
+  const key = ref.toString();
+  const known = walk.drawn.get(key);
+  if (known) return known;
+  const counts: Counts = new Map();
+  walk.drawn.set(key, counts); // Placeholder: a form drawing itself counts once
+  walkContent([stream], dictOf(stream.dict.get(PDFName.of("Resources")), walk.context), counts, walk);
+  return counts;
+}
+
+/**
+ * Count the colour uses of content streams (a page's streams share one graphics state)
+ */
+function walkContent(streams: PDFRawStream[], resources: PDFDict | undefined, counts: Counts, walk: Walk): void {
+  const { context } = walk;
+  const text = streams
+    .map((stream) => {
+      try {
+        return Buffer.from(decodePDFRawStream(stream).decode()).toString("latin1");
+      } catch {
+        return "";
+      }
+    })
+    .join("\n");
+  const resource = (category: string, name: string): PDFObject | undefined =>
+    dictOf(resources?.get(PDFName.of(category)), context)?.get(PDFName.of(name));
+
+  // Whether the current fill/stroke space is a Pattern space, saved by q and restored by Q
+  let patterned = { fill: false, stroke: false };
+  const saved: Array<typeof patterned> = [];
+
+  forEachOperator(text, (operator, operands) => {
+    switch (operator) {
+      case "q":
+        saved.push({ ...patterned });
+        break;
+      case "Q":
+        patterned = saved.pop() ?? patterned;
+        break;
+      case "g":
+      case "G":
+        record(counts, { space: "DeviceGray", model: "Gray" }, operator === "g" ? "fill" : "stroke");
+        break;
+      case "rg":
+      case "RG":
+        record(counts, { space: "DeviceRGB", model: "RGB" }, operator === "rg" ? "fill" : "stroke");
+        break;
+      case "k":
+      case "K":
+        record(counts, { space: "DeviceCMYK", model: "CMYK" }, operator === "k" ? "fill" : "stroke");
+        break;
+      case "cs":
+      case "CS": {
+        const name = operands.at(-1);
+        if (name?.kind !== "name") break;
+        const use = operator === "cs" ? "fill" : "stroke";
+        const space = name.value in DEVICE_MODELS || name.value === "Pattern" ? PDFName.of(name.value) : resource("ColorSpace", name.value);
+        const described = describeColorSpace(space, context);
+        patterned[use] = described.space === "Pattern";
+        if (!patterned[use]) record(counts, described, use);
+        break;
+      }
+      case "scn":
+      case "SCN": {
+        const name = operands.at(-1);
+        if (!patterned[operator === "scn" ? "fill" : "stroke"] || name?.kind !== "name") break;
+        const ref = resource("Pattern", name.value);
+        const pattern = context.lookup(ref);
+        if (pattern instanceof PDFRawStream && ref) {
+          merge(counts, walkDrawn(ref, pattern, walk));
+        } else if (pattern instanceof PDFDict) {
+          const shading = dictOf(pattern.get(PDFName.of("Shading")), context);
+          if (shading) record(counts, describeColorSpace(shading.get(PDFName.of("ColorSpace")), context), "shading");
+        }
+        break;
+      }
+      case "sh": {
+        const name = operands.at(-1);
+        const shading = name?.kind === "name" ? dictOf(resource("Shading", name.value), context) : undefined;
+        if (shading) record(counts, describeColorSpace(shading.get(PDFName.of("ColorSpace")), context), "shading");
+        break;
+      }
+      case "Do": {
+        const name = operands.at(-1);
+        const ref = name?.kind === "name" ? resource("XObject", name.value) : undefined;
+        const xobject = context.lookup(ref);
+        if (!(xobject instanceof PDFRawStream) || !ref) break;
+        const subtype = nameOf(xobject.dict.get(PDFName.of("Subtype")));
+        if (subtype === "Image") {
+          if (context.lookup(xobject.dict.get(PDFName.of("ImageMask")))?.toString() === "true") break;
+          record(counts, describeColorSpace(xobject.dict.get(PDFName.of("ColorSpace")), context), "image");
+        } else if (subtype === "Form") {
+          merge(counts, walkDrawn(ref, xobject, walk));
+        }
+        break;
+      }
+      case "BI": {
+        const dict = operands[0]?.value ?? "";
+        if (/\/(?:IM|ImageMask)\s+true\b/.test(dict)) break;
+        const indexedBase = dict.match(/\/(?:CS|ColorSpace)\s*\[\s*\/(?:I|Indexed)\s*\/([^\s/[\]<>()]+)/)?.[1];
+        const space = dict.match(/\/(?:CS|ColorSpace)\s*\/([^\s/[\]<>()]+)/)?.[1];
+        if (indexedBase) {
+          const base = describeColorSpace(PDFName.of(INLINE_SPACES[indexedBase] ?? indexedBase), context);
+          record(counts, { space: `Indexed ${base.space}`, model: base.model }, "image");
+        } else if (space) {
+          const full = INLINE_SPACES[space] ?? space;
+          record(counts, describeColorSpace(full in DEVICE_MODELS ? PDFName.of(full) : resource("ColorSpace", space), context), "image");
+        }
+        break;
+      }
+    }
+  });
+}
+
+/**
+ * Colour spaces painted on each page of a PDF, with counts per use
+ */
+export async function analyzeColorSpaces(pdfPath: string): Promise<ColorSpaceReport> {
+  if (!existsSync(pdfPath)) {
+    throw new Error(`File not found: ${pdfPath}`);
+  }
+  const doc = await PDFDocument.load(readFileSync(pdfPath), { updateMetadata: false });
+  const walk: Walk = { context: doc.context, drawn: new Map() };
+  const totals: Counts = new Map();
+
+  const pages = doc.getPages().map((page, i) => {
+    const contents = doc.context.lookup(page.node.get(PDFName.of("Contents")));
+    const streams = (contents instanceof PDFArray ? contents.asArray() : contents ? [contents] : [])
+      .map((ref) => doc.context.lookup(ref))
+      .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream);
+    const counts: Counts = new Map();
+    walkContent(streams, page.node.Resources(), counts, walk);
+    merge(totals, counts);
+    return { page: i + 1, spaces: [...counts.values()] };
+  });
+
+  return { pages, totals: [...totals.values()] };
+}
+
+/**
+ * Models used in the document, most used first, e.g. "CMYK + Gray"; "none" for blank pages
+ */
+export function formatColorModels(report: ColorSpaceReport): string {
+  const uses = new Map<ColorModel, number>();
+  for (const usage of report.totals) {
+    uses.set(usage.model, (uses.get(usage.model) ?? 0) + usage.fill + usage.stroke + usage.image + usage.shading);
+  }
+  const models = [...uses.entries()].sort((a, b) => b[1] - a[1]).map(([model]) => model);
+  return models.length > 0 ? models.join(" + ") : "none";
+}
+
+/**
+ * Uses of one space as text, e.g. "12 fills, 2 images"
+ */
+export function formatUsage(usage: ColorSpaceUsage): string {
+  const parts: Array<[number, string]> = [
+    [usage.fill, "fill"],
+    [usage.stroke, "stroke"],
+    [usage.image, "image"],
+    [usage.shading, "shading"],
+  ];
+  return parts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}${count === 1 ? "" : "s"}`)
+    .join(", ");
+}
+
+/**
+ * Spaces in the given models, with their document totals and the pages using them
+ */
+export function findColorModels(
+  report: ColorSpaceReport,
+  models: ColorModel[]
+): Array<{ usage: ColorSpaceUsage; pages: number[] }> {
+  return report.totals
+    .filter((usage) => models.includes(usage.model))
+    .map((usage) => ({
+      usage,
+      pages: report.pages.filter((page) => page.spaces.some((s) => s.space === usage.space)).map((page) => page.page),
+    }));
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const file = process.argv[2];
+  if (!file) {
+    console.error("Usage: bun run scripts/color-spaces.ts <file.pdf>");
+    process.exit(1);
+  }
+
+  const report = await analyzeColorSpaces(file);
+  console.log(`\n🎨 Colour spaces in ${basename(file)}: ${formatColorModels(report)}\n`);
+  for (const { usage, pages } of findColorModels(report, ["CMYK", "Gray", "RGB", "Lab", "Spot", "Unknown"])) {
+    const icon = NON_CMYK_MODELS.includes(usage.model) ? "❌" : "✅";
+    console.log(`${icon} ${usage.space.padEnd(24)} ${usage.model.padEnd(7)} ${formatUsage(usage)}`);
+    console.log(`     pages ${formatPageList(pages)}`);
+  }
+  process.exit(findColorModels(report, NON_CMYK_MODELS).length > 0 ? 1 : 0);
+}
@@ -1,7 +1,9 @@
 #!/usr/bin/env bun
 /**
- * Compare PagedJS, Vivliostyle, and WeasyPrint PDF outputs
- * Generates a comprehensive markdown report with three-way comparison
+ * Compare PDF outputs from the registered renderers (PagedJS, Vivliostyle, WeasyPrint)
+ * Generates a comprehensive markdown report comparing every engine side by side,
+ * plus each engine's PDF/X-1a, X-3 and X-4 outputs when more than one target was converted
+ * and its digital edition (see digital-edition.ts) when one was built
  */
 
 import { $ } from "bun";
@@ -9,60 +11,82 @@ import { existsSync, mkdirSync, readdirSync } from "node:fs";
 import { join, dirname, basename } from "node:path";
 import { fileURLToPath } from "node:url";
 import { validatePdf, type ValidationResult, type PdfInfo } from "./validate-pdfs.ts";
+import { validateDigitalEdition } from "./digital-edition.ts";
 import { validateTAC, type TACValidationResult } from "./validate-tac.ts";
+import { pageSize, formatSize, type PrintSpec } from "./print-spec.ts";
+import {
+  PDFX_TARGETS,
+  applyProvider,
+  loadProviderSpec,
+  parsePdfxTarget,
+  pdfxTargetOf,
+  withPdfxTarget,
+  type PdfxTarget,
+  type ProviderProfile,
+} from "./providers.ts";
+import { RENDERERS, selectRenderers, parseEngineList, rendererOutputs, type Renderer } from "./renderers.ts";
+import { comparisonSuites, toJSON, toJUnitXml } from "./report-formats.ts";
+import { collectDiagnostics, type Diagnostic } from "./diagnostics.ts";
+import { loadBrowserMessages, type BrowserMessage } from "./browser-capture.ts";
+import { loadRasterizedPages } from "./limit-tac.ts";
+import { formatBoxGeometry } from "./page-boxes.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 
-interface ComparisonReport {
+/** Diagnostics and browser messages listed per engine in the Markdown report (all are kept in the JSON) */
+const MAX_DIAGNOSTIC_ROWS = 25;
+
+/** Validation results for one renderer */
+export interface EngineReport {
+  label: string;
+  rgb: ValidationResult | null;
+  pdfx: ValidationResult | null;
+  tacValidation?: TACValidationResult | null;
+  /** Parsed from the engine and Ghostscript logs in logs/ */
+  diagnostics?: Diagnostic[];
+  /** Console messages and failed requests captured while rendering (Chromium-based engines) */
+  browserMessages?: BrowserMessage[];
+  /** PDF/X pages that TAC limiting replaced with raster images */
+  rasterizedPages?: number[];
+  /** PDF/X outputs for targets other than the provider's (e.g. `<engine>-pdfx-x4.pdf`), keyed by target */
+  targets?: Partial<Record<PdfxTarget, ValidationResult>>;
+  /** Digital edition (`<engine>-digital.pdf`), validated for download distribution */
+  digital?: ValidationResult | null;
+  buildDuration?: number;
+  convertDuration?: number;
+}
+
+export interface ComparisonReport {
   generatedAt: string;
+  printSpec: PrintSpec;
+  provider: ProviderProfile;
   summary: ComparisonSummary;
-  pagedjs: {
-    rgb: ValidationResult | null;
-    pdfx: ValidationResult | null;
-    tacValidation?: TACValidationResult | null;
-    buildDuration?: number;
-    convertDuration?: number;
-  };
-  vivliostyle: {
-    rgb: ValidationResult | null;
-    pdfx: ValidationResult | null;
-    tacValidation?: TACValidationResult | null;
-    buildDuration?: number;
-    convertDuration?: number;
-  };
-  weasyprint: {
-    rgb: ValidationResult | null;
-    pdfx: ValidationResult | null;
-    tacValidation?: TACValidationResult | null;
-    buildDuration?: number;
-    convertDuration?: number;
-  };
+  /** Keyed by renderer name, in run order */
+  engines: Record<string, EngineReport>;
   featureComparison: FeatureComparison[];
   visualComparison: VisualComparison | null;
   recommendations: string[];
 }
 
 interface ComparisonSummary {
-  winner: "pagedjs" | "vivliostyle" | "weasyprint" | "tie" | "inconclusive";
-  pagedJsScore: number;
-  vivliostyleScore: number;
-  weasyprintScore: number;
-  pagedJsCompliant: boolean;
-  vivliostyleCompliant: boolean;
-  weasyprintCompliant: boolean;
+  /** Renderer name with the best score, "tie" or "inconclusive" */
+  winner: string;
+  scores: Record<string, number>;
+  compliant: Record<string, boolean>;
 }
 
 interface FeatureComparison {
   feature: string;
-  pagedjs: string;
-  vivliostyle: string;
-  weasyprint: string;
-  difference: "same" | "different" | "pagedjs-better" | "vivliostyle-better" | "weasyprint-better";
+  /** Value per renderer name */
+  values: Record<string, string>;
+  difference: "same" | "different" | `${string}-better`;
   notes: string;
 }
 
 interface VisualComparison {
+  /** Renderer names of the two PDFs compared */
+  engines: [string, string];
   pagesCompared: number;
   differencesFound: number;
   differenceImages: string[];
@@ -72,6 +96,7 @@ interface VisualComparison {
  * Compare two PDF files visually using pdftoppm and ImageMagick
  */
 async function compareVisually(
+  engines: [string, string],
   pdf1: string,
   pdf2: string,
   outputDir: string
@@ -92,8 +117,8 @@ async function compareVisually(
     // Convert PDFs to images
     console.log(`   Converting PDFs to images...`);
 
-    const pdf1Dir = join(diffDir, "pagedjs");
-    const pdf2Dir = join(diffDir, "vivliostyle");
+    const pdf1Dir = join(diffDir, engines[0]);
+    const pdf2Dir = join(diffDir, engines[1]);
     const diffImgDir = join(diffDir, "diff");
 
     for (const dir of [pdf1Dir, pdf2Dir, diffImgDir]) {
@@ -150,6 +175,7 @@ async function compareVisually(
     );
 
     return {
+      engines,
       pagesCompared: pageCount,
       differencesFound,
       differenceImages,
@@ -161,167 +187,135 @@ async function compareVisually(
 }
 
 /**
- * Compare feature support between the three renderers
+ * Renderer name with the strictly lowest value, if it beats every other renderer
+ */
+function bestOf(
+  values: Array<[string, number]>,
+  beats: (best: number, other: number) => boolean
+): string | undefined {
+  if (values.length < 2) return undefined;
+  const min = Math.min(...values.map(([, value]) => value));
+  const [name, best] = values.find(([, value]) => value === min)!;
+  return values.every(([other, value]) => other === name || beats(best, value)) ? name : undefined;
+}
+
+/**
+ * Compare feature support between the renderers
  */
 function compareFeatures(
-  pagedjs: PdfInfo | null,
-  vivliostyle: PdfInfo | null,
-  weasyprint: PdfInfo | null
+  infos: Array<[string, PdfInfo | null]>,
+  spec: PrintSpec,
+  tacs: Record<string, TACValidationResult | null> = {}
 ): FeatureComparison[] {
   const comparisons: FeatureComparison[] = [];
+  const valuesOf = (format: (info: PdfInfo | null) => string): Record<string, string> =>
+    Object.fromEntries(infos.map(([name, info]) => [name, format(info)]));
+  const allSame = <T>(pick: (info: PdfInfo | null) => T): boolean =>
+    infos.every(([, info]) => pick(info) === pick(infos[0]?.[1] ?? null));
 
   // Page dimensions
+  const firstSize = infos[0]?.[1]?.pageSize;
   comparisons.push({
     feature: "Page Dimensions",
-    pagedjs: pagedjs?.pageSize
-      ? `${pagedjs.pageSize.width.toFixed(3)}" × ${pagedjs.pageSize.height.toFixed(3)}"`
-      : "N/A",
-    vivliostyle: vivliostyle?.pageSize
-      ? `${vivliostyle.pageSize.width.toFixed(3)}" × ${vivliostyle.pageSize.height.toFixed(3)}"`
-      : "N/A",
-    weasyprint: weasyprint?.pageSize
-      ? `${weasyprint.pageSize.width.toFixed(3)}" × ${weasyprint.pageSize.height.toFixed(3)}"`
-      : "N/A",
+    values: valuesOf((info) =>
+      info?.pageSize ? `${info.pageSize.width.toFixed(3)}" × ${info.pageSize.height.toFixed(3)}"` : "N/A"
+    ),
     difference:
-      pagedjs?.pageSize &&
-      vivliostyle?.pageSize &&
-      weasyprint?.pageSize &&
-      Math.abs(pagedjs.pageSize.width - vivliostyle.pageSize.width) < 0.01 &&
-      Math.abs(pagedjs.pageSize.height - vivliostyle.pageSize.height) < 0.01 &&
-      Math.abs(pagedjs.pageSize.width - weasyprint.pageSize.width) < 0.01 &&
-      Math.abs(pagedjs.pageSize.height - weasyprint.pageSize.height) < 0.01
+      firstSize &&
+      infos.every(
+        ([, info]) =>
+          info?.pageSize &&
+          Math.abs(info.pageSize.width - firstSize.width) < 0.01 &&
+          Math.abs(info.pageSize.height - firstSize.height) < 0.01
+      )
         ? "same"
         : "different",
-    notes: "Should match 6.25\" × 9.25\" (6×9 trim + 0.125\" bleed)",
+    notes: `Should match ${formatSize(pageSize(spec))} (${spec.trimSize.width}×${spec.trimSize.height} trim + ${spec.bleed}" bleed)`,
+  });
+
+  // Page boxes
+  const boxGeometry = (info: PdfInfo | null) => {
+    const boxes = info?.pageBoxes;
+    if (!boxes) return "N/A";
+    const varies = boxes.differentPages.length > 0 ? ` (varies on ${boxes.differentPages.length} pages)` : "";
+    return `${formatBoxGeometry(boxes.first)}${varies}`;
+  };
+  comparisons.push({
+    feature: "Page Boxes",
+    values: valuesOf(boxGeometry),
+    difference: allSame(boxGeometry) ? "same" : "different",
+    notes: `TrimBox ${formatSize(spec.trimSize)} inside a BleedBox ${spec.bleed}" larger on every side`,
   });
 
   // Page count
   comparisons.push({
     feature: "Page Count",
-    pagedjs: pagedjs?.pageCount?.toString() || "N/A",
-    vivliostyle: vivliostyle?.pageCount?.toString() || "N/A",
-    weasyprint: weasyprint?.pageCount?.toString() || "N/A",
-    difference:
-      pagedjs?.pageCount === vivliostyle?.pageCount && pagedjs?.pageCount === weasyprint?.pageCount
-        ? "same"
-        : "different",
-    notes: "All three should produce same page count",
+    values: valuesOf((info) => info?.pageCount?.toString() || "N/A"),
+    difference: allSame((info) => info?.pageCount) ? "same" : "different",
+    notes: "All renderers should produce same page count",
   });
 
   // Color space
   comparisons.push({
     feature: "Color Space",
-    pagedjs: pagedjs?.colorSpace || "N/A",
-    vivliostyle: vivliostyle?.colorSpace || "N/A",
-    weasyprint: weasyprint?.colorSpace || "N/A",
-    difference:
-      pagedjs?.colorSpace === vivliostyle?.colorSpace && pagedjs?.colorSpace === weasyprint?.colorSpace
-        ? "same"
-        : "different",
+    values: valuesOf((info) => info?.colorSpace || "N/A"),
+    difference: allSame((info) => info?.colorSpace) ? "same" : "different",
     notes: "Should be CMYK after PDF/X conversion",
   });
 
   // Font embedding
-  const pjFontsEmbedded =
-    pagedjs?.fonts?.filter((f) => f.embedded).length ?? 0;
-  const pjFontsTotal = pagedjs?.fonts?.length ?? 0;
-  const vsFontsEmbedded =
-    vivliostyle?.fonts?.filter((f) => f.embedded).length ?? 0;
-  const vsFontsTotal = vivliostyle?.fonts?.length ?? 0;
-  const wpFontsEmbedded =
-    weasyprint?.fonts?.filter((f) => f.embedded).length ?? 0;
-  const wpFontsTotal = weasyprint?.fonts?.length ?? 0;
-
+  const fontsEmbedded = (info: PdfInfo | null) => info?.fonts?.filter((f) => f.embedded).length ?? 0;
+  const fontsTotal = (info: PdfInfo | null) => info?.fonts?.length ?? 0;
   comparisons.push({
     feature: "Fonts Embedded",
-    pagedjs: `${pjFontsEmbedded}/${pjFontsTotal}`,
-    vivliostyle: `${vsFontsEmbedded}/${vsFontsTotal}`,
-    weasyprint: `${wpFontsEmbedded}/${wpFontsTotal}`,
-    difference:
-      pjFontsEmbedded === pjFontsTotal && vsFontsEmbedded === vsFontsTotal && wpFontsEmbedded === wpFontsTotal
-        ? "same"
-        : "different",
+    values: valuesOf((info) => `${fontsEmbedded(info)}/${fontsTotal(info)}`),
+    difference: infos.every(([, info]) => fontsEmbedded(info) === fontsTotal(info)) ? "same" : "different",
     notes: "All fonts should be embedded",
   });
 
-  // Max ink coverage
-  const pjMaxTac = pagedjs?.inkCoverage?.reduce(
-    (max, p) => Math.max(max, p.tac),
-    0
-  ) ?? 0;
-  const vsMaxTac = vivliostyle?.inkCoverage?.reduce(
-    (max, p) => Math.max(max, p.tac),
-    0
-  ) ?? 0;
-  const wpMaxTac = weasyprint?.inkCoverage?.reduce(
-    (max, p) => Math.max(max, p.tac),
-    0
-  ) ?? 0;
-
-  // Determine which renderer has best TAC (lowest under 240%)
-  let tacDiff: "same" | "different" | "pagedjs-better" | "vivliostyle-better" | "weasyprint-better" = "different";
-  const allCompliant = pjMaxTac <= 240 && vsMaxTac <= 240 && wpMaxTac <= 240;
-
-  if (allCompliant) {
-    // All compliant - best is lowest value
-    const minTac = Math.min(pjMaxTac, vsMaxTac, wpMaxTac);
-    if (wpMaxTac === minTac && wpMaxTac < pjMaxTac - 5 && wpMaxTac < vsMaxTac - 5) {
-      tacDiff = "weasyprint-better";
-    } else if (pjMaxTac === minTac && pjMaxTac < vsMaxTac - 5 && pjMaxTac < wpMaxTac - 5) {
-      tacDiff = "pagedjs-better";
-    } else if (vsMaxTac === minTac && vsMaxTac < pjMaxTac - 5 && vsMaxTac < wpMaxTac - 5) {
-      tacDiff = "vivliostyle-better";
-    } else if (Math.abs(pjMaxTac - vsMaxTac) < 5 && Math.abs(pjMaxTac - wpMaxTac) < 5) {
+  // Max ink coverage: the per-pixel maximum from TAC validation
+  const maxTacs: Array<[string, number]> = infos.map(([name]) => [name, tacs[name]?.maxTAC ?? 0]);
+
+  // Determine which renderer has best TAC (lowest under the TAC limit)
+  let tacDiff: FeatureComparison["difference"] = "different";
+  const compliantTacs = maxTacs.filter(([, tac]) => tac <= spec.maxTAC);
+
+  if (compliantTacs.length === maxTacs.length) {
+    // All compliant - best is lowest value, by a margin of 5%
+    const best = bestOf(maxTacs, (bestTac, other) => bestTac < other - 5);
+    if (best) {
+      tacDiff = `${best}-better`;
+    } else if (maxTacs.every(([, tac]) => Math.abs(tac - maxTacs[0][1]) < 5)) {
       tacDiff = "same";
     }
-  } else {
-    // Some non-compliant - best is the compliant one(s)
-    const wpCompliant = wpMaxTac <= 240;
-    const pjCompliant = pjMaxTac <= 240;
-    const vsCompliant = vsMaxTac <= 240;
-
-    if (wpCompliant && !pjCompliant && !vsCompliant) {
-      tacDiff = "weasyprint-better";
-    } else if (pjCompliant && !vsCompliant && !wpCompliant) {
-      tacDiff = "pagedjs-better";
-    } else if (vsCompliant && !pjCompliant && !wpCompliant) {
-      tacDiff = "vivliostyle-better";
-    }
+  } else if (compliantTacs.length === 1) {
+    // Some non-compliant - best is the only compliant one
+    tacDiff = `${compliantTacs[0][0]}-better`;
   }
 
   comparisons.push({
     feature: "Max Ink (TAC)",
-    pagedjs: `${pjMaxTac.toFixed(1)}%`,
-    vivliostyle: `${vsMaxTac.toFixed(1)}%`,
-    weasyprint: `${wpMaxTac.toFixed(1)}%`,
+    values: Object.fromEntries(maxTacs.map(([name, tac]) => [name, tacs[name] ? `${tac.toFixed(1)}%` : "N/A"])),
     difference: tacDiff,
-    notes: "Should be ≤240% for DriveThruRPG",
+    notes: `Highest per-pixel TAC; should be ≤${spec.maxTAC}%`,
   });
 
   // File size
-  const pjSize = (pagedjs?.fileSize ?? 0) / 1024;
-  const vsSize = (vivliostyle?.fileSize ?? 0) / 1024;
-  const wpSize = (weasyprint?.fileSize ?? 0) / 1024;
-
-  const minSize = Math.min(pjSize, vsSize, wpSize);
-  let sizeDiff: "same" | "different" | "pagedjs-better" | "vivliostyle-better" | "weasyprint-better" = "different";
-
-  if (wpSize === minSize && wpSize < pjSize * 0.9 && wpSize < vsSize * 0.9) {
-    sizeDiff = "weasyprint-better";
-  } else if (pjSize === minSize && pjSize < vsSize * 0.9 && pjSize < wpSize * 0.9) {
-    sizeDiff = "pagedjs-better";
-  } else if (vsSize === minSize && vsSize < pjSize * 0.9 && vsSize < wpSize * 0.9) {
-    sizeDiff = "vivliostyle-better";
-  } else if (Math.abs(pjSize - vsSize) / Math.max(pjSize, vsSize) < 0.1 &&
-             Math.abs(pjSize - wpSize) / Math.max(pjSize, wpSize) < 0.1) {
+  const sizes: Array<[string, number]> = infos.map(([name, info]) => [name, (info?.fileSize ?? 0) / 1024]);
+  let sizeDiff: FeatureComparison["difference"] = "different";
+  const smallest = bestOf(sizes, (bestSize, other) => bestSize < other * 0.9);
+
+  if (smallest) {
+    sizeDiff = `${smallest}-better`;
+  } else if (
+    sizes.every(([, size]) => Math.abs(size - sizes[0][1]) / Math.max(size, sizes[0][1]) < 0.1)
+  ) {
     sizeDiff = "same";
   }
 
   comparisons.push({
     feature: "File Size",
-    pagedjs: `${pjSize.toFixed(1)} KB`,
-    vivliostyle: `${vsSize.toFixed(1)} KB`,
-    weasyprint: `${wpSize.toFixed(1)} KB`,
+    values: Object.fromEntries(sizes.map(([name, size]) => [name, `${size.toFixed(1)} KB`])),
     difference: sizeDiff,
     notes: "Smaller is generally better for upload",
   });
@@ -329,14 +323,9 @@ function compareFeatures(
   // PDF version
   comparisons.push({
     feature: "PDF Version",
-    pagedjs: pagedjs?.pdfVersion || "N/A",
-    vivliostyle: vivliostyle?.pdfVersion || "N/A",
-    weasyprint: weasyprint?.pdfVersion || "N/A",
-    difference:
-      pagedjs?.pdfVersion === vivliostyle?.pdfVersion && pagedjs?.pdfVersion === weasyprint?.pdfVersion
-        ? "same"
-        : "different",
-    notes: "Should be 1.4 for PDF/X-1a compatibility",
+    values: valuesOf((info) => info?.pdfVersion || "N/A"),
+    difference: allSame((info) => info?.pdfVersion) ? "same" : "different",
+    notes: `Should be ${spec.pdfVersions.join(" or ")}`,
   });
 
   return comparisons;
@@ -347,6 +336,12 @@ function compareFeatures(
  */
 function generateMarkdownReport(report: ComparisonReport): string {
   const lines: string[] = [];
+  const spec = report.printSpec;
+  const provider = report.provider;
+  const engines = Object.entries(report.engines);
+  const labels = engines.map(([, engine]) => engine.label);
+  const row = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  const separator = (columns: number) => `|${"------|".repeat(columns)}`;
 
   lines.push(`# PDF/X Test Harness Report`);
   lines.push(``);
@@ -354,222 +349,206 @@ function generateMarkdownReport(report: ComparisonReport): string {
   lines.push(``);
   lines.push(`## Executive Summary`);
   lines.push(``);
-  lines.push(`| Metric | PagedJS | Vivliostyle | WeasyPrint |`);
-  lines.push(`|--------|---------|-------------|------------|`);
-  lines.push(`| DriveThruRPG Compliant | ${report.summary.pagedJsCompliant ? "✅ Yes" : "❌ No"} | ${report.summary.vivliostyleCompliant ? "✅ Yes" : "❌ No"} | ${report.summary.weasyprintCompliant ? "✅ Yes" : "❌ No"} |`);
-  lines.push(`| Compliance Score | ${report.summary.pagedJsScore}/10 | ${report.summary.vivliostyleScore}/10 | ${report.summary.weasyprintScore}/10 |`);
-  lines.push(``);
-
-  const winnerText = {
-    pagedjs: "**PagedJS** produces better results for this test",
-    vivliostyle: "**Vivliostyle** produces better results for this test",
-    weasyprint: "**WeasyPrint** produces better results for this test",
-    tie: "All renderers produce **equivalent** results",
-    inconclusive: "**Inconclusive** - insufficient data for comparison",
-  };
-  lines.push(`**Verdict:** ${winnerText[report.summary.winner]}`);
+  lines.push(row(["Metric", ...labels]));
+  lines.push(separator(labels.length + 1));
+  lines.push(row([`${provider.name} Compliant`, ...engines.map(([name]) => (report.summary.compliant[name] ? "✅ Yes" : "❌ No"))]));
+  lines.push(row(["Compliance Score", ...engines.map(([name]) => `${report.summary.scores[name]}/10`)]));
+  for (const target of otherTargets(report)) {
+    lines.push(row([`${PDFX_TARGETS[target].standard} Compliant`, ...engines.map(([, engine]) => {
+      const result = engine.targets?.[target];
+      return result ? (result.valid ? "✅ Yes" : "❌ No") : "N/A";
+    })]));
+  }
   lines.push(``);
 
-  // PagedJS Section
-  lines.push(`---`);
-  lines.push(``);
-  lines.push(`## PagedJS Output`);
+  const { winner } = report.summary;
+  const winnerText =
+    winner === "tie"
+      ? "All renderers produce **equivalent** results"
+      : winner === "inconclusive"
+        ? "**Inconclusive** - insufficient data for comparison"
+        : `**${report.engines[winner]?.label ?? winner}** produces better results for this test`;
+  lines.push(`**Verdict:** ${winnerText}`);
   lines.push(``);
 
-  if (report.pagedjs.rgb) {
-    lines.push(`### RGB PDF (Before PDF/X Conversion)`);
+  // Per-engine sections
+  for (const [, engine] of engines) {
+    lines.push(`---`);
     lines.push(``);
-    lines.push(`- **File:** \`${report.pagedjs.rgb.filename}\``);
-    lines.push(`- **Valid:** ${report.pagedjs.rgb.valid ? "✅" : "❌"}`);
-    if (report.pagedjs.rgb.info) {
-      lines.push(`- **Pages:** ${report.pagedjs.rgb.info.pageCount}`);
-      lines.push(`- **Dimensions:** ${report.pagedjs.rgb.info.pageSize?.width?.toFixed(3)}" × ${report.pagedjs.rgb.info.pageSize?.height?.toFixed(3)}"`);
-      lines.push(`- **File Size:** ${((report.pagedjs.rgb.info.fileSize ?? 0) / 1024).toFixed(1)} KB`);
-      lines.push(`- **Producer:** ${report.pagedjs.rgb.info.producer}`);
-    }
-    lines.push(``);
-  }
-
-  if (report.pagedjs.pdfx) {
-    lines.push(`### PDF/X Output (DriveThruRPG Ready)`);
-    lines.push(``);
-    lines.push(`- **File:** \`${report.pagedjs.pdfx.filename}\``);
-    lines.push(`- **Compliant:** ${report.pagedjs.pdfx.valid ? "✅ Yes" : "❌ No"}`);
+    lines.push(`## ${engine.label} Output`);
     lines.push(``);
 
-    if (report.pagedjs.pdfx.checks.length > 0) {
-      lines.push(`#### Compliance Checks`);
+    if (engine.rgb) {
+      lines.push(`### RGB PDF (Before PDF/X Conversion)`);
       lines.push(``);
-      lines.push(`| Check | Result | Expected | Actual |`);
-      lines.push(`|-------|--------|----------|--------|`);
-      for (const check of report.pagedjs.pdfx.checks) {
-        const icon = check.passed ? "✅" : check.severity === "warning" ? "⚠️" : "❌";
-        lines.push(`| ${check.name} | ${icon} | ${check.expected} | ${check.actual} |`);
+      lines.push(`- **File:** \`${engine.rgb.filename}\``);
+      lines.push(`- **Valid:** ${engine.rgb.valid ? "✅" : "❌"}`);
+      if (engine.rgb.info) {
+        lines.push(`- **Pages:** ${engine.rgb.info.pageCount}`);
+        lines.push(`- **Dimensions:** ${engine.rgb.info.pageSize?.width?.toFixed(3)}" × ${engine.rgb.info.pageSize?.height?.toFixed(3)}"`);
+        lines.push(`- **File Size:** ${((engine.rgb.info.fileSize ?? 0) / 1024).toFixed(1)} KB`);
+        lines.push(`- **Producer:** ${engine.rgb.info.producer}`);
       }
       lines.push(``);
     }
 
-    if (report.pagedjs.pdfx.errors.length > 0) {
-      lines.push(`#### Errors`);
+    if (engine.pdfx) {
+      lines.push(`### PDF/X Output (${provider.name} Ready)`);
       lines.push(``);
-      for (const error of report.pagedjs.pdfx.errors) {
-        lines.push(`- ❌ ${error}`);
-      }
+      lines.push(`- **File:** \`${engine.pdfx.filename}\``);
+      lines.push(`- **Compliant:** ${engine.pdfx.valid ? "✅ Yes" : "❌ No"}`);
       lines.push(``);
-    }
 
-    if (report.pagedjs.pdfx.warnings.length > 0) {
-      lines.push(`#### Warnings`);
-      lines.push(``);
-      for (const warning of report.pagedjs.pdfx.warnings) {
-        lines.push(`- ⚠️ ${warning}`);
+      if (engine.pdfx.checks.length > 0) {
+        lines.push(`#### Compliance Checks`);
+        lines.push(``);
+        lines.push(`| Check | Result | Expected | Actual |`);
+        lines.push(`|-------|--------|----------|--------|`);
+        for (const check of engine.pdfx.checks) {
+          const icon = check.passed ? "✅" : check.severity === "warning" ? "⚠️" : "❌";
+          lines.push(`| ${check.name} | ${icon} | ${check.expected} | ${check.actual} |`);
+        }
+        lines.push(``);
       }
-      lines.push(``);
-    }
-  }
 
-  // Vivliostyle Section
-  lines.push(`---`);
-  lines.push(``);
-  lines.push(`## Vivliostyle Output`);
-  lines.push(``);
+      if (engine.pdfx.errors.length > 0) {
+        lines.push(`#### Errors`);
+        lines.push(``);
+        for (const error of engine.pdfx.errors) {
+          lines.push(`- ❌ ${error}`);
+        }
+        lines.push(``);
+      }
 
-  if (report.vivliostyle.rgb) {
-    lines.push(`### RGB PDF (Before PDF/X Conversion)`);
-    lines.push(``);
-    lines.push(`- **File:** \`${report.vivliostyle.rgb.filename}\``);
-    lines.push(`- **Valid:** ${report.vivliostyle.rgb.valid ? "✅" : "❌"}`);
-    if (report.vivliostyle.rgb.info) {
-      lines.push(`- **Pages:** ${report.vivliostyle.rgb.info.pageCount}`);
-      lines.push(`- **Dimensions:** ${report.vivliostyle.rgb.info.pageSize?.width?.toFixed(3)}" × ${report.vivliostyle.rgb.info.pageSize?.height?.toFixed(3)}"`);
-      lines.push(`- **File Size:** ${((report.vivliostyle.rgb.info.fileSize ?? 0) / 1024).toFixed(1)} KB`);
-      lines.push(`- **Producer:** ${report.vivliostyle.rgb.info.producer}`);
-    }
-    lines.push(``);
-  }
+      if (engine.pdfx.warnings.length > 0) {
+        lines.push(`#### Warnings`);
+        lines.push(``);
+        for (const warning of engine.pdfx.warnings) {
+          lines.push(`- ⚠️ ${warning}`);
+        }
+        lines.push(``);
+      }
 
-  if (report.vivliostyle.pdfx) {
-    lines.push(`### PDF/X Output (DriveThruRPG Ready)`);
-    lines.push(``);
-    lines.push(`- **File:** \`${report.vivliostyle.pdfx.filename}\``);
-    lines.push(`- **Compliant:** ${report.vivliostyle.pdfx.valid ? "✅ Yes" : "❌ No"}`);
-    lines.push(``);
+      if (engine.targets && Object.keys(engine.targets).length > 0) {
+        lines.push(...targetComparison(engine, pdfxTargetOf(provider)));
+      }
 
-    if (report.vivliostyle.pdfx.checks.length > 0) {
-      lines.push(`#### Compliance Checks`);
-      lines.push(``);
-      lines.push(`| Check | Result | Expected | Actual |`);
-      lines.push(`|-------|--------|----------|--------|`);
-      for (const check of report.vivliostyle.pdfx.checks) {
-        const icon = check.passed ? "✅" : check.severity === "warning" ? "⚠️" : "❌";
-        lines.push(`| ${check.name} | ${icon} | ${check.expected} | ${check.actual} |`);
+      if (engine.rasterizedPages?.length) {
+        lines.push(`#### Rasterized Pages`);
+        lines.push(``);
+        lines.push(
+          `⚠️ TAC limiting replaced page(s) ${engine.rasterizedPages.join(", ")} with images. Text on these pages is no longer selectable or searchable, and vector art and small type may look softer in print.`
+        );
+        lines.push(``);
       }
-      lines.push(``);
     }
 
-    if (report.vivliostyle.pdfx.errors.length > 0) {
-      lines.push(`#### Errors`);
+    const diagnostics = (engine.diagnostics ?? []).filter((d) => d.severity !== "info");
+    if (diagnostics.length > 0) {
+      lines.push(`#### Engine Diagnostics`);
       lines.push(``);
-      for (const error of report.vivliostyle.pdfx.errors) {
-        lines.push(`- ❌ ${error}`);
+      lines.push(`| Severity | Code | Message | Source | Log |`);
+      lines.push(`|----------|------|---------|--------|-----|`);
+      for (const d of diagnostics.slice(0, MAX_DIAGNOSTIC_ROWS)) {
+        const icon = d.severity === "error" ? "❌" : "⚠️";
+        const message = `${d.message.replace(/\|/g, "\\|")}${d.count > 1 ? ` (×${d.count})` : ""}`;
+        const source = d.source ? `\`${d.source}${d.line ? `:${d.line}` : ""}\`` : d.line ? `line ${d.line}` : "—";
+        lines.push(`| ${icon} | ${d.code} | ${message} | ${source} | \`${d.log ?? "—"}\` |`);
+      }
+      if (diagnostics.length > MAX_DIAGNOSTIC_ROWS) {
+        lines.push(``);
+        lines.push(`…and ${diagnostics.length - MAX_DIAGNOSTIC_ROWS} more (see the logs)`);
       }
       lines.push(``);
     }
 
-    if (report.vivliostyle.pdfx.warnings.length > 0) {
-      lines.push(`#### Warnings`);
+    const browserMessages = (engine.browserMessages ?? []).filter((m) => m.level !== "info");
+    if (browserMessages.length > 0) {
+      lines.push(`#### Browser Console & Network`);
       lines.push(``);
-      for (const warning of report.vivliostyle.pdfx.warnings) {
-        lines.push(`- ⚠️ ${warning}`);
+      lines.push(`| Level | Kind | Message | URL |`);
+      lines.push(`|-------|------|---------|-----|`);
+      for (const m of browserMessages.slice(0, MAX_DIAGNOSTIC_ROWS)) {
+        const icon = m.level === "error" ? "❌" : "⚠️";
+        const message = `${m.text.replace(/\|/g, "\\|")}${m.count > 1 ? ` (×${m.count})` : ""}`;
+        const url = m.url ? `\`${m.url}${m.line ? `:${m.line}` : ""}\`` : "—";
+        lines.push(`| ${icon} | ${m.kind} | ${message} | ${url} |`);
+      }
+      if (browserMessages.length > MAX_DIAGNOSTIC_ROWS) {
+        lines.push(``);
+        lines.push(`…and ${browserMessages.length - MAX_DIAGNOSTIC_ROWS} more (see logs/*.browser.json)`);
       }
       lines.push(``);
     }
   }
 
-  // WeasyPrint Section
-  lines.push(`---`);
-  lines.push(``);
-  lines.push(`## WeasyPrint Output`);
-  lines.push(``);
-
-  if (report.weasyprint.rgb) {
-    lines.push(`### RGB PDF (Before PDF/X Conversion)`);
+  // Digital Edition Section
+  const digital = engines.filter(([, engine]) => engine.digital);
+  if (digital.length > 0) {
+    const digitalLabels = digital.map(([, engine]) => engine.label);
+    lines.push(`---`);
     lines.push(``);
-    lines.push(`- **File:** \`${report.weasyprint.rgb.filename}\``);
-    lines.push(`- **Valid:** ${report.weasyprint.rgb.valid ? "✅" : "❌"}`);
-    if (report.weasyprint.rgb.info) {
-      lines.push(`- **Pages:** ${report.weasyprint.rgb.info.pageCount}`);
-      lines.push(`- **Dimensions:** ${report.weasyprint.rgb.info.pageSize?.width?.toFixed(3)}" × ${report.weasyprint.rgb.info.pageSize?.height?.toFixed(3)}"`);
-      lines.push(`- **File Size:** ${((report.weasyprint.rgb.info.fileSize ?? 0) / 1024).toFixed(1)} KB`);
-      lines.push(`- **Producer:** ${report.weasyprint.rgb.info.producer}`);
-    }
+    lines.push(`## Digital Edition`);
     lines.push(``);
-  }
-
-  if (report.weasyprint.pdfx) {
-    lines.push(`### PDF/X Output (DriveThruRPG Ready)`);
-    lines.push(``);
-    lines.push(`- **File:** \`${report.weasyprint.pdfx.filename}\``);
-    lines.push(`- **Compliant:** ${report.weasyprint.pdfx.valid ? "✅ Yes" : "❌ No"}`);
+    lines.push(`RGB download PDFs with bookmarks and links, images at screen resolution, linearized.`);
     lines.push(``);
-
-    if (report.weasyprint.pdfx.checks.length > 0) {
-      lines.push(`#### Compliance Checks`);
-      lines.push(``);
-      lines.push(`| Check | Result | Expected | Actual |`);
-      lines.push(`|-------|--------|----------|--------|`);
-      for (const check of report.weasyprint.pdfx.checks) {
-        const icon = check.passed ? "✅" : check.severity === "warning" ? "⚠️" : "❌";
-        lines.push(`| ${check.name} | ${icon} | ${check.expected} | ${check.actual} |`);
-      }
-      lines.push(``);
-    }
-
-    if (report.weasyprint.pdfx.errors.length > 0) {
-      lines.push(`#### Errors`);
-      lines.push(``);
-      for (const error of report.weasyprint.pdfx.errors) {
-        lines.push(`- ❌ ${error}`);
-      }
-      lines.push(``);
+    lines.push(row(["Check", ...digitalLabels]));
+    lines.push(separator(digitalLabels.length + 1));
+    lines.push(row(["File", ...digital.map(([, engine]) => `\`${engine.digital!.filename}\``)]));
+    lines.push(row(["Suitable for Download", ...digital.map(([, engine]) => (engine.digital!.valid ? "✅ Yes" : "❌ No"))]));
+    const names = [...new Set(digital.flatMap(([, engine]) => engine.digital!.checks.map((check) => check.name)))];
+    for (const name of names) {
+      lines.push(row([name, ...digital.map(([, engine]) => {
+        const check = engine.digital!.checks.find((c) => c.name === name);
+        if (!check) return "—";
+        return `${check.passed ? "✅" : check.severity === "warning" ? "⚠️" : "❌"} ${check.actual}`;
+      })]));
     }
+    lines.push(``);
 
-    if (report.weasyprint.pdfx.warnings.length > 0) {
-      lines.push(`#### Warnings`);
-      lines.push(``);
-      for (const warning of report.weasyprint.pdfx.warnings) {
-        lines.push(`- ⚠️ ${warning}`);
+    for (const [, engine] of digital) {
+      const issues = [
+        ...engine.digital!.errors.map((error) => `❌ ${error}`),
+        ...engine.digital!.warnings.map((warning) => `⚠️ ${warning}`),
+      ];
+      if (issues.length > 0) {
+        lines.push(`**${engine.label}:**`);
+        lines.push(``);
+        for (const issue of issues) {
+          lines.push(`- ${issue}`);
+        }
+        lines.push(``);
       }
-      lines.push(``);
     }
   }
 
-  // Three-Way Comparison Section
+  // Engine Comparison Section
   lines.push(`---`);
   lines.push(``);
-  lines.push(`## Three-Way Comparison`);
+  lines.push(`## Engine Comparison`);
   lines.push(``);
   lines.push(`### Feature Comparison Table`);
   lines.push(``);
-  lines.push(`| Feature | PagedJS | Vivliostyle | WeasyPrint | Best |`);
-  lines.push(`|---------|---------|-------------|------------|------|`);
+  lines.push(row(["Feature", ...labels, "Best"]));
+  lines.push(separator(labels.length + 2));
 
   for (const feature of report.featureComparison) {
-    const diffIcon = {
-      same: "✅ Same",
-      different: "🔄 Different",
-      "pagedjs-better": "PagedJS",
-      "vivliostyle-better": "Vivliostyle",
-      "weasyprint-better": "**WeasyPrint**",
-    };
-    lines.push(`| ${feature.feature} | ${feature.pagedjs} | ${feature.vivliostyle} | ${feature.weasyprint} | ${diffIcon[feature.difference]} |`);
+    const best =
+      feature.difference === "same"
+        ? "✅ Same"
+        : feature.difference === "different"
+          ? "🔄 Different"
+          : report.engines[feature.difference.slice(0, -"-better".length)]?.label ?? feature.difference;
+    lines.push(row([feature.feature, ...engines.map(([name]) => feature.values[name] ?? "N/A"), best]));
   }
   lines.push(``);
 
   // Visual Comparison
   if (report.visualComparison) {
+    const [first, second] = report.visualComparison.engines;
     lines.push(`### Visual Comparison`);
     lines.push(``);
+    lines.push(`- **Renderers:** ${report.engines[first]?.label ?? first} vs ${report.engines[second]?.label ?? second}`);
     lines.push(`- **Pages Compared:** ${report.visualComparison.pagesCompared}`);
     lines.push(`- **Pages with Differences:** ${report.visualComparison.differencesFound}`);
     lines.push(``);
@@ -587,88 +566,43 @@ function generateMarkdownReport(report: ComparisonReport): string {
   lines.push(`### TAC (Total Area Coverage) Validation`);
   lines.push(``);
 
-  const pjTac = report.pagedjs.tacValidation;
-  const vsTac = report.vivliostyle.tacValidation;
-  const wpTac = report.weasyprint.tacValidation;
-
-  if (pjTac || vsTac || wpTac) {
-    lines.push(`| Metric | PagedJS | Vivliostyle | WeasyPrint | Limit |`);
-    lines.push(`|--------|---------|-------------|------------|-------|`);
-
-    const pjMaxTac = pjTac ? `${pjTac.maxTAC.toFixed(1)}%` : "N/A";
-    const vsMaxTac = vsTac ? `${vsTac.maxTAC.toFixed(1)}%` : "N/A";
-    const wpMaxTac = wpTac ? `${wpTac.maxTAC.toFixed(1)}%` : "N/A";
-    const pjMaxIcon = pjTac && pjTac.maxTAC > 240 ? "❌" : pjTac && pjTac.maxTAC > 200 ? "⚠️" : "✅";
-    const vsMaxIcon = vsTac && vsTac.maxTAC > 240 ? "❌" : vsTac && vsTac.maxTAC > 200 ? "⚠️" : "✅";
-    const wpMaxIcon = wpTac && wpTac.maxTAC > 240 ? "❌" : wpTac && wpTac.maxTAC > 200 ? "⚠️" : "✅";
-    lines.push(`| Max TAC | ${pjMaxIcon} ${pjMaxTac} | ${vsMaxIcon} ${vsMaxTac} | ${wpMaxIcon} ${wpMaxTac} | ≤240% |`);
-
-    const pjAvgTac = pjTac ? `${pjTac.averageTAC.toFixed(1)}%` : "N/A";
-    const vsAvgTac = vsTac ? `${vsTac.averageTAC.toFixed(1)}%` : "N/A";
-    const wpAvgTac = wpTac ? `${wpTac.averageTAC.toFixed(1)}%` : "N/A";
-    lines.push(`| Avg TAC | ${pjAvgTac} | ${vsAvgTac} | ${wpAvgTac} | ≤200% |`);
-
-    const pjOverLimit = pjTac ? pjTac.pagesOverLimit.length : 0;
-    const vsOverLimit = vsTac ? vsTac.pagesOverLimit.length : 0;
-    const wpOverLimit = wpTac ? wpTac.pagesOverLimit.length : 0;
-    const pjOverIcon = pjOverLimit > 0 ? "❌" : "✅";
-    const vsOverIcon = vsOverLimit > 0 ? "❌" : "✅";
-    const wpOverIcon = wpOverLimit > 0 ? "❌" : "✅";
-    lines.push(`| Pages >240% | ${pjOverIcon} ${pjOverLimit} | ${vsOverIcon} ${vsOverLimit} | ${wpOverIcon} ${wpOverLimit} | 0 |`);
-
-    const pjWarnPages = pjTac ? pjTac.pagesWithWarnings.length : 0;
-    const vsWarnPages = vsTac ? vsTac.pagesWithWarnings.length : 0;
-    const wpWarnPages = wpTac ? wpTac.pagesWithWarnings.length : 0;
-    const pjWarnIcon = pjWarnPages > 0 ? "⚠️" : "✅";
-    const vsWarnIcon = vsWarnPages > 0 ? "⚠️" : "✅";
-    const wpWarnIcon = wpWarnPages > 0 ? "⚠️" : "✅";
-    lines.push(`| Pages 200-240% | ${pjWarnIcon} ${pjWarnPages} | ${vsWarnIcon} ${vsWarnPages} | ${wpWarnIcon} ${wpWarnPages} | 0 |`);
+  const tacs = engines.map(([, engine]) => engine.tacValidation);
+
+  if (tacs.some(Boolean)) {
+    lines.push(row(["Metric", ...labels, "Limit"]));
+    lines.push(separator(labels.length + 2));
+
+    lines.push(row(["Max TAC", ...tacs.map((tac) => {
+      const icon = tac && tac.maxTAC > spec.maxTAC ? "❌" : tac && tac.maxTAC > spec.warnTAC ? "⚠️" : "✅";
+      return `${icon} ${tac ? `${tac.maxTAC.toFixed(1)}%` : "N/A"}`;
+    }), `≤${spec.maxTAC}%`]));
+    lines.push(row(["Avg TAC", ...tacs.map((tac) => (tac ? `${tac.averageTAC.toFixed(1)}%` : "N/A")), `≤${spec.warnTAC}%`]));
+    lines.push(row([`Pages >${spec.maxTAC}%`, ...tacs.map((tac) => {
+      const over = tac ? tac.pagesOverLimit.length : 0;
+      return `${over > 0 ? "❌" : "✅"} ${over}`;
+    }), "0"]));
+    lines.push(row([`Pages ${spec.warnTAC}-${spec.maxTAC}%`, ...tacs.map((tac) => {
+      const warn = tac ? tac.pagesWithWarnings.length : 0;
+      return `${warn > 0 ? "⚠️" : "✅"} ${warn}`;
+    }), "0"]));
 
     lines.push(``);
 
     // Add detailed page-by-page TAC if there are issues
-    if (pjOverLimit > 0 || vsOverLimit > 0 || wpOverLimit > 0 || pjWarnPages > 0 || vsWarnPages > 0 || wpWarnPages > 0) {
+    const overEngines = engines.filter(([, engine]) => engine.tacValidation?.pagesOverLimit.length);
+    const warnEngines = engines.filter(([, engine]) => engine.tacValidation?.pagesWithWarnings.length);
+
+    if (overEngines.length > 0 || warnEngines.length > 0) {
       lines.push(`#### Pages Requiring Attention`);
       lines.push(``);
 
-      if (pjOverLimit > 0) {
-        lines.push(`**PagedJS - Pages Over 240% TAC:**`);
-        lines.push(``);
-        const overPages = pjTac!.perPage.filter(p => p.status === "fail");
-        for (const p of overPages.slice(0, 10)) {
-          lines.push(`- Page ${p.page}: ${p.tac.toFixed(1)}% TAC`);
-          if (p.recommendation) {
-            lines.push(`  - ${p.recommendation}`);
-          }
-        }
-        if (overPages.length > 10) {
-          lines.push(`- ... and ${overPages.length - 10} more pages`);
-        }
-        lines.push(``);
-      }
-
-      if (vsOverLimit > 0) {
-        lines.push(`**Vivliostyle - Pages Over 240% TAC:**`);
-        lines.push(``);
-        const overPages = vsTac!.perPage.filter(p => p.status === "fail");
-        for (const p of overPages.slice(0, 10)) {
-          lines.push(`- Page ${p.page}: ${p.tac.toFixed(1)}% TAC`);
-          if (p.recommendation) {
-            lines.push(`  - ${p.recommendation}`);
-          }
-        }
-        if (overPages.length > 10) {
-          lines.push(`- ... and ${overPages.length - 10} more pages`);
-        }
-        lines.push(``);
-      }
-
-      if (wpOverLimit > 0) {
-        lines.push(`**WeasyPrint - Pages Over 240% TAC:**`);
+      for (const [, engine] of overEngines) {
+        lines.push(`**${engine.label} - Pages Over ${spec.maxTAC}% TAC:**`);
         lines.push(``);
-        const overPages = wpTac!.perPage.filter(p => p.status === "fail");
+        const overPages = engine.tacValidation!.perPage.filter(p => p.status === "fail");
         for (const p of overPages.slice(0, 10)) {
-          lines.push(`- Page ${p.page}: ${p.tac.toFixed(1)}% TAC`);
+          const heatmap = p.heatmap ? ` ([heatmap](${encodeURI(p.heatmap)}))` : "";
+          lines.push(`- Page ${p.page}: ${p.tac.toFixed(1)}% TAC, ${p.areaOverLimit.toFixed(1)}% of page area over limit${heatmap}`);
           if (p.recommendation) {
             lines.push(`  - ${p.recommendation}`);
           }
@@ -679,18 +613,13 @@ function generateMarkdownReport(report: ComparisonReport): string {
         lines.push(``);
       }
 
-      if (pjWarnPages > 0 || vsWarnPages > 0 || wpWarnPages > 0) {
-        lines.push(`**Pages in Warning Zone (200-240% TAC):**`);
+      if (warnEngines.length > 0) {
+        lines.push(`**Pages in Warning Zone (${spec.warnTAC}-${spec.maxTAC}% TAC):**`);
         lines.push(``);
 
-        if (pjWarnPages > 0) {
-          lines.push(`- PagedJS: ${pjTac!.pagesWithWarnings.slice(0, 10).join(", ")}${pjWarnPages > 10 ? ` ... (${pjWarnPages} total)` : ""}`);
-        }
-        if (vsWarnPages > 0) {
-          lines.push(`- Vivliostyle: ${vsTac!.pagesWithWarnings.slice(0, 10).join(", ")}${vsWarnPages > 10 ? ` ... (${vsWarnPages} total)` : ""}`);
-        }
-        if (wpWarnPages > 0) {
-          lines.push(`- WeasyPrint: ${wpTac!.pagesWithWarnings.slice(0, 10).join(", ")}${wpWarnPages > 10 ? ` ... (${wpWarnPages} total)` : ""}`);
+        for (const [, engine] of warnEngines) {
+          const warnPages = engine.tacValidation!.pagesWithWarnings;
+          lines.push(`- ${engine.label}: ${warnPages.slice(0, 10).join(", ")}${warnPages.length > 10 ? ` ... (${warnPages.length} total)` : ""}`);
         }
         lines.push(``);
       }
@@ -698,36 +627,24 @@ function generateMarkdownReport(report: ComparisonReport): string {
   }
 
   // Ink Coverage Detail (keep existing per-page table)
-  lines.push(`### Ink Coverage by Page`);
+  lines.push(`### Ink Coverage by Page (inkcov average)`);
   lines.push(``);
 
-  const pjInk = report.pagedjs.pdfx?.info?.inkCoverage || [];
-  const vsInk = report.vivliostyle.pdfx?.info?.inkCoverage || [];
-  const wpInk = report.weasyprint.pdfx?.info?.inkCoverage || [];
-  const maxPages = Math.max(pjInk.length, vsInk.length, wpInk.length);
+  const inks = engines.map(([, engine]) => engine.pdfx?.info?.inkCoverage || []);
+  const maxPages = Math.max(0, ...inks.map((ink) => ink.length));
 
   if (maxPages > 0) {
-    lines.push(`| Page | PagedJS TAC | Vivliostyle TAC | WeasyPrint TAC | Status |`);
-    lines.push(`|------|-------------|-----------------|----------------|--------|`);
+    lines.push(row(["Page", ...labels.map((label) => `${label} TAC`), "Status"]));
+    lines.push(separator(labels.length + 2));
 
     for (let i = 0; i < maxPages; i++) {
-      const pj = pjInk[i];
-      const vs = vsInk[i];
-      const wp = wpInk[i];
-      const pjTacVal = pj ? pj.tac : 0;
-      const vsTacVal = vs ? vs.tac : 0;
-      const wpTacVal = wp ? wp.tac : 0;
-      const pjTacStr = pj ? `${pj.tac.toFixed(1)}%` : "N/A";
-      const vsTacStr = vs ? `${vs.tac.toFixed(1)}%` : "N/A";
-      const wpTacStr = wp ? `${wp.tac.toFixed(1)}%` : "N/A";
-
-      // Determine status based on max TAC between all three renderers
-      const maxTacForPage = Math.max(pjTacVal, vsTacVal, wpTacVal);
+      // Determine status based on max TAC across all renderers
+      const maxTacForPage = Math.max(...inks.map((ink) => ink[i]?.tac ?? 0));
       let status = "✅";
-      if (maxTacForPage > 240) status = "❌ Over limit";
-      else if (maxTacForPage > 200) status = "⚠️ Warning";
+      if (maxTacForPage > spec.maxTAC) status = "❌ Over limit";
+      else if (maxTacForPage > spec.warnTAC) status = "⚠️ Warning";
 
-      lines.push(`| ${i + 1} | ${pjTacStr} | ${vsTacStr} | ${wpTacStr} | ${status} |`);
+      lines.push(row([`${i + 1}`, ...inks.map((ink) => (ink[i] ? `${ink[i].tac.toFixed(1)}%` : "N/A")), status]));
     }
     lines.push(``);
   }
@@ -743,7 +660,7 @@ function generateMarkdownReport(report: ComparisonReport): string {
       lines.push(`- ${rec}`);
     }
   } else {
-    lines.push(`- Both renderers produce acceptable output for print-on-demand.`);
+    lines.push(`- All renderers produce acceptable output for print-on-demand.`);
   }
   lines.push(``);
 
@@ -754,11 +671,13 @@ function generateMarkdownReport(report: ComparisonReport): string {
   lines.push(``);
   lines.push(`### Test Configuration`);
   lines.push(``);
-  lines.push(`- **Trim Size:** 6" × 9" (standard trade paperback)`);
-  lines.push(`- **Bleed:** 0.125" all edges`);
-  lines.push(`- **Final Page Size:** 6.25" × 9.25"`);
-  lines.push(`- **Target:** DriveThruRPG PDF/X-1a:2001`);
-  lines.push(`- **Max Ink Coverage:** 240% TAC`);
+  lines.push(`- **Trim Size:** ${formatSize(spec.trimSize)}`);
+  lines.push(`- **Bleed:** ${spec.bleed}" all edges`);
+  lines.push(`- **Final Page Size:** ${formatSize(pageSize(spec))}`);
+  lines.push(`- **Target:** ${provider.name} ${provider.pdfx.standard}`);
+  lines.push(`- **Max Ink Coverage:** ${spec.maxTAC}% TAC`);
+  lines.push(`- **Page Count:** ${provider.pageCount.min}-${provider.pageCount.max} pages, multiple of ${provider.pageCount.multipleOf}`);
+  lines.push(`- **Max File Size:** ${provider.maxFileSizeMB} MB`);
   lines.push(`- **Color Space:** CMYK`);
   lines.push(``);
 
@@ -773,9 +692,9 @@ function generateMarkdownReport(report: ComparisonReport): string {
 
   lines.push(`### Tools Used`);
   lines.push(``);
-  lines.push(`- **PagedJS CLI:** Chromium-based CSS Paged Media polyfill`);
-  lines.push(`- **Vivliostyle CLI:** Native CSS Paged Media renderer (Chromium-based)`);
-  lines.push(`- **WeasyPrint:** Python-based CSS Paged Media renderer (non-Chromium)`);
+  for (const [name, engine] of engines) {
+    lines.push(`- **${engine.label}:** ${RENDERERS[name]?.description ?? "CSS Paged Media renderer"}`);
+  }
   lines.push(`- **Ghostscript:** PDF/X conversion and CMYK color transformation`);
   lines.push(`- **Poppler Utils:** PDF analysis (pdfinfo, pdffonts)`);
   lines.push(`- **ImageMagick:** Visual comparison`);
@@ -785,99 +704,108 @@ function generateMarkdownReport(report: ComparisonReport): string {
 }
 
 /**
- * Calculate scores and determine winner
+ * Targets other than the provider's with a PDF/X output for at least one engine, in registry order
  */
-function calculateSummary(
-  pagedjs: ValidationResult | null,
-  vivliostyle: ValidationResult | null,
-  weasyprint: ValidationResult | null
-): ComparisonSummary {
-  let pjScore = 0;
-  let vsScore = 0;
-  let wpScore = 0;
-
-  if (pagedjs?.valid) pjScore += 5;
-  if (vivliostyle?.valid) vsScore += 5;
-  if (weasyprint?.valid) wpScore += 5;
-
-  // Additional points for passed checks
-  for (const check of pagedjs?.checks || []) {
-    if (check.passed) pjScore += 0.5;
-  }
-  for (const check of vivliostyle?.checks || []) {
-    if (check.passed) vsScore += 0.5;
-  }
-  for (const check of weasyprint?.checks || []) {
-    if (check.passed) wpScore += 0.5;
+function otherTargets(report: ComparisonReport): PdfxTarget[] {
+  return (Object.keys(PDFX_TARGETS) as PdfxTarget[]).filter((target) =>
+    Object.values(report.engines).some((engine) => engine.targets?.[target])
+  );
+}
+
+/**
+ * Markdown table of one engine's checks per PDF/X target, side by side.
+ * Conformance checks are matched by rule, without their standard prefix.
+ */
+function targetComparison(engine: EngineReport, primary: PdfxTarget): string[] {
+  const columns: Array<[PdfxTarget, ValidationResult]> = [
+    [primary, engine.pdfx!],
+    ...(Object.entries(engine.targets ?? {}) as Array<[PdfxTarget, ValidationResult]>),
+  ];
+  const checkName = (target: PdfxTarget, name: string) => name.replace(`${PDFX_TARGETS[target].standard}: `, "");
+  const names = [...new Set(columns.flatMap(([target, result]) => result.checks.map((check) => checkName(target, check.name))))];
+
+  const lines: string[] = [];
+  lines.push(`#### PDF/X Targets Side by Side`);
+  lines.push(``);
+  lines.push(`| Check | ${columns.map(([target]) => PDFX_TARGETS[target].standard).join(" | ")} |`);
+  lines.push(`|${"------|".repeat(columns.length + 1)}`);
+  lines.push(`| File | ${columns.map(([, result]) => `\`${result.filename}\``).join(" | ")} |`);
+  lines.push(`| Compliant | ${columns.map(([, result]) => (result.valid ? "✅ Yes" : "❌ No")).join(" | ")} |`);
+  for (const name of names) {
+    const cells = columns.map(([target, result]) => {
+      const check = result.checks.find((c) => checkName(target, c.name) === name);
+      if (!check) return "—";
+      return `${check.passed ? "✅" : check.severity === "warning" ? "⚠️" : "❌"} ${check.actual}`;
+    });
+    lines.push(`| ${name} | ${cells.join(" | ")} |`);
   }
+  lines.push(``);
+  return lines;
+}
+
+/**
+ * Calculate scores and determine winner
+ */
+function calculateSummary(results: Array<[string, ValidationResult | null]>): ComparisonSummary {
+  const scores: Record<string, number> = {};
+  const compliant: Record<string, boolean> = {};
+
+  for (const [name, result] of results) {
+    let score = result?.valid ? 5 : 0;
+
+    // Additional points for passed checks
+    for (const check of result?.checks || []) {
+      if (check.passed) score += 0.5;
+    }
 
-  // Cap at 10
-  pjScore = Math.min(10, Math.round(pjScore));
-  vsScore = Math.min(10, Math.round(vsScore));
-  wpScore = Math.min(10, Math.round(wpScore));
+    // Cap at 10
+    scores[name] = Math.min(10, Math.round(score));
+    compliant[name] = result?.valid ?? false;
+  }
 
-  let winner: "pagedjs" | "vivliostyle" | "weasyprint" | "tie" | "inconclusive";
-  if (!pagedjs && !vivliostyle && !weasyprint) {
+  let winner: string;
+  if (results.every(([, result]) => !result)) {
     winner = "inconclusive";
   } else {
-    const maxScore = Math.max(pjScore, vsScore, wpScore);
-    const winners = [];
-    if (pjScore === maxScore) winners.push("pagedjs");
-    if (vsScore === maxScore) winners.push("vivliostyle");
-    if (wpScore === maxScore) winners.push("weasyprint");
-
-    if (winners.length > 1) {
-      winner = "tie";
-    } else {
-      winner = winners[0] as "pagedjs" | "vivliostyle" | "weasyprint";
-    }
+    const maxScore = Math.max(...Object.values(scores));
+    const winners = Object.keys(scores).filter((name) => scores[name] === maxScore);
+    winner = winners.length > 1 ? "tie" : winners[0];
   }
 
-  return {
-    winner,
-    pagedJsScore: pjScore,
-    vivliostyleScore: vsScore,
-    weasyprintScore: wpScore,
-    pagedJsCompliant: pagedjs?.valid ?? false,
-    vivliostyleCompliant: vivliostyle?.valid ?? false,
-    weasyprintCompliant: weasyprint?.valid ?? false,
-  };
+  return { winner, scores, compliant };
 }
 
 /**
  * Generate recommendations based on validation results
  */
 function generateRecommendations(
-  pagedjs: ValidationResult | null,
-  vivliostyle: ValidationResult | null,
-  weasyprint: ValidationResult | null,
-  tacPagedjs?: TACValidationResult | null,
-  tacVivliostyle?: TACValidationResult | null,
-  tacWeasyprint?: TACValidationResult | null
+  engines: Record<string, EngineReport>,
+  spec: PrintSpec,
+  provider: ProviderProfile
 ): string[] {
   const recommendations: string[] = [];
+  const reports = Object.values(engines);
 
   // Check for common issues
-  if (pagedjs?.errors.length || vivliostyle?.errors.length || weasyprint?.errors.length) {
+  if (reports.some((engine) => engine.pdfx?.errors.length)) {
     recommendations.push(
-      "Review and fix validation errors before uploading to DriveThruRPG."
+      `Review and fix validation errors before uploading to ${provider.name}.`
     );
   }
 
   // TAC-specific recommendations from dedicated validation
-  if (tacPagedjs?.pagesOverLimit.length || tacVivliostyle?.pagesOverLimit.length || tacWeasyprint?.pagesOverLimit.length) {
-    const compliantEngines = [];
-    if (!tacPagedjs?.pagesOverLimit.length) compliantEngines.push("PagedJS");
-    if (!tacVivliostyle?.pagesOverLimit.length) compliantEngines.push("Vivliostyle");
-    if (!tacWeasyprint?.pagesOverLimit.length) compliantEngines.push("WeasyPrint");
+  if (reports.some((engine) => engine.tacValidation?.pagesOverLimit.length)) {
+    const compliantEngines = reports
+      .filter((engine) => !engine.tacValidation?.pagesOverLimit.length)
+      .map((engine) => engine.label);
 
     if (compliantEngines.length > 0) {
       recommendations.push(
-        `✅ ${compliantEngines.join(", ")} ${compliantEngines.length === 1 ? "produces" : "produce"} TAC-compliant PDFs. Use ${compliantEngines.length === 1 ? "this renderer" : "one of these renderers"} for DriveThruRPG uploads.`
+        `✅ ${compliantEngines.join(", ")} ${compliantEngines.length === 1 ? "produces" : "produce"} TAC-compliant PDFs. Use ${compliantEngines.length === 1 ? "this renderer" : "one of these renderers"} for ${provider.name} uploads.`
       );
     } else {
       recommendations.push(
-        "Critical: All engines exceed 240% TAC limit on some pages. DriveThruRPG may reject these PDFs."
+        `Critical: All engines exceed ${spec.maxTAC}% TAC limit on some pages. ${provider.name} may reject these PDFs.`
       );
       recommendations.push(
         "Use CGATS21_CRPC1.icc profile for CMYK conversion to reduce TAC."
@@ -886,57 +814,52 @@ function generateRecommendations(
         "Convert images to CMYK before placing in document to avoid color space issues."
       );
     }
-  } else if (tacPagedjs?.pagesWithWarnings.length || tacVivliostyle?.pagesWithWarnings.length || tacWeasyprint?.pagesWithWarnings.length) {
+  } else if (reports.some((engine) => engine.tacValidation?.pagesWithWarnings.length)) {
     recommendations.push(
-      "Warning: Some pages are close to 240% TAC limit (200-240%). Consider reducing color saturation for safer print results."
+      `Warning: Some pages are close to ${spec.maxTAC}% TAC limit (${spec.warnTAC}-${spec.maxTAC}%). Consider reducing color saturation for safer print results.`
     );
   }
 
+  for (const engine of reports) {
+    if (engine.rasterizedPages?.length) {
+      recommendations.push(
+        `${engine.label}: TAC limiting rasterized page(s) ${engine.rasterizedPages.join(", ")}. Reduce the ink on those pages in the source (lighter images or backgrounds) to keep them as selectable text and vectors.`
+      );
+    }
+  }
+
+  for (const engine of reports) {
+    if (engine.digital && !engine.digital.valid) {
+      recommendations.push(`${engine.label} digital edition is not ready for download: ${engine.digital.errors.join("; ")}`);
+    }
+  }
+
   // Fallback to old method if TAC validation not available
-  const pjTac = pagedjs?.info?.inkCoverage?.reduce(
-    (max, p) => Math.max(max, p.tac),
-    0
-  ) ?? 0;
-  const vsTac = vivliostyle?.info?.inkCoverage?.reduce(
-    (max, p) => Math.max(max, p.tac),
-    0
-  ) ?? 0;
-  const wpTac = weasyprint?.info?.inkCoverage?.reduce(
-    (max, p) => Math.max(max, p.tac),
-    0
-  ) ?? 0;
-
-  if (!tacPagedjs && !tacVivliostyle && !tacWeasyprint && (pjTac > 240 || vsTac > 240 || wpTac > 240)) {
+  const inkMaxTacs = reports.map(
+    (engine) => engine.pdfx?.info?.inkCoverage?.reduce((max, p) => Math.max(max, p.tac), 0) ?? 0
+  );
+
+  if (reports.every((engine) => !engine.tacValidation) && inkMaxTacs.some((tac) => tac > spec.maxTAC)) {
     recommendations.push(
-      "Some pages exceed 240% TAC. Consider reducing color saturation or using ICC profiles optimized for lower ink coverage."
+      `Some pages exceed ${spec.maxTAC}% TAC. Consider reducing color saturation or using ICC profiles optimized for lower ink coverage.`
     );
   }
 
   // Dimension check
-  const checkDimensions = (result: ValidationResult | null, name: string) => {
-    if (result?.info?.pageSize) {
-      const { width, height } = result.info.pageSize;
-      if (Math.abs(width - 6.25) > 0.1 || Math.abs(height - 9.25) > 0.1) {
+  const expected = pageSize(spec);
+  for (const engine of reports) {
+    if (engine.pdfx?.info?.pageSize) {
+      const { width, height } = engine.pdfx.info.pageSize;
+      if (Math.abs(width - expected.width) > 0.1 || Math.abs(height - expected.height) > 0.1) {
         recommendations.push(
-          `${name} page dimensions differ from expected. Check @page size rules include bleed.`
+          `${engine.label} page dimensions differ from expected. Check @page size rules include bleed.`
         );
       }
     }
-  };
-
-  checkDimensions(pagedjs, "PagedJS");
-  checkDimensions(vivliostyle, "Vivliostyle");
-  checkDimensions(weasyprint, "WeasyPrint");
+  }
 
   // Font recommendations
-  const unembeddedPJ =
-    pagedjs?.info?.fonts?.filter((f) => !f.embedded).length ?? 0;
-  const unembeddedVS =
-    vivliostyle?.info?.fonts?.filter((f) => !f.embedded).length ?? 0;
-  const unembeddedWP =
-    weasyprint?.info?.fonts?.filter((f) => !f.embedded).length ?? 0;
-
-  if (unembeddedPJ > 0 || unembeddedVS > 0 || unembeddedWP > 0) {
+  if (reports.some((engine) => engine.pdfx?.info?.fonts?.some((f) => !f.embedded))) {
     recommendations.push(
       "Ensure all fonts are embedded. Use web fonts or system fonts that allow embedding."
     );
@@ -961,17 +884,24 @@ export async function runComparison(): Promise<ComparisonReport> {
       : join(ROOT, "output", "default-test");
 
   // Back-compat: if default-test doesn't exist but ROOT/output contains PDFs, use ROOT/output.
-  const projectDir =
-    existsSync(join(defaultDir, "pagedjs-output.pdf")) ||
-    existsSync(join(defaultDir, "vivliostyle-output.pdf")) ||
-    existsSync(join(defaultDir, "weasyprint-output.pdf"))
-      ? defaultDir
-      : join(ROOT, "output");
+  const projectDir = Object.keys(RENDERERS).some((name) => existsSync(rendererOutputs(defaultDir, name).rgb))
+    ? defaultDir
+    : join(ROOT, "output");
 
   return runComparisonInDir(projectDir);
 }
 
-export async function runComparisonInDir(outputDir: string): Promise<ComparisonReport> {
+/**
+ * Validate and compare the engines' outputs in `outputDir`. `tacValidations` holds
+ * TAC results the caller already has, per engine; the others are rendered here
+ */
+export async function runComparisonInDir(
+  outputDir: string,
+  target: { spec: PrintSpec; provider: ProviderProfile; baseSpec?: PrintSpec } = loadProviderSpec(outputDir),
+  renderers: Renderer[] = selectRenderers(),
+  tacValidations: Record<string, TACValidationResult | undefined> = {}
+): Promise<ComparisonReport> {
+  const { spec, provider, baseSpec = spec } = target;
   console.log(`\n📊 Running PDF Comparison...\n`);
   console.log(`${"=".repeat(60)}`);
 
@@ -979,93 +909,78 @@ export async function runComparisonInDir(outputDir: string): Promise<ComparisonR
     mkdirSync(outputDir, { recursive: true });
   }
 
-  // Validate all PDFs
-  const pagedJsRgb = existsSync(join(outputDir, "pagedjs-output.pdf"))
-    ? await validatePdf(join(outputDir, "pagedjs-output.pdf"))
-    : null;
-
-  const pagedJsPdfx = existsSync(join(outputDir, "pagedjs-pdfx.pdf"))
-    ? await validatePdf(join(outputDir, "pagedjs-pdfx.pdf"))
-    : null;
-
-  const vivliostyleRgb = existsSync(join(outputDir, "vivliostyle-output.pdf"))
-    ? await validatePdf(join(outputDir, "vivliostyle-output.pdf"))
-    : null;
-
-  const vivliostylePdfx = existsSync(join(outputDir, "vivliostyle-pdfx.pdf"))
-    ? await validatePdf(join(outputDir, "vivliostyle-pdfx.pdf"))
-    : null;
-
-  const weasyprintRgb = existsSync(join(outputDir, "weasyprint-output.pdf"))
-    ? await validatePdf(join(outputDir, "weasyprint-output.pdf"))
-    : null;
-
-  const weasyprintPdfx = existsSync(join(outputDir, "weasyprint-pdfx.pdf"))
-    ? await validatePdf(join(outputDir, "weasyprint-pdfx.pdf"))
-    : null;
-
-  // TAC Validation
-  const pagedJsTacValidation = existsSync(join(outputDir, "pagedjs-pdfx.pdf"))
-    ? await validateTAC(join(outputDir, "pagedjs-pdfx.pdf"))
-    : null;
-
-  const vivliostyleTacValidation = existsSync(join(outputDir, "vivliostyle-pdfx.pdf"))
-    ? await validateTAC(join(outputDir, "vivliostyle-pdfx.pdf"))
-    : null;
-
-  const weasyprintTacValidation = existsSync(join(outputDir, "weasyprint-pdfx.pdf"))
-    ? await validateTAC(join(outputDir, "weasyprint-pdfx.pdf"))
-    : null;
+  // Other PDF/X targets are validated against their own standard, wherever batch-process converted them.
+  // They're tightened from the project's own spec: the main target's PDF versions don't apply to them.
+  const primary = pdfxTargetOf(provider);
+  const alternates = (Object.keys(PDFX_TARGETS) as PdfxTarget[])
+    .filter((target) => target !== primary)
+    .flatMap((target) => {
+      const targetProvider = withPdfxTarget(provider, target);
+      try {
+        return [{ target, provider: targetProvider, spec: applyProvider(baseSpec, targetProvider) }];
+      } catch (e) {
+        console.warn(`   ⚠️  Skipping ${PDFX_TARGETS[target].standard}: ${e instanceof Error ? e.message : e}`);
+        return [];
+      }
+    });
+
+  // Validate all PDFs and their ink coverage
+  const engines: Record<string, EngineReport> = {};
+  for (const renderer of renderers) {
+    const outputs = rendererOutputs(outputDir, renderer.name);
+    const targets: Partial<Record<PdfxTarget, ValidationResult>> = {};
+    for (const alternate of alternates) {
+      const pdfx = rendererOutputs(outputDir, renderer.name, alternate.target).pdfx;
+      if (existsSync(pdfx)) {
+        targets[alternate.target] = await validatePdf(pdfx, alternate.spec, alternate.provider);
+      }
+    }
+    const tacValidation = existsSync(outputs.pdfx) ? tacValidations[renderer.name] ?? (await validateTAC(outputs.pdfx, spec)) : null;
+    engines[renderer.name] = {
+      label: renderer.label,
+      rgb: existsSync(outputs.rgb) ? await validatePdf(outputs.rgb, spec, provider) : null,
+      pdfx: existsSync(outputs.pdfx) ? await validatePdf(outputs.pdfx, spec, provider, tacValidation) : null,
+      tacValidation,
+      diagnostics: collectDiagnostics([outputs.rgb, outputs.pdfx]),
+      browserMessages: loadBrowserMessages([outputs.rgb, outputs.pdfx]),
+      rasterizedPages: loadRasterizedPages(outputs.pdfx),
+      ...(Object.keys(targets).length > 0 ? { targets } : {}),
+      digital: existsSync(outputs.digital) ? await validateDigitalEdition(outputs.digital, spec, outputs.rgb) : null,
+    };
+  }
 
   // Compare features
   const featureComparison = compareFeatures(
-    pagedJsPdfx?.info || null,
-    vivliostylePdfx?.info || null,
-    weasyprintPdfx?.info || null
+    Object.entries(engines).map(([name, engine]) => [name, engine.pdfx?.info || null]),
+    spec,
+    Object.fromEntries(Object.entries(engines).map(([name, engine]) => [name, engine.tacValidation ?? null]))
   );
 
-  // Visual comparison of PDF/X outputs
+  // Visual comparison of the first two PDF/X outputs
+  const withPdfx = Object.keys(engines).filter((name) => engines[name].pdfx);
   const visualComparison =
-    pagedJsPdfx && vivliostylePdfx
+    withPdfx.length >= 2
       ? await compareVisually(
-          join(outputDir, "pagedjs-pdfx.pdf"),
-          join(outputDir, "vivliostyle-pdfx.pdf"),
+          [withPdfx[0], withPdfx[1]],
+          rendererOutputs(outputDir, withPdfx[0]).pdfx,
+          rendererOutputs(outputDir, withPdfx[1]).pdfx,
           outputDir
         )
       : null;
 
   // Calculate summary
-  const summary = calculateSummary(pagedJsPdfx, vivliostylePdfx, weasyprintPdfx);
+  const summary = calculateSummary(Object.entries(engines).map(([name, engine]) => [name, engine.pdfx]));
 
   // Generate recommendations
-  const recommendations = generateRecommendations(
-    pagedJsPdfx,
-    vivliostylePdfx,
-    weasyprintPdfx,
-    pagedJsTacValidation,
-    vivliostyleTacValidation,
-    weasyprintTacValidation
-  );
+  const recommendations = generateRecommendations(engines, spec, provider);
 
   // Build report
   const report: ComparisonReport = {
     generatedAt: new Date().toISOString(),
+    printSpec: spec,
+    provider,
     summary,
-    pagedjs: {
-      rgb: pagedJsRgb,
-      pdfx: pagedJsPdfx,
-      tacValidation: pagedJsTacValidation,
-    },
-    vivliostyle: {
-      rgb: vivliostyleRgb,
-      pdfx: vivliostylePdfx,
-      tacValidation: vivliostyleTacValidation,
-    },
-    weasyprint: {
-      rgb: weasyprintRgb,
-      pdfx: weasyprintPdfx,
-      tacValidation: weasyprintTacValidation,
-    },
+    engines,
     featureComparison,
     visualComparison,
     recommendations,
@@ -1074,12 +989,17 @@ export async function runComparisonInDir(outputDir: string): Promise<ComparisonR
   // Generate markdown
   const markdown = generateMarkdownReport(report);
 
-  // Save report
+  // Save report, plus JSON and JUnit XML for dashboards
   const reportPath = join(outputDir, "comparison-report.md");
   await Bun.write(reportPath, markdown);
+  await Bun.write(join(outputDir, "comparison-report.json"), toJSON("comparison-report", report));
+  await Bun.write(
+    join(outputDir, "comparison-report.junit.xml"),
+    toJUnitXml(`PDF/X validation: ${basename(outputDir)}`, comparisonSuites(report))
+  );
 
   console.log(`\n${"=".repeat(60)}`);
-  console.log(`\n📄 Report saved to: ${reportPath}`);
+  console.log(`\n📄 Report saved to: ${reportPath} (+ .json, .junit.xml)`);
 
   return report;
 }
@@ -1089,9 +1009,17 @@ if (import.meta.main) {
   const args = process.argv.slice(2);
   const dirFlagIndex = args.findIndex((a) => a === "--dir" || a === "--output");
   const dir = dirFlagIndex >= 0 ? args[dirFlagIndex + 1] : undefined;
-
-  await runComparisonInDir(dir ?? (process.env.OUTPUT_DIR && process.env.OUTPUT_DIR.trim().length > 0
+  const providerFlagIndex = args.indexOf("--provider");
+  const providerId = providerFlagIndex >= 0 ? args[providerFlagIndex + 1] : undefined;
+  const enginesFlagIndex = args.indexOf("--engines");
+  const engines = enginesFlagIndex >= 0 ? parseEngineList(args[enginesFlagIndex + 1]) : undefined;
+  // --pdfx picks the target compared as the main PDF/X; outputs for the other targets are listed beside it
+  const pdfxFlagIndex = args.indexOf("--pdfx");
+  const target = pdfxFlagIndex >= 0 ? parsePdfxTarget(args[pdfxFlagIndex + 1]) : undefined;
+
+  const outputDir = dir ?? (process.env.OUTPUT_DIR && process.env.OUTPUT_DIR.trim().length > 0
     ? process.env.OUTPUT_DIR
-    : join(ROOT, "output", "default-test")));
+    : join(ROOT, "output", "default-test"));
+  await runComparisonInDir(outputDir, loadProviderSpec(outputDir, providerId, target), selectRenderers(engines));
   console.log("\n✅ Comparison complete!");
 }
@@ -1,29 +1,35 @@
 #!/usr/bin/env bun
 /**
- * Convert PDF to PDF/X-1a:2001 using Ghostscript
- * Compliant with DriveThruRPG print-on-demand requirements
+ * Convert PDF to PDF/X using Ghostscript
+ * Targets the selected print provider's PDF/X variant (DriveThruRPG PDF/X-1a:2001 by default),
+ * or the X-1a, X-3 or X-4 target chosen with --pdfx
  */
 
 import { $ } from "bun";
 import { existsSync, mkdirSync, writeFileSync, unlinkSync } from "node:fs";
 import { join, dirname, basename } from "node:path";
 import { fileURLToPath } from "node:url";
+import { getProvider, parsePdfxTarget, withPdfxTarget, type PdfxTarget, type ProviderProfile } from "./providers.ts";
+import { logDiagnosticSummary, logPathFor, runFailure, runLogged } from "./diagnostics.ts";
+import { DEFAULT_OUTPUT_PROFILE, loadOutputProfile, type ProfileInfo } from "./icc-profile.ts";
+import { applyPdfxMetadata } from "./pdfx-metadata.ts";
+import { flattenTransparency } from "./transparency.ts";
+import { formatPageList } from "./page-boxes.ts";
+import { RENDERERS, rendererOutputs } from "./renderers.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 
-// DriveThruRPG compliant settings
-const DTRPG_SETTINGS = {
-  pdfStandard: "PDF/X-1a:2001",
-  compatibilityLevel: "1.4",
+// Settings shared by every provider; the PDF/X variant and compatibility
+// level come from the provider profile
+const PDFX_SETTINGS = {
   colorSpace: "CMYK",
   processColorModel: "DeviceCMYK",
   // CGATS21_CRPC1 is the recommended ICC profile for DriveThruRPG print-on-demand
   // This profile enforces a 240% TAC (Total Area Coverage) limit, preventing
   // excessive ink buildup that causes title pages to exceed 285-400% TAC.
   // It replaces rich black builds with controlled CMYK values for print compliance.
-  iccProfile: join(__dirname, "..", "assets", "CGATS21_CRPC1.icc"),
-  maxInkCoverage: 240, // TAC limit enforced by ICC profile
+  iccProfile: DEFAULT_OUTPUT_PROFILE,
   dpi: 300,
   embedFonts: true,
   subsetFonts: true,
@@ -33,89 +39,50 @@ interface ConvertOptions {
   input: string;
   output: string;
   title?: string;
+  /** Output profile path or registry id (see icc-profile.ts) to embed (default: assets/CGATS21_CRPC1.icc); limit-tac.ts builds its device link from the same one */
   iccProfile?: string;
+  /** Print provider whose PDF/X variant to target (default: DriveThruRPG) */
+  provider?: ProviderProfile;
+  /** PDF/X variant to produce instead of the provider's (see PDFX_TARGETS in providers.ts) */
+  target?: PdfxTarget;
+  /** Directory for intermediate files (default: output/temp); give each parallel run its own */
+  tempDir?: string;
+  /**
+   * Flatten transparency before converting (PDF/X-1a and PDF/X-3 only; see transparency.ts):
+   * pages drawing transparent content are rendered to CMYK at `dpi`, all others stay vector
+   */
+  flattenTransparency?: boolean;
+  /** Resolution flattened pages are rendered at (default: 300) */
+  dpi?: number;
 }
 
 /**
- * Generate PDF/X definition PostScript file
- * Note: This function is currently unused but maintained for reference
+ * Ghostscript colour settings for a PDF/X variant. X-1a and X-3 output is
+ * separated to DeviceCMYK through the output profile; X-4 keeps colour
+ * device-independent (RGB becomes ICC-based RGB, which X-4 allows with a CMYK
+ * OutputIntent) so the printer's RIP does the separation.
  */
-function generatePdfxDef(options: {
-  title: string;
-  outputCondition: string;
-  outputFile: string;
-  iccProfile?: string;
-}): string {
-  const { title, outputCondition, outputFile, iccProfile = DTRPG_SETTINGS.iccProfile } = options;
-  const isoDate = new Date().toISOString().split("T")[0].replace(/-/g, "");
-
-  return `%!PS
-% PDF/X-1a definition file for Ghostscript
-% Generated by PDFX Test Harness
-
-% Required for PDF/X-1a compliance
-/ICCProfile (${iccProfile}) def
-
-% PDF/X OutputIntent
-[ /Title (${title})
-  /OutputCondition (${outputCondition})
-  /OutputConditionIdentifier (CGATS TR 001)
-  /RegistryName (http://www.color.org)
-  /Info (DriveThruRPG Print Ready)
-  /Type /OutputIntent
-  /S /GTS_PDFX
-  /DestOutputProfile ICCProfile
-] //.pdfxwriteobjdef
-
-% Document Info
-[ /Title (${title})
-  /Creator (PDFX Test Harness)
-  /Producer (Ghostscript)
-  /CreationDate (D:${isoDate}120000+00'00')
-  /ModDate (D:${isoDate}120000+00'00')
-  /Trapped /False
-  /GTS_PDFXVersion (PDF/X-1a:2001)
-] //.pdfxwriteinfodef
-
-% Set trapped value
-true //.setpdfxtrapped
-`;
-}
-
-/**
- * Generate a simpler PDFX definition that's more compatible
- * Note: This function is currently unused but maintained for reference
- */
-function generateSimplePdfxDef(title: string, iccProfile: string = DTRPG_SETTINGS.iccProfile): string {
-  const isoDate = new Date().toISOString().split("T")[0].replace(/-/g, "");
-
-  return `%!PS-Adobe-3.0
-% Minimal PDF/X-1a definition
-
-/ICCProfile (${iccProfile}) def
-
-mark
-  /Author (PDFX Test Harness)
-  /Title (${title})
-  /Creator (PDFX Test Harness)
-  /CreationDate (D:${isoDate}000000)
-  /ModDate (D:${isoDate}000000)
-  /Subject (Print-ready PDF/X-1a document)
-  /Keywords (PDFX, print, CMYK, DriveThruRPG)
-  /GTS_PDFXVersion (PDF/X-1a:2001)
-  /Trapped /False
-/DOCINFO pdfmark
-
-% Output Intent
-[
-  /Type /OutputIntent
-  /S /GTS_PDFX
-  /OutputConditionIdentifier (Custom)
-  /OutputCondition (CMYK printing)
-  /Info (DriveThruRPG compliant output)
-  /DestOutputProfile ICCProfile
-] //.pdfxwriteobjdef
-`;
+function colorArgs(standard: ProviderProfile["pdfx"]["standard"], profilePath: string): string[] {
+  if (standard === "PDF/X-4") {
+    return [
+      "-sColorConversionStrategy=UseDeviceIndependentColor",
+      `-sOutputICCProfile=${profilePath}`,
+      `-sDefaultCMYKProfile=${profilePath}`, // Untagged CMYK is in the output condition
+      "-dOverrideICC=false", // Respect embedded profiles
+      "-dBlackPtComp=2", // Black point compensation
+    ];
+  }
+  return [
+    // Color conversion to CMYK with embedded CGATS21_CRPC1 profile
+    "-sColorConversionStrategy=CMYK",
+    "-sProcessColorModel=DeviceCMYK",
+    `-sOutputICCProfile=${profilePath}`, // Embed CGATS21_CRPC1 in output PDF
+    `-sDefaultCMYKProfile=${profilePath}`, // Use CGATS21 as default CMYK space
+    "-dOverrideICC=false", // Respect embedded profiles
+    "-dDeviceGrayToK=true", // Convert DeviceGray to K-only (reduces TAC on grays)
+    "-dBlackPtComp=2", // Black point compensation
+    "-dUseCIEColor=true", // Use CIE color space for more accurate conversions
+  ];
 }
 
 export async function convertToPdfx(options: ConvertOptions): Promise<{
@@ -123,10 +90,22 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
   outputPath: string;
   duration: number;
   gsVersion?: string;
+  /** Full Ghostscript output (see diagnostics.ts) */
+  logPath?: string;
+  /** Pages rendered to an image by transparency flattening */
+  flattenedPages?: number[];
   error?: string;
 }> {
   const startTime = performance.now();
-  const { input, output, title = "TTRPG Document", iccProfile } = options;
+  const {
+    input,
+    output,
+    title = "TTRPG Document",
+    iccProfile,
+    tempDir = join(ROOT, "output", "temp"),
+    dpi = PDFX_SETTINGS.dpi,
+  } = options;
+  const provider = withPdfxTarget(options.provider ?? getProvider(), options.target);
 
   // Ensure output directory exists
   const outputDir = dirname(output);
@@ -144,7 +123,7 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
     };
   }
 
-  console.log(`\n🔄 Converting to PDF/X-1a with Ghostscript...`);
+  console.log(`\n🔄 Converting to ${provider.pdfx.standard} with Ghostscript (${provider.name})...`);
   console.log(`   Input:  ${input}`);
   console.log(`   Output: ${output}`);
 
@@ -159,26 +138,54 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
   }
 
   // Determine ICC profile to use
-  // Priority: custom override > CGATS21_CRPC1 (DriveThruRPG recommended) > system fallbacks
-  let profilePath = iccProfile || DTRPG_SETTINGS.iccProfile;
-
-  // Check for ICC profile existence, prioritizing CGATS21_CRPC1
-  const profileLocations = [
-    join(ROOT, "assets", "CGATS21_CRPC1.icc"), // DriveThruRPG recommended - TAC limiting
-    "/usr/share/color/icc/ghostscript/default_cmyk.icc",
-    "/usr/share/ghostscript/iccprofiles/default_cmyk.icc",
-    "/usr/share/color/icc/OpenICC/sRGB.icc",
-  ];
-
-  for (const loc of profileLocations) {
-    if (existsSync(loc)) {
-      profilePath = loc;
-      break;
-    }
+  // Priority: custom override (path or registry id) > CGATS21_CRPC1 (DriveThruRPG recommended) > system fallbacks.
+  // Non-CMYK profiles are refused: they can't describe the DeviceCMYK output
+  let profile: ProfileInfo;
+  try {
+    profile = loadOutputProfile(iccProfile);
+  } catch (error) {
+    return {
+      success: false,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      gsVersion,
+      error: error instanceof Error ? error.message : String(error),
+    };
   }
 
+  const profilePath = profile.path;
   console.log(`   ICC Profile: ${profilePath}`);
 
+  // PDF/X-4 allows transparency; for the others flatten it here, page by page, rather than
+  // leaving it to Ghostscript
+  let source = input;
+  let flattenedPages: number[] | undefined;
+  if (options.flattenTransparency && provider.pdfx.standard !== "PDF/X-4") {
+    const flattened = await flattenTransparency({
+      input,
+      output: join(tempDir, `${basename(input, ".pdf")}-flattened.pdf`),
+      profile,
+      dpi,
+      tempDir,
+    });
+    if (!flattened.success) {
+      return {
+        success: false,
+        outputPath: output,
+        duration: performance.now() - startTime,
+        gsVersion,
+        error: `Flattening transparency failed: ${flattened.error}`,
+      };
+    }
+    source = flattened.outputPath;
+    flattenedPages = flattened.flattenedPages;
+    if (flattenedPages.length > 0) {
+      console.log(`   🫧 Flattened transparency at ${dpi} dpi on page(s) ${formatPageList(flattenedPages)}`);
+    } else {
+      console.log(`   🫧 No transparent content to flatten`);
+    }
+  }
+
   try {
     // Build Ghostscript command for PDF/X conversion
     //
@@ -194,11 +201,13 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
     //
     // This script embeds the CGATS21_CRPC1 profile correctly for DriveThruRPG
     // compliance, but existing high-TAC colors in the source PDF will remain.
+    // limit-tac.ts handles them afterwards: flat colours are rewritten in the
+    // content streams (vector-tac.ts), images by rasterizing the affected pages.
     //
     // FONT EMBEDDING FIX: The -dPDFX=true flag causes Ghostscript to drop all fonts
-    // during conversion. Removing this flag and relying on proper CMYK color space
-    // conversion with ICC profile embedding achieves PDF/X-1a compliance while
-    // preserving all embedded fonts (including Type 3 fonts from PagedJS).
+    // during conversion. Ghostscript converts without it, preserving all embedded
+    // fonts (including Type 3 fonts from PagedJS), and pdfx-metadata.ts then writes
+    // the OutputIntent, GTS_PDFXVersion and Trapped keys into its output.
     const gsArgs = [
       "gs",
       "-dBATCH",
@@ -206,20 +215,12 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
       "-dNOOUTERSAVE",
       "-dQUIET",
       "-sDEVICE=pdfwrite",
-      `-dCompatibilityLevel=${DTRPG_SETTINGS.compatibilityLevel}`,
-      // Color conversion to CMYK with embedded CGATS21_CRPC1 profile
-      "-sColorConversionStrategy=CMYK",
-      "-sProcessColorModel=DeviceCMYK",
-      `-sOutputICCProfile=${profilePath}`, // Embed CGATS21_CRPC1 in output PDF
-      `-sDefaultCMYKProfile=${profilePath}`, // Use CGATS21 as default CMYK space
-      "-dOverrideICC=false", // Respect embedded profiles
-      "-dDeviceGrayToK=true", // Convert DeviceGray to K-only (reduces TAC on grays)
-      "-dBlackPtComp=2", // Black point compensation
-      "-dUseCIEColor=true", // Use CIE color space for more accurate conversions
+      `-dCompatibilityLevel=${provider.pdfx.compatibilityLevel}`,
+      ...colorArgs(provider.pdfx.standard, profilePath),
       // Image settings
-      `-dColorImageResolution=${DTRPG_SETTINGS.dpi}`,
-      `-dGrayImageResolution=${DTRPG_SETTINGS.dpi}`,
-      `-dMonoImageResolution=${DTRPG_SETTINGS.dpi}`,
+      `-dColorImageResolution=${PDFX_SETTINGS.dpi}`,
+      `-dGrayImageResolution=${PDFX_SETTINGS.dpi}`,
+      `-dMonoImageResolution=${PDFX_SETTINGS.dpi}`,
       // Font embedding (CRITICAL: all fonts must be embedded for print compliance)
       "-dEmbedAllFonts=true",
       "-dSubsetFonts=true",
@@ -231,15 +232,33 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
       // PDF/X specific settings
       "-dPDFSETTINGS=/prepress",
       // NOTE: -dPDFX=true is REMOVED because it causes font embedding to fail.
-      // PDF/X-1a compliance is achieved through proper color space conversion,
-      // ICC profile embedding, and prepress settings without needing the PDFX flag.
+      // The PDF/X identification it would write is added afterwards (see below).
       // Output
       `-sOutputFile=${output}`,
-      input,
+      source,
     ];
 
-    // Run Ghostscript
-    const result = await $`${gsArgs}`.quiet();
+    // Run Ghostscript, keeping its full output in logs/
+    const run = await runLogged("ghostscript", gsArgs, logPathFor(output));
+    if (source !== input && existsSync(source)) {
+      unlinkSync(source);
+    }
+    logDiagnosticSummary(run.diagnostics);
+    if (run.exitCode !== 0) {
+      throw new Error(runFailure(run));
+    }
+
+    // Identify the output as PDF/X: OutputIntent with the embedded profile, version keys, Trapped and XMP
+    if (existsSync(output)) {
+      const metadata = await applyPdfxMetadata({ input: output, standard: provider.pdfx.standard, profile, title });
+      if (!metadata.success) {
+        throw new Error(`Writing PDF/X metadata failed: ${metadata.error}`);
+      }
+      console.log(`   🏷️  ${provider.pdfx.standard} OutputIntent: ${profile.name}`);
+      for (const warning of metadata.warnings) {
+        console.log(`   ⚠️  ${warning}`);
+      }
+    }
 
     const duration = performance.now() - startTime;
 
@@ -252,6 +271,8 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
         outputPath: output,
         duration,
         gsVersion,
+        logPath: run.logPath,
+        flattenedPages,
       };
     } else {
       return {
@@ -259,6 +280,7 @@ export async function convertToPdfx(options: ConvertOptions): Promise<{
         outputPath: output,
         duration,
         gsVersion,
+        logPath: run.logPath,
         error: "Output file was not created",
       };
     }
@@ -287,9 +309,8 @@ export async function convertToPdfxTwoPass(options: ConvertOptions): Promise<{
   error?: string;
 }> {
   const startTime = performance.now();
-  const { input, output, title = "TTRPG Document" } = options;
+  const { input, output, title = "TTRPG Document", tempDir = join(ROOT, "output", "temp") } = options;
 
-  const tempDir = join(ROOT, "output", "temp");
   if (!existsSync(tempDir)) {
     mkdirSync(tempDir, { recursive: true });
   }
@@ -366,12 +387,20 @@ if (import.meta.main) {
   const args = process.argv.slice(2);
   const dirFlagIndex = args.findIndex((a) => a === "--dir" || a === "--output");
   const dir = dirFlagIndex >= 0 ? args[dirFlagIndex + 1] : undefined;
-  const remainingArgs = dirFlagIndex >= 0
-    ? args.filter((_, idx) => idx !== dirFlagIndex && idx !== dirFlagIndex + 1)
-    : args;
-  
+  const providerFlagIndex = args.indexOf("--provider");
+  const provider = getProvider(providerFlagIndex >= 0 ? args[providerFlagIndex + 1] : undefined);
+  const iccFlagIndex = args.indexOf("--icc");
+  const iccProfile = iccFlagIndex >= 0 ? args[iccFlagIndex + 1] : undefined;
+  const targetFlagIndex = args.indexOf("--pdfx");
+  const target = targetFlagIndex >= 0 ? parsePdfxTarget(args[targetFlagIndex + 1]) : undefined;
+  const flatten = args.includes("--flatten");
+  const flagIndices = [dirFlagIndex, providerFlagIndex, iccFlagIndex, targetFlagIndex].filter((idx) => idx >= 0);
+  const remainingArgs = args.filter(
+    (arg, idx) => arg !== "--flatten" && !flagIndices.some((flagIdx) => idx === flagIdx || idx === flagIdx + 1)
+  );
+
   if (remainingArgs.length < 2) {
-    // Default: convert both PagedJS and Vivliostyle outputs in a project output directory
+    // Default: convert every engine's output in a project output directory
     const outputDirCandidate =
       dir ??
       (process.env.OUTPUT_DIR && process.env.OUTPUT_DIR.trim().length > 0
@@ -379,36 +408,29 @@ if (import.meta.main) {
         : join(ROOT, "output", "default-test"));
 
     // Back-compat: if OUTPUT_DIR/default-test doesn't exist but OUTPUT_DIR contains PDFs, use it.
-    const projectOutputDir = existsSync(join(outputDirCandidate, "pagedjs-output.pdf")) ||
-      existsSync(join(outputDirCandidate, "vivliostyle-output.pdf"))
+    const projectOutputDir = Object.keys(RENDERERS).some((name) => existsSync(rendererOutputs(outputDirCandidate, name).rgb))
       ? outputDirCandidate
       : existsSync(join(ROOT, "output"))
         ? join(ROOT, "output")
         : outputDirCandidate;
 
-    const pdfs = [
-      {
-        input: join(projectOutputDir, "pagedjs-output.pdf"),
-        output: join(projectOutputDir, "pagedjs-pdfx.pdf"),
-        title: "PagedJS PDF/X Output",
-      },
-      {
-        input: join(projectOutputDir, "vivliostyle-output.pdf"),
-        output: join(projectOutputDir, "vivliostyle-pdfx.pdf"),
-        title: "Vivliostyle PDF/X Output",
-      },
-    ];
+    // Other targets than the provider's are written next to its PDF/X (e.g. pagedjs-pdfx-x4.pdf)
+    const outputTarget = withPdfxTarget(provider, target) === provider ? undefined : target;
+    const pdfs = Object.values(RENDERERS).map((renderer) => {
+      const outputs = rendererOutputs(projectOutputDir, renderer.name, outputTarget);
+      return { input: outputs.rgb, output: outputs.pdfx, title: `${renderer.label} PDF/X Output` };
+    });
 
     for (const pdf of pdfs) {
       if (existsSync(pdf.input)) {
-        await convertToPdfx(pdf);
+        await convertToPdfx({ ...pdf, provider, target, iccProfile, flattenTransparency: flatten });
       } else {
         console.log(`⚠️  Skipping ${basename(pdf.input)} (not found)`);
       }
     }
   } else {
     const [input, output] = remainingArgs;
-    await convertToPdfx({ input, output });
+    await convertToPdfx({ input, output, provider, target, iccProfile, flattenTransparency: flatten });
   }
 
   console.log("\n✅ PDF/X conversion complete!");
@@ -0,0 +1,268 @@
+#!/usr/bin/env bun
+/**
+ * Engine Diagnostics
+ * Runs engine and Ghostscript subprocesses with their stdout/stderr saved to
+ * <project>/logs/<output>.log, and parses those logs into typed diagnostics
+ * (missing fonts, failed image loads, ignored CSS, ...) for the comparison report
+ */
+
+import { $ } from "bun";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
+
+/** Tools whose logs we know how to parse */
+export type LogTool = "pagedjs" | "vivliostyle" | "weasyprint" | "ghostscript";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export interface Diagnostic {
+  tool: LogTool;
+  severity: DiagnosticSeverity;
+  /** Stable category, e.g. "font-missing", "image-load-failed", "css-ignored" */
+  code: string;
+  message: string;
+  /** Resource the message is about (file:// or http(s) URL), when given */
+  source?: string;
+  line?: number;
+  column?: number;
+  /** Identical messages are folded into one diagnostic */
+  count: number;
+  /** Log file the diagnostic came from, relative to the project output directory */
+  log?: string;
+}
+
+/** Subdirectory of the project output directory holding the logs */
+export const LOGS_DIR = "logs";
+
+/**
+ * Log file for a command producing `output` (e.g. output/book/logs/pagedjs-output.log)
+ */
+export function logPathFor(output: string): string {
+  return join(dirname(output), LOGS_DIR, `${basename(output, ".pdf")}.log`);
+}
+
+// ANSI colour codes (Vivliostyle colours its level prefixes)
+const ANSI_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g;
+const URL_PATTERN = /\b(?:file|https?):\/\/[^\s"'`()<>]+/;
+
+/**
+ * Category for a log message, shared by every parser
+ */
+function classify(message: string): string {
+  if (/time(?:d)?\s*out|TimeoutError/i.test(message)) return "timeout";
+  if (/font/i.test(message) && /fail|not found|not embedded|missing|unable|cannot|could not|substitut/i.test(message)) {
+    return "font-missing";
+  }
+  if (/image/i.test(message) && /fail|not found|unable|cannot|could not/i.test(message)) return "image-load-failed";
+  if (/stylesheet/i.test(message) && /fail|not found|unable|cannot|could not/i.test(message)) {
+    return "stylesheet-load-failed";
+  }
+  if (/^Ignored\b/i.test(message)) return "css-ignored";
+  if (/invalid value|unknown property|unsupported|parse error|syntax error|unexpected token/i.test(message)) {
+    return "css-parse";
+  }
+  if (/net::ERR_|\b404\b|failed to load|could not load|unable to load/i.test(message)) return "resource-load-failed";
+  if (/unable to find destination/i.test(message)) return "outline-destination-missing";
+  return "general";
+}
+
+function makeDiagnostic(tool: LogTool, severity: DiagnosticSeverity, message: string, code = classify(message)): Diagnostic {
+  const diagnostic: Diagnostic = { tool, severity, code, message: message.trim(), count: 1 };
+  const url = message.match(URL_PATTERN);
+  if (url) {
+    diagnostic.source = url[0].replace(/[.,:;]+$/, "");
+  }
+  // WeasyPrint and CSS parsers report positions as "at 12:5"; console locations as "url:12:5"
+  const position = message.match(/\bat (\d+):(\d+)\b/) ?? message.match(/:(\d+):(\d+)\)?\s*$/);
+  if (position) {
+    diagnostic.line = parseInt(position[1], 10);
+    diagnostic.column = parseInt(position[2], 10);
+  }
+  return diagnostic;
+}
+
+/**
+ * pagedjs-cli: ora spinner lines ("✔ Rendered 24 pages") plus console.error output for failures
+ */
+function parsePagedJSLine(line: string): Diagnostic | null {
+  if (/^\s*at\s/.test(line)) return null; // Stack frames
+  const failed = line.match(/^\s*(?:✖|×)\s*(.+)/);
+  if (failed) return makeDiagnostic("pagedjs", "error", failed[1]);
+  const error = line.match(/^\s*(?:\w*Error|Error)(?:\s*\[\w+\])?:\s*(.+)/);
+  if (error) return makeDiagnostic("pagedjs", "error", error[1]);
+  const warning = line.match(/^\s*(?:⚠|warn(?:ing)?:?)\s*(.+)/i);
+  if (warning) return makeDiagnostic("pagedjs", "warning", warning[1]);
+  if (/unable to find destination/i.test(line)) return makeDiagnostic("pagedjs", "warning", line);
+  return null;
+}
+
+/**
+ * Vivliostyle CLI: "INFO ...", "WARN ...", "ERROR ..."
+ */
+function parseVivliostyleLine(line: string): Diagnostic | null {
+  const match = line.match(/^\s*(ERROR|WARN|INFO)\s+(.+)/);
+  // "ERROR 404 <url>" responses are reported as browser messages (browser-capture.ts)
+  if (!match || /^ERROR\s+\d{3}\s+\S+$/.test(line.trim())) return null;
+  const [, level, message] = match;
+  if (level === "INFO") {
+    // Progress chatter; only keep INFO lines that describe a problem
+    return /fail|could not|unable|missing/i.test(message) ? makeDiagnostic("vivliostyle", "info", message) : null;
+  }
+  return makeDiagnostic("vivliostyle", level === "ERROR" ? "error" : "warning", message);
+}
+
+/**
+ * WeasyPrint: Python logging lines, "WARNING: Ignored `foo: bar` at 12:5, unknown property."
+ */
+function parseWeasyPrintLine(line: string): Diagnostic | null {
+  const match = line.match(/^\s*(CRITICAL|ERROR|WARNING|INFO):\s*(.+)/);
+  if (!match) return null;
+  const [, level, message] = match;
+  const severity: DiagnosticSeverity = level === "WARNING" ? "warning" : level === "INFO" ? "info" : "error";
+  return makeDiagnostic("weasyprint", severity, message);
+}
+
+/**
+ * Ghostscript: "**** Error: ...", "**** Warning: ...", PostScript errors and unrecoverable errors
+ */
+function parseGhostscriptLine(line: string): Diagnostic | null {
+  const flagged = line.match(/^\s*\*+\s*(Error|Warning):?\s*(.+)/i);
+  if (flagged) {
+    return makeDiagnostic("ghostscript", flagged[1].toLowerCase() === "error" ? "error" : "warning", flagged[2]);
+  }
+  const postscript = line.match(/^\s*Error:\s*(\/\w+.*)/);
+  if (postscript) return makeDiagnostic("ghostscript", "error", postscript[1], "postscript-error");
+  if (/Unrecoverable error/i.test(line)) return makeDiagnostic("ghostscript", "error", line, "unrecoverable");
+  return null;
+}
+
+const LINE_PARSERS: Record<LogTool, (line: string) => Diagnostic | null> = {
+  pagedjs: parsePagedJSLine,
+  vivliostyle: parseVivliostyleLine,
+  weasyprint: parseWeasyPrintLine,
+  ghostscript: parseGhostscriptLine,
+};
+
+/**
+ * Parse a tool's output into diagnostics, folding repeated messages
+ */
+export function parseLog(tool: LogTool, text: string): Diagnostic[] {
+  const parser = LINE_PARSERS[tool];
+  const diagnostics = new Map<string, Diagnostic>();
+  for (const rawLine of text.replace(ANSI_PATTERN, "").split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line.length === 0 || line.startsWith("#")) continue;
+    const diagnostic = parser(line);
+    if (!diagnostic) continue;
+    const key = `${diagnostic.severity}|${diagnostic.code}|${diagnostic.message}`;
+    const existing = diagnostics.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      diagnostics.set(key, diagnostic);
+    }
+  }
+  return [...diagnostics.values()];
+}
+
+/**
+ * Write a log file with a header naming the tool (so it can be re-parsed later)
+ */
+export function writeLog(logFile: string, tool: LogTool, header: Record<string, string | number>, body: string): void {
+  mkdirSync(dirname(logFile), { recursive: true });
+  const lines = [`# tool: ${tool}`, ...Object.entries(header).map(([key, value]) => `# ${key}: ${value}`), "", body];
+  writeFileSync(logFile, lines.join("\n"), "utf-8");
+}
+
+export interface LoggedRun {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  logPath: string;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Run a command, save its full output to `logFile` and parse it.
+ * Unlike `$\`...\`.quiet()` this never throws on a non-zero exit; check `exitCode`.
+ */
+export async function runLogged(tool: LogTool, args: string[], logFile: string): Promise<LoggedRun> {
+  const startTime = performance.now();
+  const result = await $`${args}`.quiet().nothrow();
+  const stdout = result.stdout.toString();
+  const stderr = result.stderr.toString();
+
+  writeLog(
+    logFile,
+    tool,
+    {
+      command: args.join(" "),
+      exit: result.exitCode,
+      duration: `${((performance.now() - startTime) / 1000).toFixed(2)}s`,
+    },
+    `## stdout\n${stdout}\n## stderr\n${stderr}`
+  );
+
+  return {
+    exitCode: result.exitCode,
+    stdout,
+    stderr,
+    logPath: logFile,
+    diagnostics: parseLog(tool, `${stdout}\n${stderr}`),
+  };
+}
+
+/**
+ * Error message for a failed run: the first error diagnostic (or last stderr line) plus where the log is
+ */
+export function runFailure(run: LoggedRun): string {
+  const firstError = run.diagnostics.find((d) => d.severity === "error")?.message;
+  const lastLine = run.stderr.replace(ANSI_PATTERN, "").trim().split("\n").pop();
+  return `${firstError ?? (lastLine || "command failed")} (exit ${run.exitCode}, see ${run.logPath})`;
+}
+
+/**
+ * Print a one-line count of a run's warnings and errors
+ */
+export function logDiagnosticSummary(diagnostics: Diagnostic[]): void {
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.filter((d) => d.severity === "warning").length;
+  if (errors > 0 || warnings > 0) {
+    console.log(`   🩺 Diagnostics: ${errors} error(s), ${warnings} warning(s)`);
+  }
+}
+
+/**
+ * Re-parse a saved log file (the tool is read from its header)
+ */
+export function readLogDiagnostics(logFile: string): Diagnostic[] {
+  if (!existsSync(logFile)) return [];
+  const text = readFileSync(logFile, "utf-8");
+  const tool = text.match(/^# tool: (\w+)/m)?.[1] as LogTool | undefined;
+  if (!tool || !(tool in LINE_PARSERS)) return [];
+  return parseLog(tool, text).map((d) => ({ ...d, log: join(LOGS_DIR, basename(logFile)) }));
+}
+
+/**
+ * Diagnostics from every log for the given PDFs (e.g. an engine's RGB and PDF/X outputs)
+ */
+export function collectDiagnostics(pdfPaths: string[]): Diagnostic[] {
+  return pdfPaths.flatMap((pdf) => readLogDiagnostics(logPathFor(pdf)));
+}
+
+// Run if called directly: parse one log file
+if (import.meta.main) {
+  const logFile = process.argv[2];
+  if (!logFile) {
+    console.error("Usage: bun run scripts/diagnostics.ts <logs/engine-output.log>");
+    process.exit(1);
+  }
+
+  const diagnostics = readLogDiagnostics(logFile);
+  console.log(`🩺 ${diagnostics.length} diagnostic(s) in ${logFile}`);
+  for (const d of diagnostics) {
+    const icon = d.severity === "error" ? "❌" : d.severity === "warning" ? "⚠️ " : "ℹ️ ";
+    const where = d.source ? ` (${d.source}${d.line ? `:${d.line}` : ""})` : d.line ? ` (line ${d.line})` : "";
+    console.log(`   ${icon} [${d.code}] ${d.message}${where}${d.count > 1 ? ` ×${d.count}` : ""}`);
+  }
+}
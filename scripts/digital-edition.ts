@@ -0,0 +1,707 @@
+#!/usr/bin/env bun
+/**
+ * Digital Edition
+ * Builds the download edition of a book from an engine's RGB PDF and checks it
+ * suits digital distribution. Colour stays RGB and internal and external links
+ * are kept; when the engine wrote no PDF outline, one is generated from the
+ * HTML headings (h1-h3, placed on the page their anchor's named destination
+ * points at, else the page whose text contains them). Ghostscript
+ * then downsamples images to screen resolution and linearizes the file for
+ * fast web view.
+ */
+
+import { $ } from "bun";
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString, type PDFContext } from "pdf-lib";
+import { analyzeColorSpaces, findColorModels, formatUsage } from "./color-spaces.ts";
+import { logDiagnosticSummary, logPathFor, runFailure, runLogged } from "./diagnostics.ts";
+import { formatPageList } from "./page-boxes.ts";
+import { DEFAULT_PRINT_SPEC, digitalSettings, loadPrintSpec, type PrintSpec } from "./print-spec.ts";
+import { collectPdfInfo, type ValidationCheck, type ValidationResult } from "./validate-pdfs.ts";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+/** Heading levels turned into outline entries (matches PagedJS's outlineTags) */
+const OUTLINE_DEPTH = 3;
+
+/** Downsampled images may come out slightly above the target resolution */
+const PPI_TOLERANCE = 1.1;
+
+export interface OutlineEntry {
+  title: string;
+  /** 1 for top-level entries */
+  level: number;
+  /** 1-based page the entry points at; 0 when it can't be resolved (e.g. named destinations) */
+  page: number;
+}
+
+export interface LinkCounts {
+  /** Links to a page in the same document */
+  internal: number;
+  /** URI links and links to other files */
+  external: number;
+}
+
+export interface DigitalEditionOptions {
+  /** The engine's RGB PDF */
+  input: string;
+  output: string;
+  /** HTML the PDF was built from; its headings become the outline when the PDF has none */
+  html?: string;
+  /** Document title, set when the PDF has none (default: the HTML's <title>) */
+  title?: string;
+  /** Image resolution in ppi (default: 150) */
+  dpi?: number;
+  /** Directory for intermediate files (default: output/temp); give each parallel run its own */
+  tempDir?: string;
+}
+
+export interface DigitalEditionResult {
+  success: boolean;
+  outputPath: string;
+  duration: number;
+  /** Where the outline came from: the engine, generated from the HTML headings, or none at all */
+  outline: "engine" | "generated" | "none";
+  outlineEntries: number;
+  /** Headings whose text wasn't found on any page, so they have no outline entry */
+  missingHeadings: string[];
+  logPath?: string;
+  error?: string;
+}
+
+/** A heading from the HTML; `anchor` is its id, or that of the element it opens */
+export interface Heading {
+  title: string;
+  level: number;
+  anchor?: string;
+}
+
+/**
+ * The page an outline item or link annotation points at (explicit destinations only)
+ */
+function destinationPage(item: PDFDict, pageIndex: Map<string, number>): number {
+  const action = item.lookupMaybe(PDFName.of("A"), PDFDict);
+  const dest = item.lookup(PDFName.of("Dest")) ?? action?.lookup(PDFName.of("D"));
+  return explicitDestinationPage(dest, pageIndex);
+}
+
+function explicitDestinationPage(dest: unknown, pageIndex: Map<string, number>): number {
+  const target = dest instanceof PDFArray ? dest.get(0) : undefined;
+  return target instanceof PDFRef ? pageIndex.get(target.toString()) ?? 0 : 0;
+}
+
+/**
+ * The document's named destinations (the anchors engines write for HTML ids) and
+ * the 1-based pages they point at, from both the /Dests dictionary and name tree
+ */
+export function namedDestinations(doc: PDFDocument): Map<string, number> {
+  const { context } = doc;
+  const pageIndex = new Map(doc.getPages().map((page, i) => [page.ref.toString(), i + 1]));
+  const destinations = new Map<string, number>();
+  const add = (name: string, value: unknown) => {
+    const dest = value instanceof PDFDict ? value.lookup(PDFName.of("D")) : value;
+    const page = explicitDestinationPage(dest, pageIndex);
+    if (page > 0 && !destinations.has(name)) destinations.set(name, page);
+  };
+
+  const dests = doc.catalog.lookupMaybe(PDFName.of("Dests"), PDFDict);
+  for (const [key, value] of dests?.entries() ?? []) {
+    add(key.decodeText(), context.lookup(value));
+  }
+
+  const seen = new Set<PDFDict>();
+  const walk = (node: PDFDict | undefined) => {
+    if (!node || seen.has(node)) return;
+    seen.add(node);
+    const names = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+    for (let i = 0; i + 1 < (names?.size() ?? 0); i += 2) {
+      const key = names!.lookup(i);
+      if (key instanceof PDFString || key instanceof PDFHexString) add(key.decodeText(), names!.lookup(i + 1));
+    }
+    const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+    for (let i = 0; i < (kids?.size() ?? 0); i++) {
+      const kid = kids!.lookup(i);
+      if (kid instanceof PDFDict) walk(kid);
+    }
+  };
+  walk(doc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict)?.lookupMaybe(PDFName.of("Dests"), PDFDict));
+  return destinations;
+}
+
+/**
+ * Flatten a document's outline (bookmarks), depth first
+ */
+export function readOutline(doc: PDFDocument): OutlineEntry[] {
+  const pageIndex = new Map(doc.getPages().map((page, i) => [page.ref.toString(), i + 1]));
+  const entries: OutlineEntry[] = [];
+  const seen = new Set<PDFDict>();
+
+  const walk = (first: PDFDict | undefined, level: number) => {
+    let item = first;
+    while (item && !seen.has(item)) {
+      seen.add(item);
+      const title = item.lookup(PDFName.of("Title"));
+      entries.push({
+        title: title instanceof PDFString || title instanceof PDFHexString ? title.decodeText() : "",
+        level,
+        page: destinationPage(item, pageIndex),
+      });
+      walk(item.lookupMaybe(PDFName.of("First"), PDFDict), level + 1);
+      item = item.lookupMaybe(PDFName.of("Next"), PDFDict);
+    }
+  };
+
+  const root = doc.catalog.lookupMaybe(PDFName.of("Outlines"), PDFDict);
+  walk(root?.lookupMaybe(PDFName.of("First"), PDFDict), 1);
+  return entries;
+}
+
+/**
+ * Count a document's link annotations by where they go
+ */
+export function countLinks(doc: PDFDocument): LinkCounts {
+  const counts: LinkCounts = { internal: 0, external: 0 };
+  const { context } = doc;
+
+  for (const page of doc.getPages()) {
+    const annots = page.node.Annots();
+    for (let i = 0; i < (annots?.size() ?? 0); i++) {
+      const annot = context.lookupMaybe(annots!.get(i), PDFDict);
+      if (annot?.lookupMaybe(PDFName.of("Subtype"), PDFName)?.decodeText() !== "Link") continue;
+
+      const action = annot.lookupMaybe(PDFName.of("A"), PDFDict)?.lookupMaybe(PDFName.of("S"), PDFName)?.decodeText();
+      if (annot.has(PDFName.of("Dest")) || action === "GoTo") {
+        counts.internal++;
+      } else if (action === "URI" || action === "GoToR" || action === "Launch") {
+        counts.external++;
+      }
+    }
+  }
+  return counts;
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * The h1-h3 headings of an HTML document, in order, as plain text, with their
+ * anchor: the heading's own id, or the id of a section the heading opens
+ */
+export function extractHeadings(html: string, depth = OUTLINE_DEPTH): Heading[] {
+  const pattern = new RegExp(`<h([1-${depth}])\\b([^>]*)>([\\s\\S]*?)</h\\1\\s*>`, "gi");
+  const idOf = (attributes: string) => /\bid\s*=\s*["']([^"']+)["']/i.exec(attributes)?.[1];
+  return [...html.matchAll(pattern)]
+    .map((match): Heading => {
+      const opener = /<[a-z][\w-]*\b([^>]*)>\s*$/i.exec(html.slice(Math.max(0, match.index! - 500), match.index));
+      return {
+        level: Number(match[1]),
+        title: decodeEntities(match[3].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim(),
+        anchor: idOf(match[2]) ?? (opener ? idOf(opener[1]) : undefined),
+      };
+    })
+    .filter((heading) => heading.title.length > 0);
+}
+
+/**
+ * The text of an HTML document's <title>, if it has a non-empty one
+ */
+function htmlTitle(html: string): string | undefined {
+  const match = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(html);
+  return match ? decodeEntities(match[1]).replace(/\s+/g, " ").trim() || undefined : undefined;
+}
+
+/** Letters and digits only, lower-cased: survives line breaks, hyphenation points and text-transform */
+function textKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/**
+ * Place headings on the page their anchor's named destination points at. Headings
+ * without one go on the first page at or after the previous heading's page whose
+ * text contains them, passing over listing pages (a table of contents or index
+ * that names most of the headings) unless no other page does
+ */
+export function locateHeadings(
+  headings: Heading[],
+  pageTexts: string[],
+  destinations: Map<string, number> = new Map()
+): { entries: OutlineEntry[]; missing: string[] } {
+  const pages = pageTexts.map(textKey);
+  const keys = headings.map((heading) => textKey(heading.title));
+  const listing = pages.map(
+    (text) => headings.length >= 3 && keys.filter((key) => key && text.includes(key)).length > headings.length / 2
+  );
+  const entries: OutlineEntry[] = [];
+  const missing: string[] = [];
+  let from = 0;
+
+  headings.forEach((heading, h) => {
+    const key = keys[h];
+    const find = (listingPages: boolean) =>
+      pages.findIndex((text, i) => i >= from && listing[i] === listingPages && text.includes(key));
+    const anchored = heading.anchor ? (destinations.get(heading.anchor) ?? 0) - 1 : -1;
+    const index = anchored >= 0 ? anchored : key ? [find(false), find(true)].find((i) => i >= 0) ?? -1 : -1;
+    if (index < 0) {
+      missing.push(heading.title);
+      return;
+    }
+    from = index;
+    entries.push({ title: heading.title, level: heading.level, page: index + 1 });
+  });
+  return { entries, missing };
+}
+
+/**
+ * Write `entries` as the document outline, nesting each entry under the closest
+ * shallower one before it, and open the outline panel when the file is opened
+ */
+export function writeOutline(doc: PDFDocument, entries: OutlineEntry[]): void {
+  interface OutlineNode {
+    entry: OutlineEntry;
+    children: OutlineNode[];
+  }
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  for (const entry of entries) {
+    const node: OutlineNode = { entry, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].entry.level >= entry.level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+
+  const context: PDFContext = doc.context;
+  const pages = doc.getPages();
+
+  // Returns the items' refs and how many items (including open descendants) they show
+  const link = (nodes: OutlineNode[], parent: PDFRef): { refs: PDFRef[]; count: number } => {
+    const refs = nodes.map(() => context.nextRef());
+    let count = nodes.length;
+    nodes.forEach((node, i) => {
+      const item = context.obj({
+        Title: PDFHexString.fromText(node.entry.title),
+        Parent: parent,
+        Dest: [pages[node.entry.page - 1].ref, "XYZ", null, null, null],
+      });
+      if (i > 0) item.set(PDFName.of("Prev"), refs[i - 1]);
+      if (i < refs.length - 1) item.set(PDFName.of("Next"), refs[i + 1]);
+      if (node.children.length > 0) {
+        const children = link(node.children, refs[i]);
+        item.set(PDFName.of("First"), children.refs[0]);
+        item.set(PDFName.of("Last"), children.refs[children.refs.length - 1]);
+        item.set(PDFName.of("Count"), PDFNumber.of(children.count));
+        count += children.count;
+      }
+      context.assign(refs[i], item);
+    });
+    return { refs, count };
+  };
+
+  const rootRef = context.nextRef();
+  const top = link(roots, rootRef);
+  const root = context.obj({ Type: "Outlines", Count: top.count });
+  if (top.refs.length > 0) {
+    root.set(PDFName.of("First"), top.refs[0]);
+    root.set(PDFName.of("Last"), top.refs[top.refs.length - 1]);
+  }
+  context.assign(rootRef, root);
+  doc.catalog.set(PDFName.of("Outlines"), rootRef);
+  doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+/**
+ * Text of each page, from pdftotext
+ */
+async function pageTexts(pdfPath: string): Promise<string[]> {
+  const result = await $`pdftotext -enc UTF-8 -q ${pdfPath} -`.quiet();
+  return result.stdout.toString().split("\f");
+}
+
+/**
+ * Effective resolution of every image, per page, from pdfimages -list (null when pdfimages is unavailable)
+ */
+async function imageResolutions(pdfPath: string): Promise<Array<{ page: number; ppi: number }> | null> {
+  try {
+    const result = await $`pdfimages -list ${pdfPath}`.quiet();
+    // page num type width height color comp bpc enc interp object ID x-ppi y-ppi size ratio
+    return result.stdout
+      .toString()
+      .split("\n")
+      .slice(2)
+      .map((line) => line.trim().split(/\s+/))
+      .filter((columns) => columns.length >= 14 && columns[2] === "image")
+      .map((columns) => ({ page: Number(columns[0]), ppi: Math.max(Number(columns[12]), Number(columns[13])) }))
+      .filter((image) => Number.isFinite(image.ppi));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the digital edition: outline (from the engine or the HTML headings) and
+ * title on a copy of the RGB PDF, then screen-resolution images and linearization
+ */
+export async function buildDigitalEdition(options: DigitalEditionOptions): Promise<DigitalEditionResult> {
+  const startTime = performance.now();
+  const { input, output, html, tempDir = join(ROOT, "output", "temp") } = options;
+  const title = options.title ?? (html && existsSync(html) ? htmlTitle(readFileSync(html, "utf-8")) : undefined);
+  const dpi = options.dpi ?? digitalSettings(DEFAULT_PRINT_SPEC).dpi;
+  const result: DigitalEditionResult = {
+    success: false,
+    outputPath: output,
+    duration: 0,
+    outline: "none",
+    outlineEntries: 0,
+    missingHeadings: [],
+  };
+
+  console.log(`\n📱 Building digital edition: ${basename(input)} → ${basename(output)}`);
+
+  if (!existsSync(tempDir)) {
+    mkdirSync(tempDir, { recursive: true });
+  }
+  const prepared = join(tempDir, `${basename(input, ".pdf")}-digital-source.pdf`);
+
+  try {
+    const doc = await PDFDocument.load(readFileSync(input), { updateMetadata: false });
+
+    const existing = readOutline(doc);
+    if (existing.length > 0) {
+      result.outline = "engine";
+      result.outlineEntries = existing.length;
+      doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+      console.log(`   🔖 Keeping the engine's outline (${existing.length} entries)`);
+    } else if (html && existsSync(html)) {
+      const headings = extractHeadings(readFileSync(html, "utf-8"));
+      const { entries, missing } = locateHeadings(headings, await pageTexts(input), namedDestinations(doc));
+      result.missingHeadings = missing;
+      if (entries.length > 0) {
+        writeOutline(doc, entries);
+        result.outline = "generated";
+        result.outlineEntries = entries.length;
+        console.log(`   🔖 Generated an outline from ${entries.length} heading(s)`);
+        if (entries.length > 1 && new Set(entries.map((entry) => entry.page)).size === 1) {
+          console.log(`   ⚠️  Every bookmark points at page ${entries[0].page}`);
+        }
+      }
+      if (missing.length > 0) {
+        console.log(`   ⚠️  ${missing.length} heading(s) not found in the PDF text: ${missing.slice(0, 5).join(", ")}`);
+      }
+    } else {
+      console.log(`   ⚠️  No outline in the PDF and no HTML to generate one from`);
+    }
+
+    if (title && !doc.getTitle()) {
+      doc.setTitle(title, { showInWindowTitleBar: true });
+    }
+    writeFileSync(prepared, await doc.save({ useObjectStreams: false }));
+
+    // Ghostscript keeps link annotations and the outline (PreserveAnnots is on by default),
+    // leaves colour as it is, downsamples images above `dpi` and linearizes the output
+    const gsArgs = [
+      "gs",
+      "-dBATCH",
+      "-dNOPAUSE",
+      "-dNOOUTERSAVE",
+      "-dQUIET",
+      "-sDEVICE=pdfwrite",
+      "-dCompatibilityLevel=1.7",
+      "-sColorConversionStrategy=LeaveColorUnchanged",
+      // Screen resolution
+      "-dDownsampleColorImages=true",
+      "-dColorImageDownsampleType=/Bicubic",
+      "-dColorImageDownsampleThreshold=1.0",
+      `-dColorImageResolution=${dpi}`,
+      "-dDownsampleGrayImages=true",
+      "-dGrayImageDownsampleType=/Bicubic",
+      "-dGrayImageDownsampleThreshold=1.0",
+      `-dGrayImageResolution=${dpi}`,
+      "-dDownsampleMonoImages=true",
+      `-dMonoImageResolution=${dpi * 2}`,
+      "-dDetectDuplicateImages=true",
+      // Fonts
+      "-dEmbedAllFonts=true",
+      "-dSubsetFonts=true",
+      "-dCompressFonts=true",
+      // Screen rather than print rendition of annotations
+      "-dPrinted=false",
+      // Linearize for fast web view
+      "-dFastWebView=true",
+      `-sOutputFile=${output}`,
+      prepared,
+    ];
+
+    const run = await runLogged("ghostscript", gsArgs, logPathFor(output));
+    result.logPath = run.logPath;
+    logDiagnosticSummary(run.diagnostics);
+    if (run.exitCode !== 0) {
+      throw new Error(runFailure(run));
+    }
+    if (!existsSync(output)) {
+      throw new Error("Output file was not created");
+    }
+
+    const before = (await Bun.file(input).stat())?.size ?? 0;
+    const after = (await Bun.file(output).stat())?.size ?? 0;
+    console.log(`   ✅ ${(after / 1024).toFixed(1)} KB (RGB build: ${(before / 1024).toFixed(1)} KB), images ≤ ${dpi} ppi`);
+    result.success = true;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    console.error(`   ❌ Error: ${result.error}`);
+  } finally {
+    if (existsSync(prepared)) {
+      unlinkSync(prepared);
+    }
+  }
+
+  result.duration = performance.now() - startTime;
+  return result;
+}
+
+/**
+ * Check a digital edition suits digital distribution: RGB kept, outline present
+ * and spread over the book, links kept (compared with `source`, the RGB build, when given), images at screen
+ * resolution, linearized, fonts embedded, title set, not encrypted and within the size limit
+ */
+export async function validateDigitalEdition(
+  filepath: string,
+  spec: PrintSpec = DEFAULT_PRINT_SPEC,
+  source?: string
+): Promise<ValidationResult> {
+  console.log(`\n🔍 Validating digital edition: ${basename(filepath)}`);
+
+  const result: ValidationResult = {
+    filename: basename(filepath),
+    filepath,
+    valid: true,
+    info: null,
+    checks: [],
+    errors: [],
+    warnings: [],
+  };
+
+  if (!existsSync(filepath)) {
+    result.valid = false;
+    result.errors.push(`File not found: ${filepath}`);
+    return result;
+  }
+
+  const settings = digitalSettings(spec);
+  const info = await collectPdfInfo(filepath, { inkCoverage: false });
+  result.info = info;
+  const doc = await PDFDocument.load(readFileSync(filepath), { updateMetadata: false, ignoreEncryption: true });
+  const sourceDoc =
+    source && existsSync(source)
+      ? await PDFDocument.load(readFileSync(source), { updateMetadata: false, ignoreEncryption: true })
+      : undefined;
+  const checks: ValidationCheck[] = [];
+  const add = (check: ValidationCheck, message: string) => {
+    checks.push(check);
+    if (!check.passed) {
+      (check.severity === "error" ? result.errors : result.warnings).push(message);
+    }
+  };
+
+  // Check 1: Colour stays RGB (CMYK is only expected where the source already had it)
+  const cmyk = info.colorSpaces ? findColorModels(info.colorSpaces, ["CMYK"]) : [];
+  const sourceCmyk = source && existsSync(source) ? findColorModels(await analyzeColorSpaces(source), ["CMYK"]) : [];
+  const converted = cmyk.filter(({ usage }) => !sourceCmyk.some((s) => s.usage.space === usage.space));
+  add(
+    {
+      name: "Color Space",
+      passed: converted.length === 0,
+      expected: "RGB kept (no CMYK conversion)",
+      actual: converted.length > 0 ? converted.map(({ usage }) => `${usage.space}: ${formatUsage(usage)}`).join("; ") : info.colorSpace,
+      severity: converted.length === 0 ? "info" : "warning",
+    },
+    `CMYK colour in the digital edition on pages ${formatPageList(converted.flatMap(({ pages }) => pages))}; screens show it duller than the RGB original`
+  );
+
+  // Check 2: Outline (bookmarks)
+  const outline = readOutline(doc);
+  add(
+    {
+      name: "Bookmarks",
+      passed: outline.length > 0,
+      expected: "PDF outline from the heading hierarchy",
+      actual: outline.length > 0 ? `${outline.length} entries (${outline.filter((e) => e.level === 1).length} top level)` : "none",
+      severity: outline.length > 0 ? "info" : "error",
+    },
+    "No PDF outline: readers can't navigate the book by chapter"
+  );
+
+  // Check 3: Bookmarks spread over the book (not all on a table of contents page)
+  const outlinePages = new Set(outline.map((entry) => entry.page).filter((page) => page > 0));
+  const spread = outline.length <= 1 || outlinePages.size !== 1;
+  add(
+    {
+      name: "Bookmark Targets",
+      passed: spread,
+      expected: "Entries point at more than one page",
+      actual: outline.length > 1 ? `${outlinePages.size} page(s)` : "n/a",
+      severity: spread ? "info" : "warning",
+    },
+    `All ${outline.length} bookmarks point at page ${[...outlinePages][0]}`
+  );
+
+  // Checks 4-5: Links kept from the RGB build
+  const links = countLinks(doc);
+  const sourceLinks = sourceDoc ? countLinks(sourceDoc) : undefined;
+  for (const kind of ["internal", "external"] as const) {
+    const expected = sourceLinks?.[kind] ?? 0;
+    const name = kind === "internal" ? "Internal Links" : "External Links";
+    add(
+      {
+        name,
+        passed: links[kind] >= expected,
+        expected: sourceLinks ? `≥ ${expected} (as in the RGB build)` : "Kept from the RGB build",
+        actual: `${links[kind]}`,
+        severity: links[kind] >= expected ? "info" : "error",
+      },
+      `${name}: ${expected - links[kind]} of ${expected} lost from the RGB build`
+    );
+  }
+
+  // Check 6: Image resolution
+  const images = await imageResolutions(filepath);
+  if (images) {
+    const maxPpi = Math.max(0, ...images.map((image) => image.ppi));
+    const tooFine = images.filter((image) => image.ppi > settings.dpi * PPI_TOLERANCE);
+    add(
+      {
+        name: "Image Resolution",
+        passed: tooFine.length === 0,
+        expected: `≤ ${settings.dpi} ppi`,
+        actual: images.length > 0 ? `max ${maxPpi} ppi (${images.length} images)` : "no images",
+        severity: tooFine.length === 0 ? "info" : "warning",
+      },
+      `${tooFine.length} image(s) above ${settings.dpi} ppi on pages ${formatPageList([...new Set(tooFine.map((image) => image.page))])}`
+    );
+  } else {
+    result.warnings.push("Image resolution not checked: pdfimages not available");
+  }
+
+  // Check 7: Linearized
+  add(
+    {
+      name: "Fast Web View",
+      passed: info.linearized,
+      expected: "Linearized",
+      actual: info.linearized ? "yes" : "no",
+      severity: info.linearized ? "info" : "warning",
+    },
+    "Not linearized: browsers must download the whole file before showing the first page"
+  );
+
+  // Check 8: Fonts embedded
+  const unembedded = info.fonts.filter((font) => !font.embedded);
+  add(
+    {
+      name: "Font Embedding",
+      passed: unembedded.length === 0,
+      expected: "All fonts embedded",
+      actual: unembedded.length === 0 ? `All ${info.fonts.length} fonts embedded` : `${unembedded.length} fonts not embedded`,
+      severity: unembedded.length === 0 ? "info" : "error",
+    },
+    `Fonts not embedded: ${unembedded.map((font) => font.name).join(", ")}`
+  );
+
+  // Check 9: Title (shown in readers' title bars and store previews)
+  const title = doc.getTitle()?.trim();
+  add(
+    {
+      name: "Document Title",
+      passed: Boolean(title),
+      expected: "Set",
+      actual: title || "none",
+      severity: title ? "info" : "warning",
+    },
+    "No document title: readers show the file name instead"
+  );
+
+  // Check 10: Encryption (stores watermark and re-distribute the file)
+  add(
+    {
+      name: "Encryption",
+      passed: !info.encrypted,
+      expected: "None",
+      actual: info.encrypted ? "encrypted" : "none",
+      severity: info.encrypted ? "error" : "info",
+    },
+    "Encrypted: download stores can't watermark or process the file"
+  );
+
+  // Check 11: File size
+  const fileSizeMB = info.fileSize / (1024 * 1024);
+  const sourceSize = source && existsSync(source) ? (await Bun.file(source).stat())?.size ?? 0 : 0;
+  const ratio = sourceSize > 0 ? ` (${Math.round((info.fileSize / sourceSize) * 100)}% of the RGB build)` : "";
+  add(
+    {
+      name: "File Size",
+      passed: fileSizeMB <= settings.maxFileSizeMB,
+      expected: `≤ ${settings.maxFileSizeMB} MB`,
+      actual: `${fileSizeMB.toFixed(1)} MB${ratio}`,
+      severity: fileSizeMB <= settings.maxFileSizeMB ? "info" : "warning",
+    },
+    `File size (${fileSizeMB.toFixed(1)} MB) exceeds ${settings.maxFileSizeMB} MB for downloads`
+  );
+
+  result.checks = checks;
+  result.valid = result.errors.length === 0;
+
+  console.log(`   📊 Pages: ${info.pageCount}, ${fileSizeMB.toFixed(1)} MB${ratio}`);
+  console.log(`   🔖 Bookmarks: ${outline.length}, links: ${links.internal} internal, ${links.external} external`);
+  console.log(`   🎨 Color: ${info.colorSpace}`);
+  console.log(`   ${result.valid ? "✅ VALID" : "❌ INVALID"}`);
+
+  return result;
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const files = args.filter((arg, i) => !arg.startsWith("--") && !args[i - 1]?.startsWith("--"));
+  const checkOnly = flag("--check");
+
+  if (!checkOnly && files.length < 2) {
+    console.error("Usage: bun run scripts/digital-edition.ts <rgb.pdf> <digital.pdf> [--html <book.html>] [--dpi <ppi>] [--title <title>]");
+    console.error("       bun run scripts/digital-edition.ts --check <digital.pdf> [--source <rgb.pdf>] [--dir <project>]");
+    process.exit(1);
+  }
+
+  const dir = flag("--dir");
+  const spec = dir ? loadPrintSpec(dir) : DEFAULT_PRINT_SPEC;
+  if (checkOnly) {
+    const result = await validateDigitalEdition(checkOnly, spec, flag("--source"));
+    process.exit(result.valid ? 0 : 1);
+  }
+
+  const [input, output] = files;
+  const dpi = flag("--dpi");
+  const built = await buildDigitalEdition({
+    input,
+    output,
+    html: flag("--html"),
+    title: flag("--title"),
+    dpi: dpi ? Number(dpi) : digitalSettings(spec).dpi,
+  });
+  if (!built.success) {
+    process.exit(1);
+  }
+  const result = await validateDigitalEdition(output, spec, input);
+  process.exit(result.valid ? 0 : 1);
+}
@@ -0,0 +1,279 @@
+#!/usr/bin/env bun
+/**
+ * Output ICC Profiles
+ * Registry of the CMYK output profiles installed in assets/, and the profile
+ * shared by PDF/X conversion (embedded as the OutputIntent) and TAC limiting
+ * (the device link is built from it). The inspector reads the header fields,
+ * description and ink limit used to record which profile was applied.
+ *
+ * Only CGATS21_CRPC1 is bundled; copy the others into assets/ under one of the
+ * file names below to make them selectable by id (e.g. "iccProfile": "FOGRA39").
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { inflateSync } from "node:zlib";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+/** Folder the registry loads profiles from */
+export const PROFILES_DIR = join(ROOT, "assets");
+
+/** DriveThruRPG's recommended profile, used unless the project selects another */
+export const DEFAULT_OUTPUT_PROFILE = join(PROFILES_DIR, "CGATS21_CRPC1.icc");
+
+export interface RegistryEntry {
+  /** Id accepted wherever a profile path is (case-insensitive) */
+  id: string;
+  /** Printing condition the profile characterizes */
+  condition: string;
+  /** Characterization name in the ICC registry, written as the OutputIntent's OutputConditionIdentifier */
+  identifier?: string;
+  /** File names looked up in PROFILES_DIR, preferred first */
+  files: string[];
+}
+
+export const PROFILE_REGISTRY: RegistryEntry[] = [
+  ...[1, 2, 3, 4, 5, 6, 7].map((n) => ({
+    id: `CRPC${n}`,
+    condition: `CGATS.21-2 CRPC${n}`,
+    identifier: `CGATS21_CRPC${n}`,
+    files: [`CGATS21_CRPC${n}.icc`],
+  })),
+  { id: "FOGRA39", condition: "ISO 12647-2 coated (FOGRA39)", identifier: "FOGRA39", files: ["CoatedFOGRA39.icc", "ISOcoated_v2_eci.icc"] },
+  { id: "GRACoL", condition: "GRACoL coated #1", files: ["GRACoL2013_CRPC6.icc", "GRACoL2006_Coated1v2.icc"] },
+  { id: "SWOP", condition: "SWOP web coated", files: ["USWebCoatedSWOP.icc", "SWOP2006_Coated3v2.icc"] },
+];
+
+// Used when the bundled profile is missing (e.g. a trimmed checkout)
+const SYSTEM_CMYK_PROFILES = [
+  "/usr/share/color/icc/ghostscript/default_cmyk.icc",
+  "/usr/share/ghostscript/iccprofiles/default_cmyk.icc",
+  "/usr/share/color/icc/ghostscript/ps_cmyk.icc",
+];
+
+export interface ProfileInfo {
+  path: string;
+  /** Profile description ('desc' tag), or the file name when it has none */
+  name: string;
+  /** Header colour space signature, e.g. "CMYK" */
+  colorSpace: string;
+  /** Header profile class, e.g. "prtr" (output device) */
+  deviceClass: string;
+  /** ICC version, e.g. "4.2" */
+  version: string;
+  /** Creation date from the header (ISO 8601) */
+  created: string;
+  /** Total ink limit in percent from the profile's max-ink data, when it records one */
+  maxTAC?: number;
+  /** SHA-256 of the profile file */
+  checksum: string;
+}
+
+export interface RegisteredProfile {
+  entry: RegistryEntry;
+  /** Inspected profile, or undefined when none of the entry's files is in PROFILES_DIR */
+  info?: ProfileInfo;
+}
+
+function findEntry(id: string): RegistryEntry | undefined {
+  return PROFILE_REGISTRY.find((entry) => entry.id.toLowerCase() === id.toLowerCase());
+}
+
+/**
+ * Registry entry a profile file belongs to, by file name
+ */
+export function registryEntryFor(path: string): RegistryEntry | undefined {
+  return PROFILE_REGISTRY.find((entry) => entry.files.includes(basename(path)));
+}
+
+/**
+ * Whether a profile selection is a registry id rather than a file path
+ */
+export function isProfileId(selected: string): boolean {
+  return findEntry(selected) !== undefined;
+}
+
+/**
+ * Every registry entry with the installed profile inspected
+ */
+export function listProfiles(dir: string = PROFILES_DIR): RegisteredProfile[] {
+  return PROFILE_REGISTRY.map((entry) => {
+    const file = entry.files.find((name) => existsSync(join(dir, name)));
+    return { entry, info: file ? readProfileInfo(join(dir, file)) : undefined };
+  });
+}
+
+/**
+ * Profiles in `dir` that no registry entry claims
+ */
+export function listUnregisteredProfiles(dir: string = PROFILES_DIR): string[] {
+  if (!existsSync(dir)) return [];
+  const registered = new Set(PROFILE_REGISTRY.flatMap((entry) => entry.files));
+  return readdirSync(dir)
+    .filter((name) => /\.ic[cm]$/i.test(name) && !registered.has(name))
+    .map((name) => join(dir, name));
+}
+
+/**
+ * The output profile to use: `selected` (a registry id, or a path that must
+ * exist), else the bundled CGATS21_CRPC1, else a system CMYK profile
+ */
+export function resolveOutputProfile(selected?: string): string {
+  if (selected) {
+    const entry = findEntry(selected);
+    if (entry) {
+      const file = entry.files.find((name) => existsSync(join(PROFILES_DIR, name)));
+      if (!file) {
+        throw new Error(`ICC profile ${entry.id} is not installed (copy ${entry.files[0]} into assets/)`);
+      }
+      return join(PROFILES_DIR, file);
+    }
+    if (!existsSync(selected)) {
+      throw new Error(`ICC profile not found: ${selected}`);
+    }
+    return selected;
+  }
+  const found = [DEFAULT_OUTPUT_PROFILE, ...SYSTEM_CMYK_PROFILES].find((path) => existsSync(path));
+  if (!found) {
+    throw new Error("No CMYK ICC profile found (expected assets/CGATS21_CRPC1.icc)");
+  }
+  return found;
+}
+
+/**
+ * Text of a 'desc' (ICC v2 textDescriptionType) or 'mluc' (v4, first record) tag
+ */
+function readDescription(data: Buffer, offset: number, size: number): string | undefined {
+  const type = data.toString("latin1", offset, offset + 4);
+  if (type === "desc") {
+    const length = data.readUInt32BE(offset + 8);
+    return data.toString("latin1", offset + 12, offset + 12 + length).replace(/\0.*$/, "");
+  }
+  if (type === "mluc" && data.readUInt32BE(offset + 8) > 0) {
+    const length = data.readUInt32BE(offset + 20);
+    const start = offset + data.readUInt32BE(offset + 24);
+    if (start + length > offset + size) return undefined;
+    // UTF-16BE; swap to the little-endian order Node decodes
+    return Buffer.from(data.subarray(start, start + length)).swap16().toString("utf16le");
+  }
+  return undefined;
+}
+
+/**
+ * Ink limit recorded in a 'CxF ' tag (X-Rite i1Profiler writes the profiling
+ * settings there as zlib-compressed XML, <InkLimiting><InkLimit>240</InkLimit>)
+ */
+function readInkLimit(data: Buffer, offset: number, size: number): number | undefined {
+  if (data.toString("latin1", offset, offset + 4) !== "ZXML") return undefined;
+  try {
+    const xml = inflateSync(data.subarray(offset + 12, offset + size)).toString("utf-8");
+    const match = xml.match(/<InkLimiting>[\s\S]*?<InkLimit>\s*(\d+(?:\.\d+)?)\s*<\/InkLimit>/);
+    return match ? parseFloat(match[1]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Header creation date (dateTimeNumber at byte 24)
+ */
+function readCreated(data: Buffer): string {
+  const [year, month, day, hours, minutes, seconds] = [0, 1, 2, 3, 4, 5].map((i) => data.readUInt16BE(24 + i * 2));
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)).toISOString();
+}
+
+/**
+ * Header fields, description, ink limit and checksum of an ICC profile
+ */
+export function readProfileInfo(path: string): ProfileInfo {
+  const data = readFileSync(path);
+  if (data.length < 132 || data.toString("latin1", 36, 40) !== "acsp") {
+    throw new Error(`Not an ICC profile: ${path}`);
+  }
+
+  let name: string | undefined;
+  let maxTAC: number | undefined;
+  const tagCount = data.readUInt32BE(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    const signature = data.toString("latin1", entry, entry + 4);
+    const offset = data.readUInt32BE(entry + 4);
+    const size = data.readUInt32BE(entry + 8);
+    if (offset + size > data.length) continue;
+    if (signature === "desc") {
+      name = readDescription(data, offset, size);
+    } else if (signature === "CxF ") {
+      maxTAC = readInkLimit(data, offset, size);
+    }
+  }
+
+  return {
+    path,
+    name: name?.trim() || basename(path, ".icc"),
+    colorSpace: data.toString("latin1", 16, 20).trim(),
+    deviceClass: data.toString("latin1", 12, 16).trim(),
+    version: `${data[8]}.${data[9] >> 4}`,
+    created: readCreated(data),
+    maxTAC,
+    checksum: createHash("sha256").update(data).digest("hex"),
+  };
+}
+
+/**
+ * Resolve and inspect the output profile, refusing one that can't describe a
+ * CMYK OutputIntent (an RGB or input profile would silently mislabel the output)
+ */
+export function loadOutputProfile(selected?: string): ProfileInfo {
+  const info = readProfileInfo(resolveOutputProfile(selected));
+  if (info.colorSpace !== "CMYK") {
+    throw new Error(`${info.name} describes ${info.colorSpace} output; the CMYK OutputIntent needs a CMYK profile`);
+  }
+  if (info.deviceClass !== "prtr") {
+    throw new Error(`${info.name} is a '${info.deviceClass}' profile; the OutputIntent needs an output device ('prtr') profile`);
+  }
+  return info;
+}
+
+function printProfile(info: ProfileInfo): void {
+  console.log(`   File:        ${info.path}`);
+  console.log(`   Class:       ${info.deviceClass} (${info.colorSpace}), ICC v${info.version}`);
+  console.log(`   Created:     ${info.created.slice(0, 10)}`);
+  console.log(`   Ink limit:   ${info.maxTAC !== undefined ? `${info.maxTAC}%` : "not recorded"}`);
+  console.log(`   SHA-256:     ${info.checksum}`);
+}
+
+// Run if called directly: describe a profile (default: the one conversion would use), or --list the registry
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--list")) {
+    console.log(`🎨 Output profiles in ${PROFILES_DIR}\n`);
+    for (const { entry, info } of listProfiles()) {
+      if (!info) {
+        console.log(`⚪ ${entry.id.padEnd(8)} ${entry.condition} (not installed: ${entry.files.join(" or ")})`);
+        continue;
+      }
+      const usable = info.colorSpace === "CMYK" && info.deviceClass === "prtr";
+      console.log(`${usable ? "✅" : "❌"} ${entry.id.padEnd(8)} ${info.name}`);
+      printProfile(info);
+    }
+    for (const path of listUnregisteredProfiles()) {
+      console.log(`➕ ${basename(path)} (select by path)`);
+    }
+    process.exit(0);
+  }
+
+  try {
+    const info = readProfileInfo(resolveOutputProfile(args[0]));
+    console.log(`🎨 ${info.name}`);
+    printProfile(info);
+    loadOutputProfile(info.path);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
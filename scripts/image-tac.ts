@@ -0,0 +1,303 @@
+#!/usr/bin/env bun
+/**
+ * Image TAC Limiting
+ *
+ * Runs the CMYK raster images of a PDF that go over the TAC limit through a
+ * TAC-limiting device-link profile and puts them back in place. The image
+ * XObjects keep their references, so every placement (size, position, soft
+ * mask) is unchanged, and fonts and vector content are not touched.
+ *
+ * Per image:
+ * 1. Decode the samples (pdf-lib for Flate/LZW/..., ImageMagick for JPEG)
+ * 2. Measure the per-pixel TAC and skip images within the limit
+ * 3. Apply the device link with lcms2's tificc
+ * 4. Store the result as a Flate-compressed 8-bit CMYK image
+ *
+ * Only 8-bit DeviceCMYK (or 4-component ICCBased) images without a /Decode
+ * array are handled; others are listed as skipped.
+ *
+ * Requirements:
+ *   - lcms2-utils (tificc)
+ *   - ImageMagick (convert), for JPEG (DCTDecode) images
+ */
+
+import { $ } from "bun";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join, dirname } from "node:path";
+import { deflateSync } from "node:zlib";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  decodePDFRawStream,
+  type PDFContext,
+} from "pdf-lib";
+import { measureRaster, readCmykTiff, writeCmykTiff, type CmykRaster } from "./tac-analyzer.ts";
+
+export interface ImageTACOptions {
+  input: string;
+  output: string;
+  maxTAC: number;
+  /** TAC-limiting device-link profile (see createTACProfile in limit-tac.ts) */
+  deviceLink: string;
+  /** Only look at images drawn on these pages (1-based; default: all pages) */
+  pages?: number[];
+  /** Parent directory for scratch files */
+  tempDir?: string;
+}
+
+export interface ImageTACResult {
+  success: boolean;
+  inputPath: string;
+  outputPath: string;
+  duration: number;
+  /** Images run through the device link */
+  imagesChanged: number;
+  /** Pages drawing at least one changed image (1-based) */
+  pagesChanged: number[];
+  /** Over-limit candidates that could not be processed, with the reason */
+  skipped: string[];
+  error?: string;
+}
+
+/** Filters pdf-lib can decode itself */
+const DECODABLE_FILTERS = ["FlateDecode", "LZWDecode", "ASCII85Decode", "ASCIIHexDecode", "RunLengthDecode"];
+
+/**
+ * Filter names of a stream, outermost first
+ */
+function filtersOf(stream: PDFRawStream): string[] {
+  const filter = stream.dict.lookup(PDFName.of("Filter"));
+  const names = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+  return names.map((name) => name.toString().replace(/^\//, ""));
+}
+
+function isCMYKImage(image: PDFRawStream, context: PDFContext): boolean {
+  const space = image.dict.lookup(PDFName.of("ColorSpace"));
+  if (space instanceof PDFName) return space.asString() === "/DeviceCMYK";
+  if (space instanceof PDFArray && space.size() >= 2 && space.lookup(0)?.toString() === "/ICCBased") {
+    const profile = context.lookup(space.get(1));
+    const components = profile instanceof PDFRawStream ? profile.dict.lookup(PDFName.of("N")) : undefined;
+    return components instanceof PDFNumber && components.asNumber() === 4;
+  }
+  return false;
+}
+
+/**
+ * Read a TIFF written by tificc or ImageMagick, re-saving it uncompressed when needed
+ */
+async function readTiffFile(path: string): Promise<CmykRaster> {
+  try {
+    return readCmykTiff(readFileSync(path));
+  } catch {
+    const plain = path.replace(/\.tiff?$/, "-plain.tif");
+    await $`convert ${path} -compress none ${plain}`.quiet();
+    return readCmykTiff(readFileSync(plain));
+  }
+}
+
+/**
+ * Decode an image's samples; throws with the reason when the image can't be handled
+ */
+async function decodeImage(image: PDFRawStream, context: PDFContext, scratch: string): Promise<CmykRaster> {
+  const width = image.dict.lookup(PDFName.of("Width"), PDFNumber).asNumber();
+  const height = image.dict.lookup(PDFName.of("Height"), PDFNumber).asNumber();
+  const bits = image.dict.lookupMaybe(PDFName.of("BitsPerComponent"), PDFNumber)?.asNumber();
+
+  if (!isCMYKImage(image, context)) throw new Error("not a CMYK image");
+  if (bits !== 8) throw new Error(`${bits ?? "unknown"} bits per component`);
+  if (image.dict.has(PDFName.of("Decode"))) throw new Error("has a /Decode array");
+
+  const filters = filtersOf(image);
+  if (filters.length === 1 && filters[0] === "DCTDecode") {
+    writeFileSync(`${scratch}.jpg`, image.contents);
+    await $`convert ${scratch}.jpg -compress none ${scratch}.tif`.quiet();
+    return readTiffFile(`${scratch}.tif`);
+  }
+
+  const unsupported = filters.find((filter) => !DECODABLE_FILTERS.includes(filter));
+  if (unsupported) throw new Error(`${unsupported} compression`);
+  const params = image.dict.lookup(PDFName.of("DecodeParms"));
+  if (params instanceof PDFDict && (params.lookupMaybe(PDFName.of("Predictor"), PDFNumber)?.asNumber() ?? 1) > 1) {
+    throw new Error("PNG/TIFF predictor");
+  }
+
+  const data = decodePDFRawStream(image).decode();
+  if (data.length < width * height * 4) {
+    throw new Error(`${data.length} bytes of samples for ${width}×${height}`);
+  }
+  return { width, height, data: data.subarray(0, width * height * 4) };
+}
+
+/**
+ * Image XObjects drawn by a resource dictionary, including those inside Form XObjects
+ */
+function collectImages(resources: PDFDict | undefined, context: PDFContext, seenForms: Set<string>, images: PDFRef[]): void {
+  const xobjects = resources?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+  for (const value of xobjects?.values() ?? []) {
+    if (!(value instanceof PDFRef)) continue;
+    const xobject = context.lookup(value);
+    if (!(xobject instanceof PDFRawStream)) continue;
+    const subtype = xobject.dict.get(PDFName.of("Subtype"))?.toString();
+    if (subtype === "/Image") {
+      images.push(value);
+    } else if (subtype === "/Form" && !seenForms.has(value.toString())) {
+      seenForms.add(value.toString());
+      collectImages(xobject.dict.lookupMaybe(PDFName.of("Resources"), PDFDict), context, seenForms, images);
+    }
+  }
+}
+
+/**
+ * Bring the over-limit CMYK images of a PDF within `maxTAC` through the device link
+ */
+export async function limitImageTAC(options: ImageTACOptions): Promise<ImageTACResult> {
+  const startTime = performance.now();
+  const { input, output, maxTAC, deviceLink } = options;
+  const skipped: string[] = [];
+  const failure = (error: string): ImageTACResult => ({
+    success: false,
+    inputPath: input,
+    outputPath: output,
+    duration: performance.now() - startTime,
+    imagesChanged: 0,
+    pagesChanged: [],
+    skipped,
+    error,
+  });
+
+  if (!existsSync(input)) {
+    return failure(`Input file not found: ${input}`);
+  }
+
+  const tempRoot = options.tempDir ?? join(dirname(output), "temp");
+  mkdirSync(tempRoot, { recursive: true });
+  const scratchDir = mkdtempSync(join(tempRoot, "images-"));
+
+  try {
+    // Keep the producer and dates: they must stay in sync with the PDF/X XMP metadata
+    const doc = await PDFDocument.load(readFileSync(input), { updateMetadata: false });
+    const context = doc.context;
+    const pages = options.pages ?? doc.getPages().map((_, i) => i + 1);
+
+    // Decide once per image (images are often shared between pages)
+    const changed = new Map<string, boolean>();
+    const pagesChanged: number[] = [];
+
+    for (const pageNumber of pages) {
+      const page = doc.getPages()[pageNumber - 1];
+      if (!page) continue;
+      const images: PDFRef[] = [];
+      collectImages(page.node.Resources(), context, new Set(), images);
+
+      for (const ref of images) {
+        const key = ref.toString();
+        if (!changed.has(key)) {
+          changed.set(key, await limitImage(ref, context, options, join(scratchDir, `image-${changed.size}`), skipped));
+        }
+        if (changed.get(key) && !pagesChanged.includes(pageNumber)) {
+          pagesChanged.push(pageNumber);
+        }
+      }
+    }
+
+    const imagesChanged = [...changed.values()].filter(Boolean).length;
+    mkdirSync(dirname(output), { recursive: true });
+    // No object streams: PDF/X-1a is PDF 1.3
+    writeFileSync(output, await doc.save({ useObjectStreams: false }));
+
+    return {
+      success: true,
+      inputPath: input,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      imagesChanged,
+      pagesChanged,
+      skipped,
+    };
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : String(error));
+  } finally {
+    rmSync(scratchDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Transform one image if it is over the limit; returns whether it was replaced
+ */
+async function limitImage(
+  ref: PDFRef,
+  context: PDFContext,
+  options: ImageTACOptions,
+  scratch: string,
+  skipped: string[]
+): Promise<boolean> {
+  const image = context.lookup(ref);
+  if (!(image instanceof PDFRawStream)) return false;
+
+  let raster: CmykRaster;
+  try {
+    raster = await decodeImage(image, context, scratch);
+  } catch (error) {
+    // Non-CMYK images can't carry CMYK TAC; only report the ones we might have needed
+    const reason = error instanceof Error ? error.message : String(error);
+    if (reason !== "not a CMYK image") {
+      skipped.push(`image ${ref.objectNumber}: ${reason}`);
+    }
+    return false;
+  }
+
+  if (measureRaster(raster, options.maxTAC).maxTAC <= options.maxTAC) {
+    return false;
+  }
+
+  writeFileSync(`${scratch}-in.tif`, writeCmykTiff(raster));
+  let limited: CmykRaster;
+  try {
+    await $`tificc -l ${options.deviceLink} ${scratch}-in.tif ${scratch}-out.tif`.quiet();
+    limited = await readTiffFile(`${scratch}-out.tif`);
+  } catch (error) {
+    skipped.push(`image ${ref.objectNumber}: tificc failed (${error instanceof Error ? error.message : error})`);
+    return false;
+  }
+  if (limited.width !== raster.width || limited.height !== raster.height) {
+    skipped.push(`image ${ref.objectNumber}: tificc changed the size to ${limited.width}×${limited.height}`);
+    return false;
+  }
+
+  const dict = image.dict.clone(context);
+  dict.set(PDFName.of("Filter"), PDFName.of("FlateDecode"));
+  dict.delete(PDFName.of("DecodeParms"));
+  context.assign(ref, PDFRawStream.of(dict, deflateSync(limited.data)));
+  return true;
+}
+
+// CLI
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const [input, output] = args.filter((a) => !a.startsWith("--") && a.endsWith(".pdf"));
+  const deviceLink = args.find((_, i) => args[i - 1] === "--device-link");
+  const maxTAC = parseInt(args.find((_, i) => args[i - 1] === "--max-tac") || "240", 10);
+
+  if (!input || !output || !deviceLink) {
+    console.error("Usage: bun run scripts/image-tac.ts <input.pdf> <output.pdf> --device-link <link.icc> [--max-tac 240]");
+    process.exit(1);
+  }
+
+  const result = await limitImageTAC({ input, output, maxTAC, deviceLink });
+  if (!result.success) {
+    console.error(`❌ Image TAC limiting failed: ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`✅ ${result.imagesChanged} image(s) limited to ${maxTAC}% TAC: ${result.outputPath}`);
+  if (result.pagesChanged.length > 0) {
+    console.log(`   Pages: ${result.pagesChanged.join(", ")}`);
+  }
+  for (const reason of result.skipped) {
+    console.log(`   ⚠️  Skipped ${reason}`);
+  }
+}
@@ -0,0 +1,185 @@
+#!/usr/bin/env bun
+/**
+ * Job Pool
+ * Runs a dependency graph of pipeline jobs (builds, Ghostscript conversions,
+ * TAC limiting, validation) with a bounded number running at once. Each job
+ * gets its own temp directory so parallel jobs never share scratch files.
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+/** Parent of every job's temp directory */
+export const DEFAULT_TEMP_ROOT = join(ROOT, "output", "temp");
+
+export interface Job {
+  /** Unique within a graph, e.g. "pagedjs:build" */
+  id: string;
+  /** Jobs that must finish successfully before this one starts */
+  deps?: string[];
+  /** Run once dependencies settle even if one failed (e.g. a report over whatever finished) */
+  always?: boolean;
+  /** Do the work; `tempDir` is empty, private to this job and removed afterwards */
+  run(tempDir: string): Promise<void>;
+}
+
+export interface JobOutcome {
+  id: string;
+  /** "skipped" means a dependency failed or was skipped */
+  status: "done" | "failed" | "skipped";
+  duration: number;
+  error?: string;
+}
+
+/**
+ * A counting semaphore shared by every graph that should count against the
+ * same limit (e.g. all projects in one run-all invocation)
+ */
+export interface JobPool {
+  concurrency: number;
+  /** Wait for a free slot; call the returned function to release it */
+  acquire(): Promise<() => void>;
+}
+
+export function createJobPool(concurrency: number = 1): JobPool {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer (got ${concurrency})`);
+  }
+
+  let running = 0;
+  const waiting: Array<() => void> = [];
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  return {
+    concurrency,
+    acquire: () =>
+      new Promise((resolve) => {
+        if (running < concurrency) {
+          running++;
+          resolve(release);
+        } else {
+          waiting.push(() => resolve(release));
+        }
+      }),
+  };
+}
+
+/**
+ * Parse a --concurrency value
+ */
+export function parseConcurrency(value: string | undefined): number {
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`--concurrency expects a positive integer (got "${value}")`);
+  }
+  return concurrency;
+}
+
+/**
+ * Reject unknown dependencies and cycles before anything runs
+ */
+function checkGraph(jobs: Job[]): void {
+  const byId = new Map<string, Job>();
+  for (const job of jobs) {
+    if (byId.has(job.id)) {
+      throw new Error(`Duplicate job id "${job.id}"`);
+    }
+    byId.set(job.id, job);
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (job: Job, path: string[]) => {
+    if (visited.has(job.id)) return;
+    if (visiting.has(job.id)) {
+      throw new Error(`Job dependency cycle: ${[...path, job.id].join(" -> ")}`);
+    }
+    visiting.add(job.id);
+    for (const dep of job.deps ?? []) {
+      const depJob = byId.get(dep);
+      if (!depJob) {
+        throw new Error(`Job "${job.id}" depends on unknown job "${dep}"`);
+      }
+      visit(depJob, [...path, job.id]);
+    }
+    visiting.delete(job.id);
+    visited.add(job.id);
+  };
+
+  for (const job of jobs) {
+    visit(job, []);
+  }
+}
+
+/**
+ * Run a job graph. Jobs start as soon as their dependencies are done and a
+ * pool slot is free; a job whose dependency failed is skipped unless it is
+ * marked `always`. Never throws for a failing job: the error is recorded in
+ * its outcome.
+ */
+export async function runJobGraph(
+  jobs: Job[],
+  options: { pool?: JobPool; tempRoot?: string; keepTemp?: boolean } = {}
+): Promise<Record<string, JobOutcome>> {
+  checkGraph(jobs);
+
+  const { pool = createJobPool(1), tempRoot = DEFAULT_TEMP_ROOT, keepTemp = false } = options;
+  if (!existsSync(tempRoot)) {
+    mkdirSync(tempRoot, { recursive: true });
+  }
+
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+  const pending = new Map<string, Promise<JobOutcome>>();
+
+  const schedule = (job: Job): Promise<JobOutcome> => {
+    const existing = pending.get(job.id);
+    if (existing) return existing;
+
+    const outcome = (async (): Promise<JobOutcome> => {
+      const depOutcomes = await Promise.all((job.deps ?? []).map((dep) => schedule(byId.get(dep)!)));
+      const blocked = depOutcomes.find((dep) => dep.status !== "done");
+      if (blocked && !job.always) {
+        return { id: job.id, status: "skipped", duration: 0, error: `${blocked.id} ${blocked.status}` };
+      }
+
+      const release = await pool.acquire();
+      const startTime = performance.now();
+      const tempDir = mkdtempSync(join(tempRoot, `${job.id.replace(/[^A-Za-z0-9_-]+/g, "-")}-`));
+      try {
+        await job.run(tempDir);
+        return { id: job.id, status: "done", duration: performance.now() - startTime };
+      } catch (error) {
+        return {
+          id: job.id,
+          status: "failed",
+          duration: performance.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      } finally {
+        if (!keepTemp) {
+          rmSync(tempDir, { recursive: true, force: true });
+        }
+        release();
+      }
+    })();
+
+    pending.set(job.id, outcome);
+    return outcome;
+  };
+
+  const outcomes = await Promise.all(jobs.map(schedule));
+  return Object.fromEntries(outcomes.map((outcome) => [outcome.id, outcome]));
+}
@@ -3,21 +3,45 @@
  * TAC (Total Area Coverage) Limiting Script
  *
  * Reduces PDF ink coverage to meet DriveThruRPG requirements (≤240% TAC).
- * Uses TIFF pipeline:
+ * Each page is measured first. Flat CMYK colours on pages over the limit are
+ * lowered in place (vector-tac.ts), then over-limit images are run through the
+ * device link and re-embedded (image-tac.ts); pages still over the limit after
+ * that (shadings, unsupported images) go through the TIFF pipeline:
  * 1. Render PDF pages to CMYK TIFF using Ghostscript
- * 2. Apply TAC-limiting ICC device-link profile using lcms2's tificc
+ * 2. Apply a TAC-limiting device link, built from the same output profile
+ *    convert-pdfx.ts embeds, using lcms2's tificc
  * 3. Reassemble pages into PDF using img2pdf
+ * Compliant pages are split out of the original with pdfseparate and keep their
+ * text and vector art; pdfunite splices everything back together in page order.
  *
  * Requirements:
  *   - Ghostscript (gs)
  *   - lcms2-utils (tificc, linkicc)
  *   - img2pdf (pip install img2pdf)
- *   - pdfunite (poppler-utils)
+ *   - pdfseparate, pdfunite (poppler-utils)
  */
 
 import { $ } from "bun";
-import { existsSync, mkdirSync, readdirSync, unlinkSync, rmdirSync } from "node:fs";
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  rmdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
 import { join, dirname, basename } from "node:path";
+import { analyzeTAC, type TACAnalysis } from "./tac-analyzer.ts";
+import { LOGS_DIR } from "./diagnostics.ts";
+import { reduceVectorTAC } from "./vector-tac.ts";
+import { limitImageTAC } from "./image-tac.ts";
+import { createJobPool } from "./job-pool.ts";
+import { loadOutputProfile, type ProfileInfo } from "./icc-profile.ts";
+import { copyPdfxMetadata } from "./pdfx-metadata.ts";
+import { copyPageBoxes } from "./page-boxes.ts";
 
 const SCRIPT_DIR = dirname(import.meta.url.replace("file://", ""));
 const ROOT = join(SCRIPT_DIR, "..");
@@ -30,6 +54,20 @@ interface LimitTACOptions {
   verify?: boolean;
   verbose?: boolean;
   keepTemp?: boolean;
+  /** Rasterize every page, not just the ones over the limit */
+  allPages?: boolean;
+  /** Output profile the device link is built from (default: the one convert-pdfx.ts embeds) */
+  iccProfile?: string;
+  /** Pages rasterized at once (default: 1) */
+  workers?: number;
+  /** Keep the original page when rasterizing it fails (default: true); otherwise the run fails */
+  fallbackToOriginal?: boolean;
+  /** Lower flat CMYK colours before rasterizing what is still over the limit (default: true) */
+  vector?: boolean;
+  /** Limit over-limit images in place before rasterizing what is still over the limit (default: true) */
+  images?: boolean;
+  /** Parent directory for scratch files (default: output/temp); give each parallel run its own */
+  tempDir?: string;
 }
 
 interface LimitTACResult {
@@ -38,11 +76,65 @@ interface LimitTACResult {
   outputPath: string;
   duration: number;
   beforeTAC?: number;
+  /** Highest per-pixel TAC measured in the output: the limit actually achieved */
   afterTAC?: number;
+  /** Profile the device link was built from */
+  outputProfile?: Pick<ProfileInfo, "name" | "path" | "checksum">;
   pageCount?: number;
+  /** Pages replaced by a TAC-limited raster image (their text and vector art are gone) */
+  rasterizedPages?: number[];
+  /** Pages that could not be rasterized (kept as original pages when `fallbackToOriginal` is set) */
+  failedPages?: PageFailure[];
+  /** Colour operators lowered by the vector pass */
+  colorsChanged?: number;
+  /** Images run through the device link by the image pass */
+  imagesChanged?: number;
   error?: string;
 }
 
+export interface PageFailure {
+  page: number;
+  /** Pipeline step that failed: Ghostscript render, tificc limiting or img2pdf embedding */
+  step: "render" | "limit" | "embed";
+  error: string;
+}
+
+class PageError extends Error {
+  constructor(
+    readonly step: PageFailure["step"],
+    cause: unknown
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+  }
+}
+
+/**
+ * Record of the rasterized pages for a TAC-limited PDF (e.g. output/book/logs/pagedjs-pdfx.rasterized.json),
+ * read back by the comparison report
+ */
+export function rasterizedPagesPathFor(pdfPath: string): string {
+  return join(dirname(pdfPath), LOGS_DIR, `${basename(pdfPath, ".pdf")}.rasterized.json`);
+}
+
+export function saveRasterizedPages(pdfPath: string, pages: number[]): void {
+  const path = rasterizedPagesPathFor(pdfPath);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(pages) + "\n", "utf-8");
+}
+
+/**
+ * Rasterized pages saved for a PDF, or an empty list if it was never TAC-limited
+ */
+export function loadRasterizedPages(pdfPath: string): number[] {
+  const path = rasterizedPagesPathFor(pdfPath);
+  if (!existsSync(path)) return [];
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as number[];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Check if required dependencies are available
  */
@@ -77,63 +169,25 @@ async function checkDependencies(): Promise<{ ok: boolean; missing: string[] }>
     missing.push("img2pdf (pip install img2pdf)");
   }
 
-  // Check pdfunite (poppler-utils)
-  try {
-    await $`which pdfunite`.quiet();
-  } catch {
-    missing.push("poppler-utils (pdfunite)");
-  }
-
-  return { ok: missing.length === 0, missing };
-}
-
-/**
- * Get page count from PDF
- */
-async function getPageCount(pdfPath: string): Promise<number> {
-  try {
-    const result = await $`pdfinfo ${pdfPath}`.text();
-    const match = result.match(/Pages:\s+(\d+)/);
-    return match ? parseInt(match[1], 10) : 0;
-  } catch {
-    // Fallback: use Ghostscript
+  // Check pdfseparate and pdfunite (poppler-utils)
+  for (const tool of ["pdfseparate", "pdfunite"]) {
     try {
-      const result = await $`gs -q -dNODISPLAY -dNOSAFER -c "(${pdfPath}) (r) file runpdfbegin pdfpagecount = quit"`.text();
-      return parseInt(result.trim(), 10) || 0;
+      await $`which ${tool}`.quiet();
     } catch {
-      return 0;
+      missing.push(`poppler-utils (${tool})`);
     }
   }
+
+  return { ok: missing.length === 0, missing };
 }
 
 /**
- * Measure TAC using Ghostscript inkcov device
+ * Measure per-pixel TAC (inkcov only reports page averages, which hide the dense spots printers limit)
  */
-async function measureTAC(pdfPath: string): Promise<{ maxTAC: number; avgTAC: number }> {
+async function measureTAC(pdfPath: string, tempDir?: string): Promise<{ maxTAC: number; avgTAC: number }> {
   try {
-    const result = await $`gs -o - -sDEVICE=inkcov ${pdfPath}`.text();
-
-    const tacs: number[] = [];
-    for (const line of result.split("\n")) {
-      const match = line.match(/(\d+\.\d+)\s+(\d+\.\d+)\s+(\d+\.\d+)\s+(\d+\.\d+)\s+CMYK/);
-      if (match) {
-        const [, c, m, y, k] = match.map(parseFloat);
-        const tac = (c + m + y + k) * 100;
-        tacs.push(tac);
-      }
-    }
-
-    if (tacs.length === 0) {
-      return { maxTAC: 0, avgTAC: 0 };
-    }
-
-    const maxTAC = Math.max(...tacs);
-    const avgTAC = tacs.reduce((a, b) => a + b, 0) / tacs.length;
-
-    return {
-      maxTAC: Math.round(maxTAC * 10) / 10,
-      avgTAC: Math.round(avgTAC * 10) / 10,
-    };
+    const analysis = await analyzeTAC(pdfPath, { tempDir });
+    return { maxTAC: analysis.maxTAC, avgTAC: analysis.averageTAC };
   } catch (error) {
     console.error(`  Warning: Could not measure TAC: ${error}`);
     return { maxTAC: 0, avgTAC: 0 };
@@ -141,44 +195,103 @@ async function measureTAC(pdfPath: string): Promise<{ maxTAC: number; avgTAC: nu
 }
 
 /**
- * Create TAC-limited ICC device-link profile
+ * Create a TAC-limiting device link from the output profile to itself, so
+ * limited pixels stay in the printing condition declared in the OutputIntent
  */
-async function createTACProfile(maxTAC: number, outputDir: string): Promise<string> {
+async function createTACProfile(maxTAC: number, outputDir: string, outputProfile: ProfileInfo): Promise<string> {
   const profilePath = join(outputDir, `cmyk-tac${maxTAC}.icc`);
 
   if (existsSync(profilePath)) {
     return profilePath;
   }
 
-  console.log(`   Creating TAC-limiting ICC profile (${maxTAC}%)...`);
+  console.log(`   Creating TAC-limiting device link (${outputProfile.name}, ${maxTAC}%)...`);
 
-  // Find system CMYK profile
-  const cmykProfiles = [
-    "/usr/share/color/icc/ghostscript/default_cmyk.icc",
-    "/usr/share/ghostscript/iccprofiles/default_cmyk.icc",
-    "/usr/share/color/icc/ghostscript/ps_cmyk.icc",
-  ];
+  // Create device-link profile with TAC limit
+  await $`linkicc -o ${profilePath} -k"${maxTAC}" -d "${outputProfile.name} with ${maxTAC}% TAC limit" ${outputProfile.path} ${outputProfile.path}`.quiet();
+
+  return profilePath;
+}
 
-  let cmykProfile: string | undefined;
-  for (const p of cmykProfiles) {
-    if (existsSync(p)) {
-      cmykProfile = p;
-      break;
+/**
+ * Render one page to CMYK, apply the TAC device link and wrap it as a one-page PDF (tempDir/pdf/page-NNNN.pdf)
+ */
+async function rasterizePage(
+  page: number,
+  options: { source: string; dpi: number; deviceLink: string; tempDir: string; keepTemp: boolean }
+): Promise<void> {
+  const { source, dpi, deviceLink, tempDir, keepTemp } = options;
+  const pageStr = page.toString().padStart(4, "0");
+  const tiffFile = join(tempDir, "tiff", `page-${pageStr}.tif`);
+  const tacFile = join(tempDir, "tac", `page-${pageStr}.tif`);
+  const pdfFile = join(tempDir, "pdf", `page-${pageStr}.pdf`);
+
+  const step = async (name: PageFailure["step"], run: () => Promise<unknown>) => {
+    try {
+      await run();
+    } catch (error) {
+      throw new PageError(name, error);
     }
-  }
+  };
+
+  // Step 1: Render page to CMYK TIFF
+  await step("render", () =>
+    $`gs -dNOPAUSE -dBATCH -dQUIET -sDEVICE=tiff32nc -r${dpi} -dFirstPage=${page} -dLastPage=${page} -sOutputFile=${tiffFile} ${source}`.quiet()
+  );
+
+  // Step 2: Apply TAC limiting with tificc
+  await step("limit", () => $`tificc -l ${deviceLink} ${tiffFile} ${tacFile}`.quiet());
 
-  if (!cmykProfile) {
-    throw new Error("No CMYK ICC profile found on system");
+  // Step 3: Convert TIFF to PDF
+  await step("embed", () => $`img2pdf ${tacFile} -o ${pdfFile}`.quiet());
+
+  // Clean up TIFFs to save space
+  if (!keepTemp) {
+    unlinkSync(tiffFile);
+    unlinkSync(tacFile);
   }
+}
 
-  // Create device-link profile with TAC limit
-  await $`linkicc -o ${profilePath} -k"${maxTAC}" -d "CMYK with ${maxTAC}% TAC limit" ${cmykProfile} ${cmykProfile}`.quiet();
+/** limitTAC calls rasterizing right now (batch-process runs several at once with --concurrency) */
+let activeRuns = 0;
 
-  return profilePath;
+/**
+ * Page progress with an ETA from the average time per finished page. Redrawn in
+ * place on a terminal when this is the only run; otherwise (parallel runs, logs
+ * piped to a file) a plain line per 10% so runs don't overwrite each other
+ */
+function createProgress(total: number, label: string): { tick(): void; finish(): void } {
+  const startTime = performance.now();
+  let done = 0;
+  let drawn = false;
+  return {
+    tick() {
+      done++;
+      const elapsed = performance.now() - startTime;
+      const remaining = Math.round(((elapsed / done) * (total - done)) / 1000);
+      const eta = remaining >= 60 ? `${Math.floor(remaining / 60)}m${(remaining % 60).toString().padStart(2, "0")}s` : `${remaining}s`;
+      const line = `Page ${done}/${total} (${Math.round((done / total) * 100)}%)${done < total ? `, ETA ${eta}` : ""}`;
+      if (process.stdout.isTTY && activeRuns === 1) {
+        process.stdout.write(`\r   ${line}   `);
+        drawn = true;
+        return;
+      }
+      if (drawn) {
+        process.stdout.write("\n");
+        drawn = false;
+      }
+      if (done === total || Math.floor((done * 10) / total) > Math.floor(((done - 1) * 10) / total)) {
+        console.log(`   ${label}: ${line}`);
+      }
+    },
+    finish() {
+      if (drawn) process.stdout.write("\n");
+    },
+  };
 }
 
 /**
- * Limit TAC in a PDF using TIFF pipeline
+ * Limit TAC in a PDF, rasterizing only the pages over the limit (or every page with `allPages`)
  */
 export async function limitTAC(options: LimitTACOptions): Promise<LimitTACResult> {
   const startTime = performance.now();
@@ -190,6 +303,11 @@ export async function limitTAC(options: LimitTACOptions): Promise<LimitTACResult
     verify = true,
     verbose = false,
     keepTemp = false,
+    allPages = false,
+    vector = true,
+    images = true,
+    workers = 1,
+    fallbackToOriginal = true,
   } = options;
 
   const log = (msg: string) => verbose && console.log(`   ${msg}`);
@@ -222,96 +340,202 @@ export async function limitTAC(options: LimitTACOptions): Promise<LimitTACResult
     };
   }
 
-  // Measure TAC before
-  let beforeTAC: number | undefined;
-  if (verify) {
-    console.log(`   Measuring TAC before conversion...`);
-    const before = await measureTAC(input);
-    beforeTAC = before.maxTAC;
-    console.log(`   Before: Max TAC = ${beforeTAC}%`);
+  // Limit within the same printing condition the PDF/X declares
+  let outputProfile: ProfileInfo;
+  try {
+    outputProfile = loadOutputProfile(options.iccProfile);
+  } catch (error) {
+    return {
+      success: false,
+      inputPath: input,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  const inkLimit = outputProfile.maxTAC !== undefined ? `ink limit ${outputProfile.maxTAC}%, ` : "";
+  console.log(`   Profile: ${outputProfile.name} (${inkLimit}sha256 ${outputProfile.checksum.slice(0, 12)}…)`);
+
+  // Measure every page to find the ones that need limiting
+  console.log(`   Measuring TAC per page...`);
+  let analysis: TACAnalysis;
+  try {
+    analysis = await analyzeTAC(input, { limit: maxTAC, tempDir: options.tempDir });
+  } catch (error) {
+    return {
+      success: false,
+      inputPath: input,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      error: `Could not measure TAC: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+  const pageCount = analysis.pageCount;
+  const beforeTAC = analysis.maxTAC;
+  const pagesOver = (a: TACAnalysis) => a.perPage.filter((p) => p.maxTAC > maxTAC).map((p) => p.page);
+  let overLimit = pagesOver(analysis);
+  console.log(`   Before: Max TAC = ${beforeTAC}%`);
+  console.log(`   Pages over ${maxTAC}%: ${overLimit.length > 0 ? overLimit.join(", ") : "none"} (of ${pageCount})`);
+
+  // Ensure output directory exists
+  const outputDir = dirname(output);
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
   }
 
   // Create temp directory
-  const tempDir = join(ROOT, "output", "temp", `tac-${Date.now()}`);
+  const tempDir = join(options.tempDir ?? join(ROOT, "output", "temp"), `tac-${Date.now()}`);
   mkdirSync(join(tempDir, "tiff"), { recursive: true });
   mkdirSync(join(tempDir, "tac"), { recursive: true });
   mkdirSync(join(tempDir, "pdf"), { recursive: true });
+  mkdirSync(join(tempDir, "orig"), { recursive: true });
+  mkdirSync(join(tempDir, "vector"), { recursive: true });
 
   try {
-    // Create ICC profile
-    const iccProfile = await createTACProfile(maxTAC, tempDir);
-
-    // Get page count
-    const pageCount = await getPageCount(input);
-    console.log(`   Processing ${pageCount} pages...`);
-
-    // Process each page
-    let processed = 0;
-    let failed = 0;
-
-    for (let page = 1; page <= pageCount; page++) {
-      const pageStr = page.toString().padStart(4, "0");
-      const tiffFile = join(tempDir, "tiff", `page-${pageStr}.tif`);
-      const tacFile = join(tempDir, "tac", `page-${pageStr}.tif`);
-      const pdfFile = join(tempDir, "pdf", `page-${pageStr}.pdf`);
-
-      process.stdout.write(`\r   Processing page ${page}/${pageCount}...`);
-
-      try {
-        // Step 1: Render page to CMYK TIFF
-        await $`gs -dNOPAUSE -dBATCH -dQUIET -sDEVICE=tiff32nc -r${dpi} -dFirstPage=${page} -dLastPage=${page} -sOutputFile=${tiffFile} ${input}`.quiet();
-
-        // Step 2: Apply TAC limiting with tificc
-        try {
-          await $`tificc -l ${iccProfile} ${tiffFile} ${tacFile}`.quiet();
-        } catch {
-          log(`tificc failed for page ${page}, using original`);
-          await $`cp ${tiffFile} ${tacFile}`.quiet();
-        }
-
-        // Step 3: Convert TIFF to PDF
-        await $`img2pdf ${tacFile} -o ${pdfFile}`.quiet();
+    // Lower flat colours first; whatever is still over the limit gets rasterized from that PDF
+    let source = input;
+    let colorsChanged = 0;
+    if (vector && !allPages && overLimit.length > 0) {
+      console.log(`   Lowering flat CMYK colours...`);
+      const vectorResult = await reduceVectorTAC({ input, output: join(tempDir, "vector", "page-colors.pdf"), maxTAC });
+      if (!vectorResult.success) {
+        log(`Vector pass failed, rasterizing instead: ${vectorResult.error}`);
+      } else if (vectorResult.colorsChanged > 0) {
+        source = vectorResult.outputPath;
+        colorsChanged = vectorResult.colorsChanged;
+        analysis = await analyzeTAC(source, { limit: maxTAC, tempDir: options.tempDir });
+        overLimit = pagesOver(analysis);
+        console.log(
+          `   Lowered ${colorsChanged} colour(s) on page(s) ${vectorResult.pagesChanged.join(", ")}; still over ${maxTAC}%: ${overLimit.length > 0 ? overLimit.join(", ") : "none"}`
+        );
+      }
+    }
 
-        // Clean up TIFFs to save space
-        if (!keepTemp) {
-          unlinkSync(tiffFile);
-          unlinkSync(tacFile);
-        }
+    // Then the images on the pages still over the limit
+    let imagesChanged = 0;
+    if (images && !allPages && overLimit.length > 0) {
+      console.log(`   Limiting images...`);
+      const imageResult = await limitImageTAC({
+        input: source,
+        output: join(tempDir, "vector", "page-images.pdf"),
+        maxTAC,
+        deviceLink: await createTACProfile(maxTAC, tempDir, outputProfile),
+        pages: overLimit,
+        tempDir,
+      });
+      for (const reason of imageResult.skipped) {
+        log(`Skipped ${reason}`);
+      }
+      if (!imageResult.success) {
+        log(`Image pass failed, rasterizing instead: ${imageResult.error}`);
+      } else if (imageResult.imagesChanged > 0) {
+        source = imageResult.outputPath;
+        imagesChanged = imageResult.imagesChanged;
+        analysis = await analyzeTAC(source, { limit: maxTAC, tempDir: options.tempDir });
+        overLimit = pagesOver(analysis);
+        console.log(
+          `   Limited ${imagesChanged} image(s) on page(s) ${imageResult.pagesChanged.join(", ")}; still over ${maxTAC}%: ${overLimit.length > 0 ? overLimit.join(", ") : "none"}`
+        );
+      }
+    }
+    const targets = allPages ? analysis.perPage.map((p) => p.page) : overLimit;
 
-        processed++;
-      } catch (error) {
-        log(`Failed to process page ${page}: ${error}`);
-        failed++;
+    if (targets.length === 0) {
+      copyFileSync(source, output);
+      saveRasterizedPages(output, []);
+      if (!keepTemp) {
+        rmSync(tempDir, { recursive: true, force: true });
       }
+      const duration = performance.now() - startTime;
+      console.log(`   ✅ All pages within ${maxTAC}% TAC, kept as vectors`);
+      console.log(`   ⏱️  Duration: ${(duration / 1000).toFixed(2)}s`);
+      return {
+        success: true,
+        inputPath: input,
+        outputPath: output,
+        duration,
+        beforeTAC,
+        afterTAC: analysis.maxTAC,
+        pageCount,
+        rasterizedPages: [],
+        colorsChanged,
+        imagesChanged,
+        outputProfile: { name: outputProfile.name, path: outputProfile.path, checksum: outputProfile.checksum },
+      };
     }
 
-    console.log(`\n   Processed ${processed} pages (${failed} failed)`);
+    // Create ICC profile
+    const deviceLink = await createTACProfile(maxTAC, tempDir, outputProfile);
+
+    console.log(`   Rasterizing ${targets.length} of ${pageCount} pages (${workers} worker${workers === 1 ? "" : "s"})...`);
 
-    // Step 4: Merge all page PDFs
-    console.log(`   Merging pages...`);
-    const pdfFiles = readdirSync(join(tempDir, "pdf"))
-      .filter((f) => f.endsWith(".pdf"))
-      .sort()
-      .map((f) => join(tempDir, "pdf", f));
+    // Pages are independent: run them through the pool and put them back in page order when merging
+    const pool = createJobPool(workers);
+    const rasterized = new Set<number>();
+    const failedPages: PageFailure[] = [];
+    const progress = createProgress(targets.length, basename(input));
 
-    if (pdfFiles.length === 0) {
-      throw new Error("No pages were successfully processed");
+    activeRuns++;
+    try {
+      await Promise.all(
+        targets.map(async (page) => {
+          const release = await pool.acquire();
+          try {
+            await rasterizePage(page, { source, dpi, deviceLink, tempDir, keepTemp });
+            rasterized.add(page);
+          } catch (error) {
+            const failure = error instanceof PageError ? error : new PageError("render", error);
+            failedPages.push({ page, step: failure.step, error: failure.message });
+            log(`Failed to ${failure.step} page ${page}: ${failure.message}`);
+          } finally {
+            release();
+            progress.tick();
+          }
+        })
+      );
+    } finally {
+      activeRuns--;
+      progress.finish();
+    }
+    const rasterizedPages = [...rasterized].sort((a, b) => a - b);
+    failedPages.sort((a, b) => a.page - b.page);
+
+    console.log(`   Rasterized ${rasterizedPages.length} pages (${failedPages.length} failed)`);
+    for (const failure of failedPages) {
+      console.log(`   ⚠️  Page ${failure.page}: ${failure.step} failed (${failure.error})${fallbackToOriginal ? ", kept the original page" : ""}`);
+    }
+    if (failedPages.length > 0 && !fallbackToOriginal) {
+      throw new Error(`${failedPages.length} page(s) failed: ${failedPages.map((f) => f.page).join(", ")}`);
     }
 
-    // Ensure output directory exists
-    const outputDir = dirname(output);
-    if (!existsSync(outputDir)) {
-      mkdirSync(outputDir, { recursive: true });
+    if (rasterizedPages.length === 0) {
+      throw new Error("No pages were successfully processed");
     }
 
-    // Use pdfunite to merge
+    // Step 4: Splice the rasterized pages in among the original ones
+    console.log(`   Merging pages...`);
+    if (rasterizedPages.length < pageCount) {
+      await $`pdfseparate ${source} ${join(tempDir, "orig", "page-%d.pdf")}`.quiet();
+    }
+    const pdfFiles = Array.from({ length: pageCount }, (_, i) =>
+      rasterizedPages.includes(i + 1)
+        ? join(tempDir, "pdf", `page-${(i + 1).toString().padStart(4, "0")}.pdf`)
+        : join(tempDir, "orig", `page-${i + 1}.pdf`)
+    );
+
+    // Use pdfunite to merge; it rebuilds the document, so restore the PDF/X OutputIntent and Info keys,
+    // and the rasterized pages need their TrimBox and BleedBox back
     await $`pdfunite ${pdfFiles} ${output}`.quiet();
+    await copyPageBoxes(input, output);
+    await copyPdfxMetadata(input, output);
+    saveRasterizedPages(output, rasterizedPages);
+    console.log(`   📄 Rasterized pages: ${rasterizedPages.join(", ")} (text and vector art on these pages is now an image)`);
 
     // Measure TAC after
     let afterTAC: number | undefined;
     if (verify && existsSync(output)) {
       console.log(`   Measuring TAC after conversion...`);
-      const after = await measureTAC(output);
+      const after = await measureTAC(output, options.tempDir);
       afterTAC = after.maxTAC;
       console.log(`   After:  Max TAC = ${afterTAC}%`);
 
@@ -327,7 +551,7 @@ export async function limitTAC(options: LimitTACOptions): Promise<LimitTACResult
     // Cleanup
     if (!keepTemp) {
       // Remove remaining files
-      for (const dir of ["tiff", "tac", "pdf"]) {
+      for (const dir of ["tiff", "tac", "pdf", "orig", "vector"]) {
         const dirPath = join(tempDir, dir);
         if (existsSync(dirPath)) {
           for (const f of readdirSync(dirPath)) {
@@ -353,6 +577,11 @@ export async function limitTAC(options: LimitTACOptions): Promise<LimitTACResult
       beforeTAC,
       afterTAC,
       pageCount,
+      rasterizedPages,
+      failedPages,
+      colorsChanged,
+      imagesChanged,
+      outputProfile: { name: outputProfile.name, path: outputProfile.path, checksum: outputProfile.checksum },
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -383,6 +612,9 @@ TAC Limiting Tool
 
 Reduces PDF Total Area Coverage (TAC) to meet print requirements.
 Uses TIFF pipeline with lcms2 device-link profiles for per-pixel TAC limiting.
+Flat CMYK colours are lowered and over-limit images transformed in place first;
+only pages still over the limit are rasterized, the others keep their text and
+vector art.
 
 Usage:
   bun run limit-tac.ts <input.pdf> [output.pdf] [options]
@@ -390,7 +622,13 @@ Usage:
 Options:
   --max-tac <N>   Maximum TAC percentage (default: 240)
   --dpi <N>       Resolution for TIFF rendering (default: 300)
-  --verify        Measure TAC before and after (default: true)
+  --all-pages     Rasterize every page, not just those over the limit
+  --no-vector     Skip lowering flat CMYK colours before rasterizing
+  --no-images     Skip limiting images in place before rasterizing
+  --icc <path>    Output ICC profile for the device link (default: assets/CGATS21_CRPC1.icc)
+  --workers <N>   Pages rasterized at once (default: 1)
+  --no-fallback   Fail instead of keeping the original page when a page fails
+  --verify        Measure TAC after conversion (default: true)
   --verbose       Show detailed progress
   --keep-temp     Keep temporary files for debugging
   --help          Show this help message
@@ -416,6 +654,12 @@ Requirements:
   const verify = !args.includes("--no-verify");
   const verbose = args.includes("--verbose") || args.includes("-v");
   const keepTemp = args.includes("--keep-temp");
+  const allPages = args.includes("--all-pages");
+  const vector = !args.includes("--no-vector");
+  const images = !args.includes("--no-images");
+  const workers = parseInt(args.find((_, i) => args[i - 1] === "--workers") || "1", 10);
+  const fallbackToOriginal = !args.includes("--no-fallback");
+  const iccProfile = args.find((_, i) => args[i - 1] === "--icc");
 
   if (!input) {
     console.error("Error: No input PDF specified");
@@ -430,6 +674,12 @@ Requirements:
     verify,
     verbose,
     keepTemp,
+    allPages,
+    vector,
+    images,
+    workers,
+    fallbackToOriginal,
+    iccProfile,
   });
 
   if (!result.success) {
@@ -441,6 +691,18 @@ Requirements:
   if (result.beforeTAC && result.afterTAC) {
     console.log(`   TAC: ${result.beforeTAC}% → ${result.afterTAC}%`);
   }
+  if (result.colorsChanged) {
+    console.log(`   Flat colours lowered: ${result.colorsChanged}`);
+  }
+  if (result.imagesChanged) {
+    console.log(`   Images limited: ${result.imagesChanged}`);
+  }
+  if (result.rasterizedPages?.length) {
+    console.log(`   Rasterized pages: ${result.rasterizedPages.join(", ")}`);
+  }
+  if (result.failedPages?.length) {
+    console.log(`   Failed pages (kept original): ${result.failedPages.map((f) => f.page).join(", ")}`);
+  }
   process.exit(0);
 }
 
@@ -0,0 +1,329 @@
+#!/usr/bin/env bun
+/**
+ * Page Boxes
+ * Writes the BleedBox and TrimBox PDF/X requires on every page from the
+ * project's trim size and bleed, and reads the boxes back for validation:
+ * MediaBox ⊇ BleedBox ⊇ TrimBox, the same boxes on every page, and a trim
+ * that matches the print spec.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { PDFArray, PDFDocument, PDFNumber, PDFPage } from "pdf-lib";
+import { loadPrintSpec, type PrintSpec } from "./print-spec.ts";
+
+const POINTS_PER_INCH = 72;
+
+/** Slack for rounding in box coordinates written by other tools, in points */
+const BOX_TOLERANCE = 0.5;
+
+/** A page rectangle in points, normalized so width and height are positive */
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PageBoxes {
+  /** 1-based page number */
+  page: number;
+  media: Box;
+  /** Boxes the page sets explicitly (BleedBox and CropBox default to the MediaBox when absent) */
+  crop?: Box;
+  bleed?: Box;
+  trim?: Box;
+  art?: Box;
+}
+
+export interface PageBoxSummary {
+  /** Boxes of the first page */
+  first: PageBoxes;
+  pageCount: number;
+  /** Pages with neither a TrimBox nor an ArtBox */
+  missingTrim: number[];
+  /** Pages where MediaBox ⊇ BleedBox ⊇ TrimBox does not hold */
+  badNesting: number[];
+  /** Pages whose boxes differ from the first page's */
+  differentPages: number[];
+}
+
+export interface WritePageBoxesResult {
+  success: boolean;
+  outputPath: string;
+  duration: number;
+  pageCount: number;
+  /** Pages whose MediaBox is smaller than the trim; their boxes are clamped to it */
+  undersizedPages: number[];
+  error?: string;
+}
+
+function toBox(array: PDFArray | undefined): Box | undefined {
+  if (!array || array.size() < 4) return undefined;
+  const [x0, y0, x1, y1] = [0, 1, 2, 3].map((i) => array.lookup(i, PDFNumber).asNumber());
+  return { x: Math.min(x0, x1), y: Math.min(y0, y1), width: Math.abs(x1 - x0), height: Math.abs(y1 - y0) };
+}
+
+function contains(outer: Box, inner: Box): boolean {
+  return (
+    inner.x >= outer.x - BOX_TOLERANCE &&
+    inner.y >= outer.y - BOX_TOLERANCE &&
+    inner.x + inner.width <= outer.x + outer.width + BOX_TOLERANCE &&
+    inner.y + inner.height <= outer.y + outer.height + BOX_TOLERANCE
+  );
+}
+
+function sameBox(a: Box | undefined, b: Box | undefined): boolean {
+  if (!a || !b) return a === b;
+  return (
+    Math.abs(a.x - b.x) <= BOX_TOLERANCE &&
+    Math.abs(a.y - b.y) <= BOX_TOLERANCE &&
+    Math.abs(a.width - b.width) <= BOX_TOLERANCE &&
+    Math.abs(a.height - b.height) <= BOX_TOLERANCE
+  );
+}
+
+/**
+ * Box of the given size (in points) centred on `outer` and clamped to it
+ */
+function centeredBox(outer: Box, width: number, height: number): Box {
+  const w = Math.min(width, outer.width);
+  const h = Math.min(height, outer.height);
+  return { x: outer.x + (outer.width - w) / 2, y: outer.y + (outer.height - h) / 2, width: w, height: h };
+}
+
+function readBoxes(page: PDFPage, pageNumber: number): PageBoxes {
+  const node = page.node;
+  return {
+    page: pageNumber,
+    media: toBox(node.MediaBox())!,
+    crop: toBox(node.CropBox()),
+    bleed: toBox(node.BleedBox()),
+    trim: toBox(node.TrimBox()),
+    art: toBox(node.ArtBox()),
+  };
+}
+
+/**
+ * Boxes of every page of a PDF
+ */
+export async function readPageBoxes(pdfPath: string): Promise<PageBoxes[]> {
+  const doc = await PDFDocument.load(readFileSync(pdfPath), { updateMetadata: false });
+  return doc.getPages().map((page, i) => readBoxes(page, i + 1));
+}
+
+/**
+ * The trim PDF/X checks: the TrimBox, or the ArtBox standing in for it
+ */
+export function effectiveTrim(boxes: PageBoxes): Box | undefined {
+  return boxes.trim ?? boxes.art;
+}
+
+/**
+ * The bleed area: the BleedBox, defaulting to the CropBox and then the MediaBox
+ */
+export function effectiveBleed(boxes: PageBoxes): Box {
+  return boxes.bleed ?? boxes.crop ?? boxes.media;
+}
+
+/**
+ * Check nesting and consistency of the boxes across all pages
+ */
+export function summarizePageBoxes(pages: PageBoxes[]): PageBoxSummary | null {
+  if (pages.length === 0) return null;
+  const [first] = pages;
+  const missingTrim: number[] = [];
+  const badNesting: number[] = [];
+  const differentPages: number[] = [];
+
+  for (const boxes of pages) {
+    const trim = effectiveTrim(boxes);
+    const bleed = effectiveBleed(boxes);
+    if (!trim) missingTrim.push(boxes.page);
+    if (!contains(boxes.media, bleed) || (trim && !contains(bleed, trim))) {
+      badNesting.push(boxes.page);
+    }
+    const same = (["media", "bleed", "trim", "art"] as const).every((key) => sameBox(boxes[key], first[key]));
+    if (!same) differentPages.push(boxes.page);
+  }
+
+  return { first, pageCount: pages.length, missingTrim, badNesting, differentPages };
+}
+
+/**
+ * Page numbers for messages, shortened after `max` of them
+ */
+export function formatPageList(pages: number[], max = 10): string {
+  const shown = pages.slice(0, max).join(", ");
+  return pages.length > max ? `${shown} and ${pages.length - max} more` : shown;
+}
+
+/**
+ * Width × height of a box in inches
+ */
+export function boxSizeInches(box: Box): { width: number; height: number } {
+  return { width: box.width / POINTS_PER_INCH, height: box.height / POINTS_PER_INCH };
+}
+
+/**
+ * Width of the bleed around the trim (its narrowest side), in inches
+ */
+export function bleedMarginInches(boxes: PageBoxes): number | undefined {
+  const trim = effectiveTrim(boxes);
+  if (!trim) return undefined;
+  const bleed = effectiveBleed(boxes);
+  return (
+    Math.min(
+      trim.x - bleed.x,
+      trim.y - bleed.y,
+      bleed.x + bleed.width - (trim.x + trim.width),
+      bleed.y + bleed.height - (trim.y + trim.height)
+    ) / POINTS_PER_INCH
+  );
+}
+
+/**
+ * One-line description of a page's box geometry, e.g.
+ * `Media 6.250" × 9.250", Bleed 6.250" × 9.250", Trim 6.000" × 9.000" (0.125" bleed)`
+ */
+export function formatBoxGeometry(boxes: PageBoxes): string {
+  const size = (box: Box) => {
+    const { width, height } = boxSizeInches(box);
+    return `${width.toFixed(3)}" × ${height.toFixed(3)}"`;
+  };
+  const parts = [`Media ${size(boxes.media)}`];
+  if (boxes.bleed) parts.push(`Bleed ${size(boxes.bleed)}`);
+  if (boxes.trim) {
+    parts.push(`Trim ${size(boxes.trim)}`);
+  } else if (boxes.art) {
+    parts.push(`Art ${size(boxes.art)} (no TrimBox)`);
+  } else {
+    parts.push("no TrimBox");
+  }
+  const margin = bleedMarginInches(boxes);
+  if (margin !== undefined) {
+    parts[parts.length - 1] += ` (${margin.toFixed(3)}" bleed)`;
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Write BleedBox and TrimBox on every page: the trim size from the spec,
+ * centred on the MediaBox, with the spec's bleed around it
+ */
+export async function writePageBoxes(options: {
+  input: string;
+  /** Where to write the result (default: overwrite the input) */
+  output?: string;
+  spec: PrintSpec;
+}): Promise<WritePageBoxesResult> {
+  const startTime = performance.now();
+  const { input, output = input, spec } = options;
+  const undersizedPages: number[] = [];
+  const failure = (error: string): WritePageBoxesResult => ({
+    success: false,
+    outputPath: output,
+    duration: performance.now() - startTime,
+    pageCount: 0,
+    undersizedPages,
+    error,
+  });
+
+  if (!existsSync(input)) {
+    return failure(`Input file not found: ${input}`);
+  }
+
+  try {
+    const doc = await PDFDocument.load(readFileSync(input), { updateMetadata: false });
+    const trimWidth = spec.trimSize.width * POINTS_PER_INCH;
+    const trimHeight = spec.trimSize.height * POINTS_PER_INCH;
+    const bleed = spec.bleed * POINTS_PER_INCH;
+
+    doc.getPages().forEach((page, i) => {
+      const media = toBox(page.node.MediaBox())!;
+      if (media.width < trimWidth - BOX_TOLERANCE || media.height < trimHeight - BOX_TOLERANCE) {
+        undersizedPages.push(i + 1);
+      }
+      const trim = centeredBox(media, trimWidth, trimHeight);
+      const bleedBox = centeredBox(media, trim.width + bleed * 2, trim.height + bleed * 2);
+      page.setBleedBox(bleedBox.x, bleedBox.y, bleedBox.width, bleedBox.height);
+      page.setTrimBox(trim.x, trim.y, trim.width, trim.height);
+    });
+
+    // No object streams: PDF/X-1a is PDF 1.3
+    writeFileSync(output, await doc.save({ useObjectStreams: false, updateFieldAppearances: false }));
+
+    return {
+      success: true,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      pageCount: doc.getPageCount(),
+      undersizedPages,
+    };
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Copy each page's boxes from `source` to the same page of `target`, a rebuilt
+ * copy of it (e.g. pages rasterized with img2pdf, which only sets a MediaBox)
+ */
+export async function copyPageBoxes(source: string, target: string): Promise<void> {
+  const from = await readPageBoxes(source);
+  const doc = await PDFDocument.load(readFileSync(target), { updateMetadata: false });
+  doc.getPages().forEach((page, i) => {
+    const boxes = from[i];
+    if (!boxes) return;
+    // Scale in case the rebuilt page's MediaBox differs (e.g. rounding at the raster DPI)
+    const media = toBox(page.node.MediaBox())!;
+    const sx = media.width / boxes.media.width;
+    const sy = media.height / boxes.media.height;
+    const place = (box: Box): [number, number, number, number] => [
+      media.x + (box.x - boxes.media.x) * sx,
+      media.y + (box.y - boxes.media.y) * sy,
+      box.width * sx,
+      box.height * sy,
+    ];
+    if (boxes.bleed) page.setBleedBox(...place(boxes.bleed));
+    if (boxes.trim) page.setTrimBox(...place(boxes.trim));
+    if (boxes.art) page.setArtBox(...place(boxes.art));
+  });
+  writeFileSync(target, await doc.save({ useObjectStreams: false, updateFieldAppearances: false }));
+}
+
+// CLI: show a PDF's boxes, or --write them from a project's print spec
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const input = args.find((a) => a.endsWith(".pdf"));
+  const projectDir = args.find((_, i) => args[i - 1] === "--project") ?? process.cwd();
+
+  if (!input) {
+    console.error("Usage: bun run scripts/page-boxes.ts <file.pdf> [--write [--project <dir>]]");
+    process.exit(1);
+  }
+
+  if (args.includes("--write")) {
+    const spec = loadPrintSpec(projectDir);
+    const result = await writePageBoxes({ input, spec });
+    if (!result.success) {
+      console.error(`❌ Writing page boxes failed: ${result.error}`);
+      process.exit(1);
+    }
+    console.log(`✅ TrimBox ${spec.trimSize.width}" × ${spec.trimSize.height}" and ${spec.bleed}" bleed written on ${result.pageCount} pages`);
+    if (result.undersizedPages.length > 0) {
+      console.log(`   ⚠️  MediaBox smaller than the trim on page(s) ${formatPageList(result.undersizedPages)}`);
+    }
+  }
+
+  const summary = summarizePageBoxes(await readPageBoxes(input));
+  if (!summary) {
+    console.error("❌ No pages");
+    process.exit(1);
+  }
+  console.log(`📐 ${formatBoxGeometry(summary.first)}`);
+  const report = (label: string, pages: number[]) =>
+    console.log(`   ${pages.length === 0 ? "✅" : "❌"} ${label}${pages.length > 0 ? `: page(s) ${formatPageList(pages)}` : ""}`);
+  report("TrimBox on every page", summary.missingTrim);
+  report("MediaBox ⊇ BleedBox ⊇ TrimBox", summary.badNesting);
+  report("Same boxes on every page", summary.differentPages);
+}
@@ -0,0 +1,41 @@
+/**
+ * Type declarations for the parts of pagedjs-cli's Printer used by build-pagedjs.ts
+ * (the package ships no types)
+ */
+
+declare module "pagedjs-cli" {
+  import { EventEmitter } from "node:events";
+  import type { Browser, Page } from "puppeteer";
+
+  export interface PrinterOptions {
+    allowLocal?: boolean;
+    allowRemote?: boolean;
+    /** Stylesheet paths or URLs added before rendering */
+    styles?: string[];
+    additionalScripts?: string[];
+    timeout?: number;
+    browserArgs?: string[];
+    emulateMedia?: "print" | "screen";
+    /** Log outline warnings (unresolved destinations) */
+    enableWarnings?: boolean;
+  }
+
+  export interface PdfOptions {
+    /** HTML tags turned into the PDF outline, outermost first */
+    outlineTags?: string[];
+    /** Page width/height with a unit (e.g. "152.4mm"); the CSS @page size is used when unset */
+    width?: string;
+    height?: string;
+    orientation?: string;
+  }
+
+  export default class Printer extends EventEmitter {
+    constructor(options?: PrinterOptions);
+    browser?: Browser;
+    setup(): Promise<Browser>;
+    /** Load and paginate the document; resolves with the rendered page */
+    render(input: string): Promise<Page>;
+    pdf(input: string, options?: PdfOptions): Promise<Uint8Array>;
+    close(): Promise<void>;
+  }
+}
@@ -0,0 +1,29 @@
+#!/usr/bin/env bun
+/**
+ * PDF Object Helpers
+ * Small pdf-lib helpers shared by the modules that walk a PDF's objects
+ * (colour spaces, transparency, PDF/X conformance).
+ */
+
+import { PDFDict, PDFName, PDFRef, PDFStream, type PDFContext, type PDFObject } from "pdf-lib";
+
+/** Inline image colour space abbreviations (PDF 1.3, Table 4.43) */
+export const INLINE_SPACES: Record<string, string> = { G: "DeviceGray", RGB: "DeviceRGB", CMYK: "DeviceCMYK", I: "Indexed" };
+
+/** Text of a name object (with #xx escapes decoded), or undefined for anything else */
+export function nameOf(value: PDFObject | undefined): string | undefined {
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+/** " (obj N)" for an indirect object, for naming it in messages */
+export function objectLabel(ref: PDFObject | undefined): string {
+  return ref instanceof PDFRef ? ` (obj ${ref.objectNumber})` : "";
+}
+
+/** Dictionary of a dict or stream, following a reference */
+export function dictOf(value: PDFObject | undefined, context: PDFContext): PDFDict | undefined {
+  const resolved = value instanceof PDFRef ? context.lookup(value) : value;
+  if (resolved instanceof PDFDict) return resolved;
+  if (resolved instanceof PDFStream) return resolved.dict;
+  return undefined;
+}
@@ -0,0 +1,451 @@
+#!/usr/bin/env bun
+/**
+ * PDF/X Conformance
+ * Checks the PDF/X-1a:2001, PDF/X-3:2002 and PDF/X-4 rules that page size,
+ * TAC and font listings don't cover, by walking the PDF's objects with pdf-lib:
+ *
+ * - A GTS_PDFX OutputIntent with a CMYK destination profile
+ * - Colour spaces: X-1a allows only DeviceCMYK, DeviceGray, Separation/DeviceN
+ *   and Indexed/Pattern on top of them; X-3 and X-4 also allow ICC-based, Cal*
+ *   and Lab colour. None of them allows DeviceRGB under a CMYK OutputIntent.
+ * - No transparency (groups, soft masks, constant alpha, blend modes), as found
+ *   by transparency.ts's detector; X-4 allows it
+ * - No LZW compression
+ * - No JavaScript, Launch/Sound/Movie/... actions or additional actions
+ * - No annotations inside the TrimBox (except trap networks)
+ * - No optional content; X-4 allows it
+ * - Every font embedded
+ *
+ * Each violation names the page and/or object it was found on.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { basename } from "node:path";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFObject,
+} from "pdf-lib";
+import { forEachOperator } from "./vector-tac.ts";
+import { effectiveTrim, readPageBoxes, type Box } from "./page-boxes.ts";
+import type { PdfxStandard } from "./pdfx-metadata.ts";
+import { PDFX_TARGETS, parsePdfxTarget } from "./providers.ts";
+import { INLINE_SPACES, dictOf, nameOf, objectLabel } from "./pdf-objects.ts";
+import { findTransparency } from "./transparency.ts";
+
+export interface ConformanceRule {
+  /** Check name, e.g. "PDF/X-1a:2001: Colour Spaces" */
+  name: string;
+  /** What the standard requires */
+  expected: string;
+  /** Pages and objects breaking the rule, e.g. "page 3: image (obj 12) in DeviceRGB" */
+  violations: string[];
+}
+
+type RuleId = "outputIntent" | "colorSpaces" | "transparency" | "lzw" | "actions" | "annotations" | "optionalContent" | "fonts";
+
+const RULES: Record<RuleId, { name: string; expected: string }> = {
+  outputIntent: { name: "OutputIntent", expected: "GTS_PDFX OutputIntent with a CMYK DestOutputProfile" },
+  colorSpaces: { name: "Colour Spaces", expected: "No device RGB (CMYK, gray, spot, ICC-based or Lab colour)" },
+  transparency: { name: "Transparency", expected: "No transparency groups, soft masks, alpha or blend modes" },
+  lzw: { name: "LZW Compression", expected: "No LZWDecode streams" },
+  actions: { name: "Actions", expected: "No JavaScript, Launch, Sound, Movie, form or additional actions" },
+  annotations: { name: "Annotations", expected: "No annotations inside the TrimBox" },
+  optionalContent: { name: "Optional Content", expected: "No optional content (layers)" },
+  fonts: { name: "Fonts Embedded (all objects)", expected: "Every font, including those in forms and patterns, embedded" },
+};
+
+/** Rules each standard checks; X-4 allows transparency and optional content */
+const STANDARD_RULES: Record<PdfxStandard, RuleId[]> = {
+  "PDF/X-1a:2001": ["outputIntent", "colorSpaces", "transparency", "lzw", "actions", "annotations", "optionalContent", "fonts"],
+  "PDF/X-3:2002": ["outputIntent", "colorSpaces", "transparency", "lzw", "actions", "annotations", "optionalContent", "fonts"],
+  "PDF/X-4": ["outputIntent", "colorSpaces", "lzw", "actions", "annotations", "fonts"],
+};
+
+/** Action types PDF/X forbids */
+const FORBIDDEN_ACTIONS = ["JavaScript", "Launch", "Sound", "Movie", "ResetForm", "ImportData", "SubmitForm", "Hide", "Rendition"];
+
+/** Colour space families allowed on their own */
+const DEVICE_SPACES = ["DeviceCMYK", "DeviceGray", "Pattern"];
+
+/** Device-independent families X-3 and X-4 allow as well */
+const CIE_SPACES = ["ICCBased", "CalGray", "CalRGB", "Lab"];
+
+class Findings {
+  private readonly found: Record<RuleId, string[]> = {
+    outputIntent: [],
+    colorSpaces: [],
+    transparency: [],
+    lzw: [],
+    actions: [],
+    annotations: [],
+    optionalContent: [],
+    fonts: [],
+  };
+  /** Objects already inspected, so shared resources are reported once */
+  readonly seen = new Set<string>();
+  /** Resource dictionaries already walked (pages often share one) */
+  readonly seenResources = new Set<PDFDict>();
+
+  add(rule: RuleId, violation: string): void {
+    if (!this.found[rule].includes(violation)) this.found[rule].push(violation);
+  }
+
+  rules(standard: PdfxStandard): ConformanceRule[] {
+    return STANDARD_RULES[standard].map((id) => ({
+      name: `${standard}: ${RULES[id].name}`,
+      expected:
+        id === "colorSpaces" && standard === "PDF/X-1a:2001"
+          ? "DeviceCMYK, DeviceGray, Separation or DeviceN only (no RGB, Lab or ICC)"
+          : RULES[id].expected,
+      violations: this.found[id],
+    }));
+  }
+}
+
+/**
+ * The colour space family the standard rejects in `space`, if any (checks Indexed bases and Separation/DeviceN alternates)
+ */
+function forbiddenSpace(space: PDFObject | undefined, walk: Pick<WalkContext, "context" | "allowed">): string | undefined {
+  const { context, allowed } = walk;
+  const resolved = space instanceof PDFRef ? context.lookup(space) : space;
+  const name = nameOf(resolved);
+  if (name) return allowed.includes(name) ? undefined : name;
+  if (!(resolved instanceof PDFArray) || resolved.size() === 0) return undefined;
+
+  const family = nameOf(context.lookup(resolved.get(0)));
+  switch (family) {
+    case "Indexed":
+      return forbiddenSpace(resolved.get(1), walk);
+    case "Separation":
+    case "DeviceN":
+      return forbiddenSpace(resolved.get(2), walk);
+    case "Pattern":
+      return resolved.size() > 1 ? forbiddenSpace(resolved.get(1), walk) : undefined;
+    default:
+      return family && !allowed.includes(family) ? family : undefined;
+  }
+}
+
+function filterNames(dict: PDFDict, context: PDFContext, key = "Filter"): string[] {
+  const filter = context.lookup(dict.get(PDFName.of(key)));
+  const names = filter instanceof PDFArray ? filter.asArray().map((f) => context.lookup(f)) : [filter];
+  return names.map(nameOf).filter((n): n is string => Boolean(n));
+}
+
+interface WalkContext {
+  context: PDFContext;
+  findings: Findings;
+  page: number;
+  /** Colour space families the standard allows on their own */
+  allowed: string[];
+}
+
+function checkFont(font: PDFDict, ref: PDFObject | undefined, walk: WalkContext): void {
+  const { context } = walk;
+  const subtype = nameOf(font.get(PDFName.of("Subtype")));
+  const baseFont = nameOf(font.get(PDFName.of("BaseFont"))) ?? "unnamed";
+  if (subtype === "Type3") return; // Glyphs are content streams in the file
+
+  let descriptorOwner = font;
+  if (subtype === "Type0") {
+    const descendants = context.lookup(font.get(PDFName.of("DescendantFonts")));
+    const descendant = descendants instanceof PDFArray ? dictOf(descendants.get(0), context) : undefined;
+    if (!descendant) {
+      walk.findings.add("fonts", `page ${walk.page}: ${baseFont}${objectLabel(ref)} has no descendant font`);
+      return;
+    }
+    descriptorOwner = descendant;
+  }
+
+  const descriptor = dictOf(descriptorOwner.get(PDFName.of("FontDescriptor")), context);
+  const embedded = ["FontFile", "FontFile2", "FontFile3"].some((key) => descriptor?.has(PDFName.of(key)));
+  if (!embedded) {
+    walk.findings.add("fonts", `page ${walk.page}: ${baseFont} (${subtype ?? "font"})${objectLabel(ref)} is not embedded`);
+  }
+}
+
+/**
+ * Inspect the operators of a content stream: device RGB colour operators, inline images and marked optional content
+ */
+function checkContent(stream: PDFRawStream, ref: PDFObject | undefined, resources: PDFDict | undefined, walk: WalkContext): void {
+  let text: string;
+  try {
+    text = Buffer.from(decodePDFRawStream(stream).decode()).toString("latin1");
+  } catch {
+    return;
+  }
+  const where = `page ${walk.page}: content${objectLabel(ref)}`;
+  const spaces = resources ? dictOf(resources.get(PDFName.of("ColorSpace")), walk.context) : undefined;
+
+  forEachOperator(text, (operator, operands) => {
+    switch (operator) {
+      case "rg":
+      case "RG":
+        walk.findings.add("colorSpaces", `${where} sets DeviceRGB colour (${operator})`);
+        break;
+      case "cs":
+      case "CS": {
+        const name = operands.at(-1);
+        if (name?.kind === "name" && !spaces?.has(PDFName.of(name.value)) && !walk.allowed.includes(name.value)) {
+          walk.findings.add("colorSpaces", `${where} selects ${name.value}`);
+        }
+        break;
+      }
+      case "BDC": {
+        if (operands[0]?.kind === "name" && operands[0].value === "OC") {
+          walk.findings.add("optionalContent", `${where} marks optional content`);
+        }
+        break;
+      }
+      case "BI": {
+        const dict = operands[0]?.value ?? "";
+        const space = dict.match(/\/(?:CS|ColorSpace)\s*\/([^\s/[\]<>()]+)/)?.[1];
+        if (space) {
+          const full = INLINE_SPACES[space] ?? space;
+          const forbidden = spaces?.has(PDFName.of(space))
+            ? forbiddenSpace(spaces.get(PDFName.of(space)), walk)
+            : walk.allowed.includes(full) || full === "Indexed"
+              ? undefined
+              : full;
+          if (forbidden) walk.findings.add("colorSpaces", `${where} has an inline image in ${forbidden}`);
+        }
+        if (/\/(?:F|Filter)\s*(?:\[[^\]]*)?\/(?:LZW|LZWDecode)\b/.test(dict)) {
+          walk.findings.add("lzw", `${where} has an LZW-compressed inline image`);
+        }
+        break;
+      }
+    }
+  });
+}
+
+/**
+ * Check a resource dictionary and everything it draws (forms, patterns, Type 3 glyph resources)
+ */
+function checkResources(resources: PDFDict | undefined, walk: WalkContext): void {
+  if (!resources || walk.findings.seenResources.has(resources)) return;
+  const { context, findings } = walk;
+  findings.seenResources.add(resources);
+  const entries = (key: string) => {
+    const dict = dictOf(resources.get(PDFName.of(key)), context);
+    return dict ? dict.entries() : [];
+  };
+  const firstVisit = (ref: PDFObject) => {
+    if (!(ref instanceof PDFRef)) return true;
+    if (findings.seen.has(ref.toString())) return false;
+    findings.seen.add(ref.toString());
+    return true;
+  };
+
+  for (const [name, space] of entries("ColorSpace")) {
+    const forbidden = forbiddenSpace(space, walk);
+    if (forbidden) findings.add("colorSpaces", `page ${walk.page}: colour space ${name.asString()}${objectLabel(space)} is ${forbidden}`);
+  }
+
+  for (const [, ref] of entries("Font")) {
+    const font = dictOf(ref, context);
+    if (!font || !firstVisit(ref)) continue;
+    checkFont(font, ref, walk);
+    if (nameOf(font.get(PDFName.of("Subtype"))) === "Type3") {
+      checkResources(dictOf(font.get(PDFName.of("Resources")), context), walk);
+    }
+  }
+
+  for (const [, ref] of entries("Shading")) {
+    if (!firstVisit(ref)) continue;
+    const shading = dictOf(ref, context);
+    const forbidden = shading && forbiddenSpace(shading.get(PDFName.of("ColorSpace")), walk);
+    if (forbidden) findings.add("colorSpaces", `page ${walk.page}: shading${objectLabel(ref)} in ${forbidden}`);
+  }
+
+  for (const [, ref] of entries("Pattern")) {
+    const pattern = context.lookup(ref);
+    if (!firstVisit(ref)) continue;
+    if (pattern instanceof PDFRawStream) {
+      // Tiling pattern: a content stream with its own resources
+      const patternResources = dictOf(pattern.dict.get(PDFName.of("Resources")), context);
+      checkContent(pattern, ref, patternResources, walk);
+      checkResources(patternResources, walk);
+    } else if (pattern instanceof PDFDict) {
+      const shading = dictOf(pattern.get(PDFName.of("Shading")), context);
+      const forbidden = shading && forbiddenSpace(shading.get(PDFName.of("ColorSpace")), walk);
+      if (forbidden) findings.add("colorSpaces", `page ${walk.page}: shading pattern${objectLabel(ref)} in ${forbidden}`);
+    }
+  }
+
+  for (const [, ref] of entries("XObject")) {
+    const xobject = context.lookup(ref);
+    if (!(xobject instanceof PDFRawStream) || !firstVisit(ref)) continue;
+    const dict = xobject.dict;
+    const subtype = nameOf(dict.get(PDFName.of("Subtype")));
+    const where = `page ${walk.page}: ${subtype === "Image" ? "image" : "form"}${objectLabel(ref)}`;
+
+    if (dict.has(PDFName.of("OC"))) findings.add("optionalContent", `${where} is optional content`);
+
+    if (subtype === "Image") {
+      const isMask = context.lookup(dict.get(PDFName.of("ImageMask")))?.toString() === "true";
+      const forbidden = isMask ? undefined : forbiddenSpace(dict.get(PDFName.of("ColorSpace")), walk);
+      if (forbidden) findings.add("colorSpaces", `${where} in ${forbidden}`);
+    } else if (subtype === "Form") {
+      const formResources = dictOf(dict.get(PDFName.of("Resources")), context);
+      checkContent(xobject, ref, formResources, walk);
+      checkResources(formResources, walk);
+    }
+  }
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Actions anywhere in the file: forbidden action types and additional-action (AA) dictionaries
+ */
+function checkActions(doc: PDFDocument, findings: Findings): void {
+  const { context } = doc;
+  const names = dictOf(doc.catalog.get(PDFName.of("Names")), context);
+  if (names?.has(PDFName.of("JavaScript"))) findings.add("actions", "document: JavaScript name tree");
+
+  const visit = (value: PDFObject | undefined, owner: PDFRef, depth: number): void => {
+    if (depth > 8) return;
+    const dict = value instanceof PDFStream ? value.dict : value;
+    if (dict instanceof PDFDict) {
+      // /S is also used by OutputIntents, groups and structure elements; only count action dictionaries
+      const type = nameOf(dict.get(PDFName.of("S")));
+      const dictType = nameOf(dict.get(PDFName.of("Type")));
+      if (type && FORBIDDEN_ACTIONS.includes(type) && (!dictType || dictType === "Action")) {
+        findings.add("actions", `${type} action${objectLabel(owner)}`);
+      }
+      if (dict.has(PDFName.of("AA"))) findings.add("actions", `additional actions (AA)${objectLabel(owner)}`);
+      for (const [, child] of dict.entries()) visit(child, owner, depth + 1);
+    } else if (value instanceof PDFArray) {
+      for (const child of value.asArray()) visit(child, owner, depth + 1);
+    }
+  };
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    visit(object, ref, 0);
+  }
+}
+
+/**
+ * Check a PDF against a PDF/X standard's rules; one entry per rule, with its violations
+ */
+export async function checkPdfx(pdfPath: string, standard: PdfxStandard = "PDF/X-1a:2001"): Promise<ConformanceRule[]> {
+  if (!existsSync(pdfPath)) {
+    throw new Error(`File not found: ${pdfPath}`);
+  }
+  const doc = await PDFDocument.load(readFileSync(pdfPath), { updateMetadata: false });
+  const { context, catalog } = doc;
+  const findings = new Findings();
+  const allowed = standard === "PDF/X-1a:2001" ? DEVICE_SPACES : [...DEVICE_SPACES, ...CIE_SPACES];
+
+  // OutputIntent
+  const intents = context.lookup(catalog.get(PDFName.of("OutputIntents")));
+  const pdfxIntent = (intents instanceof PDFArray ? intents.asArray() : [])
+    .map((intent) => dictOf(intent, context))
+    .find((intent) => intent && nameOf(intent.get(PDFName.of("S"))) === "GTS_PDFX");
+  if (!pdfxIntent) {
+    findings.add("outputIntent", "document: no OutputIntent with /S /GTS_PDFX");
+  } else {
+    const profile = context.lookup(pdfxIntent.get(PDFName.of("DestOutputProfile")));
+    const components = profile instanceof PDFRawStream ? context.lookup(profile.dict.get(PDFName.of("N"))) : undefined;
+    if (!profile) {
+      findings.add("outputIntent", "document: OutputIntent has no DestOutputProfile");
+    } else if (!(components instanceof PDFNumber) || components.asNumber() !== 4) {
+      findings.add("outputIntent", `document: DestOutputProfile${objectLabel(pdfxIntent.get(PDFName.of("DestOutputProfile")))} is not CMYK`);
+    }
+  }
+
+  // Optional content and LZW anywhere in the file
+  if (catalog.has(PDFName.of("OCProperties"))) findings.add("optionalContent", "document: OCProperties in the catalog");
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFRawStream) {
+      if (filterNames(object.dict, context).includes("LZWDecode")) {
+        findings.add("lzw", `stream${objectLabel(ref)} is LZW-compressed`);
+      }
+    } else if (object instanceof PDFDict && nameOf(object.get(PDFName.of("Type"))) === "OCG") {
+      findings.add("optionalContent", `optional content group${objectLabel(ref)}`);
+    }
+  }
+
+  checkActions(doc, findings);
+
+  for (const { page, pageGroup, reasons } of findTransparency(doc)) {
+    if (pageGroup) findings.add("transparency", `page ${page}: page is a transparency group`);
+    for (const reason of reasons) findings.add("transparency", `page ${page}: ${reason}`);
+  }
+
+  // Per page: resources, content and annotations
+  const boxes = await readPageBoxes(pdfPath);
+  doc.getPages().forEach((page, i) => {
+    const walk: WalkContext = { context, findings, page: i + 1, allowed };
+
+    const resources = page.node.Resources();
+    const contents = page.node.get(PDFName.of("Contents"));
+    const streams = contents instanceof PDFArray ? contents.asArray() : contents ? [contents] : [];
+    for (const ref of streams) {
+      const stream = context.lookup(ref);
+      if (stream instanceof PDFRawStream) checkContent(stream, ref, resources, walk);
+    }
+    checkResources(resources, walk);
+
+    const trim = boxes[i] ? effectiveTrim(boxes[i]) ?? boxes[i].media : undefined;
+    const annots = context.lookup(page.node.get(PDFName.of("Annots")));
+    for (const ref of annots instanceof PDFArray ? annots.asArray() : []) {
+      const annot = dictOf(ref, context);
+      if (!annot) continue;
+      const subtype = nameOf(annot.get(PDFName.of("Subtype"))) ?? "unknown";
+      const rect = context.lookup(annot.get(PDFName.of("Rect")));
+      if (subtype === "TrapNet" || !trim || !(rect instanceof PDFArray) || rect.size() < 4) continue;
+      const coords = [0, 1, 2, 3].map((n) => {
+        const value = context.lookup(rect.get(n));
+        return value instanceof PDFNumber ? value.asNumber() : undefined;
+      });
+      if (coords.some((n) => n === undefined)) {
+        // Can't place it against the TrimBox, so flag it rather than abort the whole check
+        findings.add("annotations", `page ${i + 1}: ${subtype} annotation${objectLabel(ref)} has a non-numeric Rect`);
+        continue;
+      }
+      const [x0, y0, x1, y1] = coords as number[];
+      const box = { x: Math.min(x0, x1), y: Math.min(y0, y1), width: Math.abs(x1 - x0), height: Math.abs(y1 - y0) };
+      if (overlaps(box, trim)) {
+        findings.add("annotations", `page ${i + 1}: ${subtype} annotation${objectLabel(ref)} inside the TrimBox`);
+      }
+    }
+  });
+
+  return findings.rules(standard);
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const file = args.find((arg, i) => !arg.startsWith("--") && args[i - 1] !== "--pdfx");
+  if (!file) {
+    console.error("Usage: bun run scripts/pdfx-conformance.ts <file.pdf> [--pdfx x1a|x3|x4]");
+    process.exit(1);
+  }
+
+  const targetArg = args.find((_, i) => args[i - 1] === "--pdfx");
+  const standard = PDFX_TARGETS[targetArg ? parsePdfxTarget(targetArg) : "x1a"].standard;
+  const rules = await checkPdfx(file, standard);
+  console.log(`\n🔎 ${standard} conformance: ${basename(file)}\n`);
+  for (const rule of rules) {
+    console.log(`${rule.violations.length === 0 ? "✅" : "❌"} ${rule.name}`);
+    for (const violation of rule.violations.slice(0, 20)) {
+      console.log(`     ${violation}`);
+    }
+    if (rule.violations.length > 20) {
+      console.log(`     … and ${rule.violations.length - 20} more`);
+    }
+  }
+  process.exit(rules.some((rule) => rule.violations.length > 0) ? 1 : 0);
+}
@@ -0,0 +1,332 @@
+#!/usr/bin/env bun
+/**
+ * PDF/X Metadata
+ *
+ * Ghostscript's -dPDFX=true drops fonts, so convert-pdfx.ts converts without
+ * it and this step writes the PDF/X identification into the converted file:
+ *
+ * 1. A GTS_PDFX OutputIntent with the output ICC profile embedded as DestOutputProfile
+ * 2. GTS_PDFXVersion (and GTS_PDFXConformance for PDF/X-1a), Trapped and the
+ *    dates in the Info dictionary
+ * 3. An XMP packet in sync with the Info dictionary
+ * 4. A trailer /ID when the file has none
+ *
+ * Everything else is copied byte for byte: fonts, content streams and images
+ * are not decoded or re-encoded.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObjectCopier,
+  PDFRawStream,
+  PDFString,
+  decodePDFRawStream,
+  type PDFObject,
+} from "pdf-lib";
+import { loadOutputProfile, registryEntryFor, type ProfileInfo } from "./icc-profile.ts";
+import type { ProviderProfile } from "./providers.ts";
+
+export type PdfxStandard = ProviderProfile["pdfx"]["standard"];
+
+export interface PdfxMetadataOptions {
+  input: string;
+  /** Where to write the result (default: overwrite the input) */
+  output?: string;
+  standard: PdfxStandard;
+  /** Output profile to embed; see loadOutputProfile */
+  profile: ProfileInfo;
+  /** Document title (default: the existing title, else the file name) */
+  title?: string;
+  /** Whether the file has been trapped (default: false) */
+  trapped?: boolean;
+}
+
+export interface PdfxMetadataResult {
+  success: boolean;
+  outputPath: string;
+  duration: number;
+  /** Things strict preflight may still object to */
+  warnings: string[];
+  error?: string;
+}
+
+/** Info dictionary entries each standard requires, per ISO 15930 */
+const VERSION_KEYS: Record<PdfxStandard, { version: string; conformance?: string }> = {
+  "PDF/X-1a:2001": { version: "PDF/X-1:2001", conformance: "PDF/X-1a:2001" },
+  "PDF/X-3:2002": { version: "PDF/X-3:2002" },
+  "PDF/X-4": { version: "PDF/X-4" },
+};
+
+/** Info entries carried over when restoring metadata onto a rebuilt file */
+const COPIED_INFO_KEYS = [
+  "Title",
+  "Author",
+  "Subject",
+  "Keywords",
+  "Creator",
+  "Producer",
+  "CreationDate",
+  "GTS_PDFXVersion",
+  "GTS_PDFXConformance",
+  "Trapped",
+];
+
+function infoDict(doc: PDFDocument): PDFDict {
+  const existing = doc.context.trailerInfo.Info ? doc.context.lookup(doc.context.trailerInfo.Info) : undefined;
+  if (existing instanceof PDFDict) return existing;
+  const info = doc.context.obj({});
+  doc.context.trailerInfo.Info = doc.context.register(info);
+  return info;
+}
+
+function infoText(info: PDFDict, key: string): string | undefined {
+  const value = info.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+}
+
+/**
+ * Literal string for plain ASCII (what preflight tools compare registry names against), UTF-16 otherwise
+ */
+function pdfText(text: string): PDFString | PDFHexString {
+  return /^[\x20-\x7e]*$/.test(text) && !/[()\\]/.test(text) ? PDFString.of(text) : PDFHexString.fromText(text);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Replace the document's XMP packet with one generated from its Info dictionary,
+ * keeping the DocumentID of the packet it replaces
+ */
+function writeXmp(doc: PDFDocument, standard: PdfxStandard): void {
+  const info = infoDict(doc);
+  const keys = VERSION_KEYS[standard];
+  const catalog = doc.catalog;
+
+  const previous = catalog.lookup(PDFName.of("Metadata"));
+  const previousXml = previous instanceof PDFRawStream ? Buffer.from(decodePDFRawStream(previous).decode()).toString("utf-8") : "";
+  const documentId = previousXml.match(/<xmpMM:DocumentID>([^<]+)</)?.[1] ?? `uuid:${randomUUID()}`;
+
+  const created = (doc.getCreationDate() ?? new Date()).toISOString();
+  const modified = (doc.getModificationDate() ?? new Date()).toISOString();
+  const title = infoText(info, "Title") ?? "";
+  const trapped = info.lookup(PDFName.of("Trapped"))?.toString().replace(/^\//, "") ?? "False";
+  const optional = (tag: string, value: string | undefined) => (value ? `\n   <${tag}>${escapeXml(value)}</${tag}>` : "");
+
+  // PDF/X-4 reads its version from the pdfxid schema; the older standards use pdfx
+  const versionXml =
+    standard === "PDF/X-4"
+      ? `\n   <pdfxid:GTS_PDFXVersion>${keys.version}</pdfxid:GTS_PDFXVersion>`
+      : `\n   <pdfx:GTS_PDFXVersion>${keys.version}</pdfx:GTS_PDFXVersion>` +
+        optional("pdfx:GTS_PDFXConformance", keys.conformance);
+
+  const xml = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+    xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"
+    xmlns:pdfx="http://ns.adobe.com/pdfx/1.3/"
+    xmlns:pdfxid="http://www.npes.org/pdfx/ns/id/">
+   <dc:format>application/pdf</dc:format>
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>
+   <xmp:CreateDate>${created}</xmp:CreateDate>
+   <xmp:ModifyDate>${modified}</xmp:ModifyDate>
+   <xmp:MetadataDate>${modified}</xmp:MetadataDate>${optional("xmp:CreatorTool", infoText(info, "Creator"))}${optional("pdf:Producer", infoText(info, "Producer"))}
+   <pdf:Trapped>${trapped}</pdf:Trapped>
+   <xmpMM:DocumentID>${escapeXml(documentId)}</xmpMM:DocumentID>
+   <xmpMM:InstanceID>uuid:${randomUUID()}</xmpMM:InstanceID>${versionXml}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+  // Left uncompressed so preflight tools (and people) can read it
+  const stream = doc.context.stream(Buffer.from(xml, "utf-8"), { Type: "Metadata", Subtype: "XML" });
+  catalog.set(PDFName.of("Metadata"), doc.context.register(stream));
+}
+
+/**
+ * Add the trailer /ID PDF/X requires, when the producer didn't write one
+ */
+function ensureTrailerId(doc: PDFDocument, seed: string): void {
+  if (doc.context.trailerInfo.ID) return;
+  const id = PDFHexString.of(createHash("md5").update(seed).update(String(Date.now())).digest("hex"));
+  doc.context.trailerInfo.ID = doc.context.obj([id, id]);
+}
+
+/**
+ * Set the catalog's OutputIntents to `intents`, keeping any non-PDF/X ones (e.g. PDF/A)
+ */
+function setPdfxIntents(doc: PDFDocument, intents: PDFObject[]): void {
+  const existing = doc.catalog.lookup(PDFName.of("OutputIntents"));
+  const kept = (existing instanceof PDFArray ? existing.asArray() : []).filter((intent) => {
+    const dict = doc.context.lookup(intent);
+    return !(dict instanceof PDFDict) || dict.get(PDFName.of("S"))?.toString() !== "/GTS_PDFX";
+  });
+  doc.catalog.set(PDFName.of("OutputIntents"), doc.context.obj([...intents, ...kept]));
+}
+
+async function savePdf(doc: PDFDocument, output: string): Promise<void> {
+  // No object streams: PDF/X-1a and X-3 files are PDF 1.3/1.4
+  writeFileSync(output, await doc.save({ useObjectStreams: false, updateFieldAppearances: false }));
+}
+
+/**
+ * Write the PDF/X OutputIntent, version keys, Trapped flag and XMP into a converted PDF
+ */
+export async function applyPdfxMetadata(options: PdfxMetadataOptions): Promise<PdfxMetadataResult> {
+  const startTime = performance.now();
+  const { input, output = input, standard, profile, trapped = false } = options;
+  const warnings: string[] = [];
+
+  if (!existsSync(input)) {
+    return {
+      success: false,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      warnings,
+      error: `Input file not found: ${input}`,
+    };
+  }
+
+  try {
+    const doc = await PDFDocument.load(readFileSync(input), { updateMetadata: false });
+    const context = doc.context;
+    const keys = VERSION_KEYS[standard];
+
+    // OutputIntent with the profile embedded, so it is self-contained whatever the identifier
+    const entry = registryEntryFor(profile.path);
+    const iccStream = context.flateStream(readFileSync(profile.path), { N: 4 });
+    const intent = context.obj({
+      Type: "OutputIntent",
+      S: "GTS_PDFX",
+      OutputConditionIdentifier: pdfText(entry?.identifier ?? "Custom"),
+      OutputCondition: pdfText(entry?.condition ?? profile.name),
+      RegistryName: pdfText("http://www.color.org"),
+      Info: pdfText(profile.name),
+      DestOutputProfile: context.register(iccStream),
+    });
+    setPdfxIntents(doc, [context.register(intent)]);
+
+    if (standard !== "PDF/X-4" && Number.parseFloat(profile.version) >= 4) {
+      warnings.push(`${profile.name} is an ICC v${profile.version} profile; ${standard} expects ICC v2`);
+    }
+
+    // Info: title, dates, version keys and Trapped (X-1a and X-3 don't allow /Unknown)
+    const now = new Date();
+    doc.setTitle(options.title ?? doc.getTitle() ?? basename(input, ".pdf"));
+    if (!doc.getCreationDate()) doc.setCreationDate(now);
+    doc.setModificationDate(now);
+    const info = infoDict(doc);
+    info.set(PDFName.of("GTS_PDFXVersion"), PDFString.of(keys.version));
+    if (keys.conformance) {
+      info.set(PDFName.of("GTS_PDFXConformance"), PDFString.of(keys.conformance));
+    } else {
+      info.delete(PDFName.of("GTS_PDFXConformance"));
+    }
+    info.set(PDFName.of("Trapped"), PDFName.of(trapped ? "True" : "False"));
+
+    writeXmp(doc, standard);
+    ensureTrailerId(doc, input);
+    await savePdf(doc, output);
+
+    return { success: true, outputPath: output, duration: performance.now() - startTime, warnings };
+  } catch (error) {
+    return {
+      success: false,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      warnings,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function declaredStandard(doc: PDFDocument): PdfxStandard | undefined {
+  const info = infoDict(doc);
+  const declared = infoText(info, "GTS_PDFXConformance") ?? infoText(info, "GTS_PDFXVersion");
+  return (Object.keys(VERSION_KEYS) as PdfxStandard[]).find(
+    (standard) => standard === declared || VERSION_KEYS[standard].version === declared
+  );
+}
+
+/**
+ * PDF/X standard a file declares in its Info dictionary, if any
+ */
+export async function readPdfxStandard(pdfPath: string): Promise<PdfxStandard | undefined> {
+  return declaredStandard(await PDFDocument.load(readFileSync(pdfPath), { updateMetadata: false }));
+}
+
+/**
+ * Carry the PDF/X metadata of `source` over to `target`, a rebuilt copy of it
+ * (e.g. pages merged with pdfunite, which keeps neither the OutputIntent nor the Info keys).
+ * Returns false, leaving `target` untouched, when `source` isn't marked as PDF/X.
+ */
+export async function copyPdfxMetadata(source: string, target: string): Promise<boolean> {
+  const from = await PDFDocument.load(readFileSync(source), { updateMetadata: false });
+  const standard = declaredStandard(from);
+  const intents = from.catalog.lookup(PDFName.of("OutputIntents"));
+  if (!standard || !(intents instanceof PDFArray)) return false;
+
+  const to = await PDFDocument.load(readFileSync(target), { updateMetadata: false });
+  const copier = PDFObjectCopier.for(from.context, to.context);
+  setPdfxIntents(to, intents.asArray().map((intent) => copier.copy(intent)));
+
+  const fromInfo = infoDict(from);
+  const toInfo = infoDict(to);
+  for (const key of COPIED_INFO_KEYS) {
+    const value = fromInfo.lookup(PDFName.of(key));
+    if (value) toInfo.set(PDFName.of(key), copier.copy(value));
+  }
+  to.setModificationDate(new Date());
+
+  writeXmp(to, standard);
+  ensureTrailerId(to, target);
+  await savePdf(to, target);
+  return true;
+}
+
+// CLI
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const [input, output] = args.filter((a) => !a.startsWith("--") && a.endsWith(".pdf"));
+  const standard = (args.find((_, i) => args[i - 1] === "--standard") ?? "PDF/X-1a:2001") as PdfxStandard;
+  const icc = args.find((_, i) => args[i - 1] === "--icc");
+  const title = args.find((_, i) => args[i - 1] === "--title");
+
+  if (!input || !(standard in VERSION_KEYS)) {
+    console.error(
+      `Usage: bun run scripts/pdfx-metadata.ts <input.pdf> [output.pdf] [--standard "${Object.keys(VERSION_KEYS).join('" | "')}"] [--icc <profile>] [--title <title>]`
+    );
+    process.exit(1);
+  }
+
+  let profile: ProfileInfo;
+  try {
+    profile = loadOutputProfile(icc);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  const result = await applyPdfxMetadata({ input, output, standard, profile, title });
+  if (!result.success) {
+    console.error(`❌ Writing PDF/X metadata failed: ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`✅ ${standard} OutputIntent (${profile.name}) written: ${result.outputPath}`);
+  for (const warning of result.warnings) {
+    console.log(`   ⚠️  ${warning}`);
+  }
+}
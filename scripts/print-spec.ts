@@ -0,0 +1,247 @@
+#!/usr/bin/env bun
+/**
+ * Print Specification
+ * Loads the per-project print spec (trim size, bleed, margins, TAC, PDF version)
+ * from pdfx.config.json, falling back to the 6" × 9" DriveThruRPG defaults
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join, dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { isProfileId } from "./icc-profile.ts";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+/** Name of the per-project config file */
+export const PRINT_SPEC_FILE = "pdfx.config.json";
+
+export interface PrintSpec {
+  /** Trim size in inches */
+  trimSize: { width: number; height: number };
+  /** Bleed on each edge in inches */
+  bleed: number;
+  /** Page margins in inches */
+  margins: { inside: number; outside: number; top: number; bottom: number };
+  /** Maximum Total Area Coverage (ink) percentage */
+  maxTAC: number;
+  /** TAC percentage above which a page is flagged as a warning */
+  warnTAC: number;
+  /** Accepted PDF versions, narrowed to those the provider's PDF/X variant allows */
+  pdfVersions: string[];
+  /** Target image resolution */
+  dpi: number;
+  /** Tolerance for page size measurements, in percent */
+  tolerancePct: number;
+  /** Print provider profile id (see providers.ts); defaults to DriveThruRPG */
+  provider?: string;
+  /**
+   * Output ICC profile embedded by PDF/X conversion and used for TAC limiting: a
+   * registry id such as "FOGRA39" (see icc-profile.ts) or a path, resolved against
+   * the project directory. Defaults to assets/CGATS21_CRPC1.icc.
+   */
+  iccProfile?: string;
+  /**
+   * Flatten transparency before PDF/X-1a/X-3 conversion: pages drawing transparent
+   * content are rendered to CMYK at `dpi`, the others stay vector (see transparency.ts)
+   */
+  flattenTransparency?: boolean;
+  /**
+   * Digital edition (RGB download PDF, see digital-edition.ts): image resolution in ppi
+   * (default 150) and the largest acceptable file in MB (default 100)
+   */
+  digital?: { dpi?: number; maxFileSizeMB?: number };
+}
+
+// DriveThruRPG 6" x 9" trade paperback with 0.125" bleed
+export const DEFAULT_PRINT_SPEC: PrintSpec = {
+  trimSize: { width: 6, height: 9 },
+  bleed: 0.125,
+  margins: { inside: 0.625, outside: 0.5, top: 0.625, bottom: 0.75 },
+  maxTAC: 240,
+  warnTAC: 200,
+  // Every PDF/X version; applyProvider narrows it to the target standard's
+  pdfVersions: ["1.3", "1.4", "1.5", "1.6", "1.7"],
+  dpi: 300,
+  tolerancePct: 2,
+};
+
+/** Digital edition defaults: screen-resolution images and a download-friendly size */
+export const DEFAULT_DIGITAL_SETTINGS = { dpi: 150, maxFileSizeMB: 100 };
+
+/**
+ * The spec's digital edition settings, with defaults filled in
+ */
+export function digitalSettings(spec: PrintSpec): { dpi: number; maxFileSizeMB: number } {
+  return { ...DEFAULT_DIGITAL_SETTINGS, ...spec.digital };
+}
+
+/**
+ * Final page size (trim + bleed on both edges) in inches
+ */
+export function pageSize(spec: PrintSpec): { width: number; height: number } {
+  return {
+    width: spec.trimSize.width + spec.bleed * 2,
+    height: spec.trimSize.height + spec.bleed * 2,
+  };
+}
+
+/**
+ * Page size in the format expected by Vivliostyle's --size flag (e.g. "6.25in,9.25in")
+ */
+export function vivliostyleSize(spec: PrintSpec): string {
+  const { width, height } = pageSize(spec);
+  return `${width}in,${height}in`;
+}
+
+/**
+ * Format a size in inches for reports, e.g. 6.25" × 9.25"
+ */
+export function formatSize(size: { width: number; height: number }): string {
+  return `${size.width}" × ${size.height}"`;
+}
+
+/**
+ * Generate the CSS appended to each engine's concatenated stylesheet.
+ * Overrides the trim/bleed/margin custom properties and the @page size so
+ * every engine renders the size declared in the project config.
+ */
+export function printSpecCSS(spec: PrintSpec): string {
+  const { width, height } = pageSize(spec);
+  return `/* Source: ${PRINT_SPEC_FILE} (generated) */
+:root {
+  --trim-width: ${spec.trimSize.width}in;
+  --trim-height: ${spec.trimSize.height}in;
+  --bleed: ${spec.bleed}in;
+  --margin-inside: ${spec.margins.inside}in;
+  --margin-outside: ${spec.margins.outside}in;
+  --margin-top: ${spec.margins.top}in;
+  --margin-bottom: ${spec.margins.bottom}in;
+}
+
+@page {
+  size: ${width}in ${height}in;
+}
+`;
+}
+
+function assertPositive(value: unknown, field: string, allowZero = false): asserts value is number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    throw new Error(`"${field}" must be a ${allowZero ? "non-negative" : "positive"} number`);
+  }
+}
+
+/**
+ * Merge a parsed config object over the defaults and validate the result
+ */
+export function resolvePrintSpec(config: Partial<PrintSpec> = {}): PrintSpec {
+  const spec: PrintSpec = {
+    ...DEFAULT_PRINT_SPEC,
+    ...config,
+    trimSize: { ...DEFAULT_PRINT_SPEC.trimSize, ...config.trimSize },
+    margins: { ...DEFAULT_PRINT_SPEC.margins, ...config.margins },
+    pdfVersions: config.pdfVersions ?? DEFAULT_PRINT_SPEC.pdfVersions,
+  };
+  // A lowered maxTAC without an explicit warnTAC pulls the warning zone down with it
+  if (config.warnTAC === undefined) {
+    spec.warnTAC = Math.min(DEFAULT_PRINT_SPEC.warnTAC, spec.maxTAC);
+  }
+
+  assertPositive(spec.trimSize.width, "trimSize.width");
+  assertPositive(spec.trimSize.height, "trimSize.height");
+  assertPositive(spec.bleed, "bleed", true);
+  for (const [side, value] of Object.entries(spec.margins)) {
+    assertPositive(value, `margins.${side}`, true);
+  }
+  assertPositive(spec.maxTAC, "maxTAC");
+  assertPositive(spec.warnTAC, "warnTAC");
+  assertPositive(spec.dpi, "dpi");
+  assertPositive(spec.tolerancePct, "tolerancePct", true);
+
+  if (spec.warnTAC > spec.maxTAC) {
+    throw new Error(`"warnTAC" (${spec.warnTAC}) must not exceed "maxTAC" (${spec.maxTAC})`);
+  }
+  if (!Array.isArray(spec.pdfVersions) || spec.pdfVersions.some((v) => typeof v !== "string")) {
+    throw new Error(`"pdfVersions" must be an array of version strings`);
+  }
+  if (spec.provider !== undefined && typeof spec.provider !== "string") {
+    throw new Error(`"provider" must be a provider id string`);
+  }
+  if (spec.iccProfile !== undefined && typeof spec.iccProfile !== "string") {
+    throw new Error(`"iccProfile" must be a path to an .icc file`);
+  }
+  if (spec.flattenTransparency !== undefined && typeof spec.flattenTransparency !== "boolean") {
+    throw new Error(`"flattenTransparency" must be true or false`);
+  }
+  if (spec.digital !== undefined) {
+    if (typeof spec.digital !== "object" || spec.digital === null) {
+      throw new Error(`"digital" must be an object`);
+    }
+    if (spec.digital.dpi !== undefined) assertPositive(spec.digital.dpi, "digital.dpi");
+    if (spec.digital.maxFileSizeMB !== undefined) assertPositive(spec.digital.maxFileSizeMB, "digital.maxFileSizeMB");
+  }
+
+  return spec;
+}
+
+/**
+ * Load the print spec for a project directory.
+ * Returns the defaults when the directory has no pdfx.config.json.
+ */
+export function loadPrintSpec(projectDir: string): PrintSpec {
+  const configPath = join(projectDir, PRINT_SPEC_FILE);
+  if (!existsSync(configPath)) {
+    return resolvePrintSpec();
+  }
+
+  try {
+    const config = JSON.parse(readFileSync(configPath, "utf-8")) as Partial<PrintSpec>;
+    const spec = resolvePrintSpec(config);
+    if (spec.iccProfile && !isProfileId(spec.iccProfile)) {
+      spec.iccProfile = resolve(projectDir, spec.iccProfile);
+    }
+    return spec;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ${configPath}: ${message}`);
+  }
+}
+
+/**
+ * Copy a project's pdfx.config.json into `destDir` (the output directory, where
+ * validate and compare read it), with a relative iccProfile made absolute so it
+ * still resolves from there. Does nothing when the project has no config.
+ */
+export function copyPrintSpec(projectDir: string, destDir: string): void {
+  const configPath = join(projectDir, PRINT_SPEC_FILE);
+  if (!existsSync(configPath)) {
+    return;
+  }
+
+  const config = JSON.parse(readFileSync(configPath, "utf-8")) as Partial<PrintSpec>;
+  if (typeof config.iccProfile === "string" && !isProfileId(config.iccProfile)) {
+    config.iccProfile = resolve(projectDir, config.iccProfile);
+  }
+  writeFileSync(join(destDir, PRINT_SPEC_FILE), `${JSON.stringify(config, null, 2)}\n`);
+}
+
+// Run if called directly: print the resolved spec for a project directory
+if (import.meta.main) {
+  const projectDir = process.argv[2] ?? join(ROOT, "input");
+  const spec = loadPrintSpec(projectDir);
+  const source = existsSync(join(projectDir, PRINT_SPEC_FILE))
+    ? join(projectDir, PRINT_SPEC_FILE)
+    : "built-in defaults";
+
+  console.log(`Print spec for ${projectDir} (${source}):`);
+  console.log(`   Trim:      ${formatSize(spec.trimSize)}`);
+  console.log(`   Bleed:     ${spec.bleed}"`);
+  console.log(`   Page:      ${formatSize(pageSize(spec))}`);
+  console.log(`   Max TAC:   ${spec.maxTAC}% (warn above ${spec.warnTAC}%)`);
+  console.log(`   PDF:       ${spec.pdfVersions.join(" or ")}`);
+  console.log(`   Provider:  ${spec.provider ?? "default"}`);
+  console.log(`   ICC:       ${spec.iccProfile ?? "default (assets/CGATS21_CRPC1.icc)"}`);
+  console.log(`   Flatten:   ${spec.flattenTransparency ? `transparent pages at ${spec.dpi} dpi` : "no"}`);
+  const digital = digitalSettings(spec);
+  console.log(`   Digital:   ${digital.dpi} ppi images, max ${digital.maxFileSizeMB} MB`);
+}
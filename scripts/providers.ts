@@ -0,0 +1,280 @@
+#!/usr/bin/env bun
+/**
+ * Print Provider Profiles
+ * Registry of print-on-demand services (DriveThruRPG, Lulu, IngramSpark, KDP)
+ * with their trim sizes, bleed, TAC limit, PDF/X variant, page-count,
+ * font and file-size rules, and the PDF/X conversion targets (X-1a, X-3, X-4)
+ * a run can select instead of the provider's own variant
+ */
+
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadPrintSpec, formatSize, type PrintSpec } from "./print-spec.ts";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  /** Accepted trim sizes in inches */
+  trimSizes: Array<{ width: number; height: number }>;
+  /** Required bleed on each edge in inches */
+  bleed: number;
+  /** Maximum Total Area Coverage accepted by the provider */
+  maxTAC: number;
+  pdfx: {
+    /** PDF/X variant the provider asks for */
+    standard: "PDF/X-1a:2001" | "PDF/X-3:2002" | "PDF/X-4";
+    /** Ghostscript -dCompatibilityLevel used when converting */
+    compatibilityLevel: string;
+    /** Accepted PDF versions */
+    pdfVersions: string[];
+  };
+  pageCount: {
+    min: number;
+    max: number;
+    /** Interior page count must be divisible by this */
+    multipleOf: number;
+  };
+  fonts: {
+    /** Every font must be embedded */
+    requireEmbedded: boolean;
+    /** Type 3 (bitmap/procedural) fonts are accepted */
+    allowType3: boolean;
+  };
+  /** Maximum upload size in megabytes */
+  maxFileSizeMB: number;
+}
+
+export const DEFAULT_PROVIDER = "drivethrurpg";
+
+/** PDF/X conversion target ids, as accepted by --pdfx */
+export type PdfxTarget = "x1a" | "x3" | "x4";
+
+/**
+ * PDF/X variants a run can target. X-1a and X-3 are PDF 1.3 based (no
+ * transparency); X-4 keeps live transparency and ICC-based colour in PDF 1.6.
+ */
+export const PDFX_TARGETS: Record<PdfxTarget, ProviderProfile["pdfx"]> = {
+  x1a: { standard: "PDF/X-1a:2001", compatibilityLevel: "1.3", pdfVersions: ["1.3", "1.4"] },
+  x3: { standard: "PDF/X-3:2002", compatibilityLevel: "1.3", pdfVersions: ["1.3", "1.4"] },
+  x4: { standard: "PDF/X-4", compatibilityLevel: "1.6", pdfVersions: ["1.4", "1.5", "1.6"] },
+};
+
+// Values follow each provider's published interior file guidelines for
+// perfect-bound paperbacks; hardcover and saddle-stitch rules differ.
+export const PROVIDERS: Record<string, ProviderProfile> = {
+  drivethrurpg: {
+    id: "drivethrurpg",
+    name: "DriveThruRPG",
+    trimSizes: [
+      { width: 5.5, height: 8.5 },
+      { width: 6, height: 9 },
+      { width: 6.625, height: 10.25 },
+      { width: 7, height: 10 },
+      { width: 8.5, height: 11 },
+    ],
+    bleed: 0.125,
+    maxTAC: 240,
+    pdfx: { standard: "PDF/X-1a:2001", compatibilityLevel: "1.4", pdfVersions: ["1.3", "1.4"] },
+    pageCount: { min: 24, max: 800, multipleOf: 2 },
+    fonts: { requireEmbedded: true, allowType3: true },
+    maxFileSizeMB: 650,
+  },
+  lulu: {
+    id: "lulu",
+    name: "Lulu",
+    trimSizes: [
+      { width: 5.5, height: 8.5 },
+      { width: 6, height: 9 },
+      { width: 6.625, height: 10.25 },
+      { width: 7, height: 10 },
+      { width: 7.5, height: 7.5 },
+      { width: 8.5, height: 8.5 },
+      { width: 8.5, height: 11 },
+    ],
+    bleed: 0.125,
+    maxTAC: 270,
+    pdfx: { standard: "PDF/X-3:2002", compatibilityLevel: "1.4", pdfVersions: ["1.3", "1.4"] },
+    pageCount: { min: 32, max: 800, multipleOf: 2 },
+    fonts: { requireEmbedded: true, allowType3: true },
+    maxFileSizeMB: 1024,
+  },
+  ingramspark: {
+    id: "ingramspark",
+    name: "IngramSpark",
+    trimSizes: [
+      { width: 5, height: 8 },
+      { width: 5.5, height: 8.5 },
+      { width: 6, height: 9 },
+      { width: 6.14, height: 9.21 },
+      { width: 7, height: 10 },
+      { width: 8.5, height: 11 },
+    ],
+    bleed: 0.125,
+    maxTAC: 240,
+    pdfx: { standard: "PDF/X-1a:2001", compatibilityLevel: "1.3", pdfVersions: ["1.3"] },
+    pageCount: { min: 18, max: 1200, multipleOf: 2 },
+    fonts: { requireEmbedded: true, allowType3: false },
+    maxFileSizeMB: 2048,
+  },
+  kdp: {
+    id: "kdp",
+    name: "Amazon KDP",
+    trimSizes: [
+      { width: 5, height: 8 },
+      { width: 5.5, height: 8.5 },
+      { width: 6, height: 9 },
+      { width: 6.14, height: 9.21 },
+      { width: 7, height: 10 },
+      { width: 8.25, height: 11 },
+      { width: 8.5, height: 11 },
+    ],
+    bleed: 0.125,
+    maxTAC: 300,
+    pdfx: {
+      standard: "PDF/X-1a:2001",
+      compatibilityLevel: "1.4",
+      pdfVersions: ["1.3", "1.4", "1.5", "1.6", "1.7"],
+    },
+    pageCount: { min: 24, max: 828, multipleOf: 2 },
+    fonts: { requireEmbedded: true, allowType3: true },
+    maxFileSizeMB: 650,
+  },
+};
+
+/**
+ * Look up a provider profile by id (case-insensitive)
+ */
+export function getProvider(id: string = DEFAULT_PROVIDER): ProviderProfile {
+  const provider = PROVIDERS[id.toLowerCase()];
+  if (!provider) {
+    throw new Error(`Unknown provider "${id}" (available: ${Object.keys(PROVIDERS).join(", ")})`);
+  }
+  return provider;
+}
+
+/**
+ * Parse a target id: "x4", "X-4", "pdf/x-4" and "PDF/X-4" all select PDF/X-4
+ */
+export function parsePdfxTarget(value: string): PdfxTarget {
+  const id = value.toLowerCase().replace(/^pdf\//, "").replace(/[-:]|2001|2002/g, "");
+  if (!(id in PDFX_TARGETS)) {
+    throw new Error(`Unknown PDF/X target "${value}" (available: ${Object.keys(PDFX_TARGETS).join(", ")})`);
+  }
+  return id as PdfxTarget;
+}
+
+/**
+ * Parse a comma-separated --pdfx list (e.g. "x1a,x4") into unique target ids, in order
+ */
+export function parsePdfxTargetList(list: string): PdfxTarget[] {
+  const targets = list
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+    .map(parsePdfxTarget);
+  return [...new Set(targets)];
+}
+
+/**
+ * Target id of a provider's PDF/X variant
+ */
+export function pdfxTargetOf(provider: ProviderProfile): PdfxTarget {
+  return (Object.keys(PDFX_TARGETS) as PdfxTarget[]).find((id) => PDFX_TARGETS[id].standard === provider.pdfx.standard)!;
+}
+
+/**
+ * The provider with its PDF/X variant replaced by `target`. The provider's own
+ * variant (and its compatibility level) is kept when `target` is the same standard.
+ */
+export function withPdfxTarget(provider: ProviderProfile, target?: PdfxTarget): ProviderProfile {
+  if (!target || PDFX_TARGETS[target].standard === provider.pdfx.standard) {
+    return provider;
+  }
+  return { ...provider, pdfx: PDFX_TARGETS[target] };
+}
+
+/**
+ * Pick the provider for a project: explicit override > spec's "provider" field > default
+ */
+export function resolveProvider(spec: PrintSpec, override?: string): ProviderProfile {
+  return getProvider(override ?? spec.provider ?? DEFAULT_PROVIDER);
+}
+
+/**
+ * Tighten a print spec to a provider's requirements.
+ * The stricter TAC limit wins and only PDF versions both accept are kept.
+ */
+export function applyProvider(spec: PrintSpec, provider: ProviderProfile): PrintSpec {
+  const maxTAC = Math.min(spec.maxTAC, provider.maxTAC);
+  const pdfVersions = spec.pdfVersions.filter((version) => provider.pdfx.pdfVersions.includes(version));
+  if (pdfVersions.length === 0) {
+    throw new Error(
+      `"pdfVersions" (${spec.pdfVersions.join(", ")}) has no version ${provider.name}'s ` +
+        `${provider.pdfx.standard} accepts (${provider.pdfx.pdfVersions.join(", ")})`
+    );
+  }
+  return {
+    ...spec,
+    provider: provider.id,
+    maxTAC,
+    warnTAC: Math.min(spec.warnTAC, maxTAC),
+    pdfVersions,
+  };
+}
+
+/**
+ * Load a project's print spec and provider (retargeted to `target`, if given),
+ * with the spec tightened to the provider
+ */
+export function loadProviderSpec(
+  projectDir: string,
+  providerId?: string,
+  target?: PdfxTarget
+): { spec: PrintSpec; provider: ProviderProfile; baseSpec: PrintSpec } {
+  const baseSpec = loadPrintSpec(projectDir);
+  const provider = withPdfxTarget(resolveProvider(baseSpec, providerId), target);
+  return { spec: applyProvider(baseSpec, provider), provider, baseSpec };
+}
+
+/**
+ * Find the provider trim size matching a measured trim, within tolerance
+ */
+export function matchTrimSize(
+  provider: ProviderProfile,
+  trim: { width: number; height: number },
+  tolerance = 0.02
+): { width: number; height: number } | undefined {
+  return provider.trimSizes.find(
+    (size) => Math.abs(size.width - trim.width) <= tolerance && Math.abs(size.height - trim.height) <= tolerance
+  );
+}
+
+// Run if called directly: list providers, or show one in detail
+if (import.meta.main) {
+  const id = process.argv[2];
+  const providers = id ? [getProvider(id)] : Object.values(PROVIDERS);
+
+  for (const provider of providers) {
+    console.log(`\n🖨️  ${provider.name} (--provider ${provider.id})`);
+    console.log(`   Trim sizes: ${provider.trimSizes.map(formatSize).join(", ")}`);
+    console.log(`   Bleed:      ${provider.bleed}"`);
+    console.log(`   Max TAC:    ${provider.maxTAC}%`);
+    console.log(`   PDF/X:      ${provider.pdfx.standard} (PDF ${provider.pdfx.pdfVersions.join("/")})`);
+    console.log(
+      `   Pages:      ${provider.pageCount.min}-${provider.pageCount.max}, multiple of ${provider.pageCount.multipleOf}`
+    );
+    console.log(
+      `   Fonts:      ${provider.fonts.requireEmbedded ? "all embedded" : "embedding optional"}${provider.fonts.allowType3 ? "" : ", no Type 3"}`
+    );
+    console.log(`   Max file:   ${provider.maxFileSizeMB} MB`);
+  }
+
+  if (!id) {
+    const spec = loadPrintSpec(join(ROOT, "input"));
+    console.log(`\nDefault project uses: ${resolveProvider(spec).name}`);
+    console.log(`\nPDF/X targets (--pdfx): ${Object.entries(PDFX_TARGETS).map(([target, pdfx]) => `${target} = ${pdfx.standard}`).join(", ")}`);
+  }
+}
@@ -0,0 +1,257 @@
+#!/usr/bin/env bun
+/**
+ * Renderer Registry
+ * Describes each HTML-to-PDF engine (PagedJS, Vivliostyle, WeasyPrint and a
+ * plain Chromium baseline) behind a common interface so the batch
+ * orchestrator, comparison report and summary writers can loop over engines
+ * instead of hand-coding each one
+ */
+
+import { $ } from "bun";
+import { readFileSync } from "node:fs";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { buildWithPagedJS, concatenateCSS as pagedjsCSS } from "./build-pagedjs.ts";
+import { buildWithVivliostyle, concatenateCSS as vivliostyleCSS } from "./build-vivliostyle.ts";
+import { buildWithWeasyPrint, concatenateCSS as weasyprintCSS, weasyPrintCommand } from "./build-weasyprint.ts";
+import { buildWithChromium, concatenateCSS as chromiumCSS } from "./build-chromium.ts";
+import { vivliostyleSize, type PrintSpec } from "./print-spec.ts";
+import type { BrowserMessage } from "./browser-capture.ts";
+import type { PdfxTarget } from "./providers.ts";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+export interface BuildResult {
+  success: boolean;
+  outputPath: string;
+  duration: number;
+  /** Engine output saved under logs/ */
+  logPath?: string;
+  /** Console messages and failed requests (Chromium-based engines) */
+  browserMessages?: BrowserMessage[];
+  error?: string;
+}
+
+export interface RenderContext {
+  /** HTML entry point */
+  input: string;
+  /** Theme name or "none" to use HTML-linked CSS */
+  theme?: string;
+  spec: PrintSpec;
+  timeout: number;
+}
+
+export interface Renderer {
+  /** Registry key; also the output file prefix (`<name>-output.pdf`) */
+  name: string;
+  /** Display name for logs and reports */
+  label: string;
+  /** One-line description for the report's tool list */
+  description: string;
+  /** Render the HTML to a (screen/RGB) PDF */
+  build(context: RenderContext, output: string): Promise<BuildResult>;
+  /**
+   * Render PDF/X directly, to the run's main PDF/X target. Engines without native
+   * PDF/X support leave this undefined and are converted with Ghostscript instead.
+   */
+  buildPdfx?(context: RenderContext, output: string, target: PdfxTarget): Promise<BuildResult>;
+  postProcess: {
+    /** Run the PDF/X output through the rasterizing TAC limiter */
+    limitTAC: boolean;
+    /** Logged when TAC limiting is skipped */
+    notes?: string[];
+  };
+  /** Write the engine's concatenated stylesheet and return its path */
+  composeCSS(outputPath: string, theme?: string, spec?: PrintSpec): string;
+  /** Engine version string; part of the build manifest key, so an upgrade triggers a rebuild */
+  version(): Promise<string>;
+}
+
+/**
+ * Installed version of an npm package, or "unknown"
+ */
+function packageVersion(name: string): string {
+  try {
+    return JSON.parse(readFileSync(join(ROOT, "node_modules", name, "package.json"), "utf-8")).version;
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * WeasyPrint --pdf-variant for each PDF/X target. WeasyPrint's pdf/x-1a converts
+ * fonts to outlines, so X-1a targets build pdf/x-3, which keeps embedded fonts
+ */
+const WEASYPRINT_PDF_VARIANTS: Record<PdfxTarget, string> = {
+  x1a: "pdf/x-3",
+  x3: "pdf/x-3",
+  x4: "pdf/x-4",
+};
+
+export const RENDERERS: Record<string, Renderer> = {
+  pagedjs: {
+    name: "pagedjs",
+    label: "PagedJS",
+    description: "Chromium-based CSS Paged Media polyfill (PagedJS CLI)",
+    build: ({ input, theme, spec, timeout }, output) =>
+      buildWithPagedJS({
+        input,
+        output,
+        timeout,
+        theme,
+        printSpec: spec,
+        // Let CSS @page size rule control page dimensions
+        // PagedJS's -w/-h options don't work as expected with CSS-defined sizes
+      }),
+    postProcess: { limitTAC: true },
+    composeCSS: pagedjsCSS,
+    version: async () => `pagedjs-cli ${packageVersion("pagedjs-cli")}`,
+  },
+  vivliostyle: {
+    name: "vivliostyle",
+    label: "Vivliostyle",
+    description: "Native CSS Paged Media renderer (Vivliostyle CLI, Chromium-based)",
+    build: ({ input, theme, spec, timeout }, output) =>
+      buildWithVivliostyle({
+        input,
+        output,
+        timeout,
+        theme,
+        printSpec: spec,
+        // Pass explicit page size for consistent output
+        size: vivliostyleSize(spec),
+        // Note: We don't use press-ready here as we do our own PDF/X conversion
+        // with Ghostscript for better control over the process
+      }),
+    postProcess: { limitTAC: true },
+    composeCSS: vivliostyleCSS,
+    version: async () => `@vivliostyle/cli ${packageVersion("@vivliostyle/cli")}`,
+  },
+  weasyprint: {
+    name: "weasyprint",
+    label: "WeasyPrint",
+    description: "Python-based CSS Paged Media renderer (non-Chromium)",
+    build: ({ input, theme, spec, timeout }, output) =>
+      buildWithWeasyPrint({
+        input,
+        output,
+        timeout,
+        mediaType: "print",
+        theme,
+        printSpec: spec,
+      }),
+    // WeasyPrint 68+ supports native PDF/X output, skipping Ghostscript conversion
+    // (PDF/X-3 for X-1a targets, see WEASYPRINT_PDF_VARIANTS)
+    // This uses the CGATS21_CRPC1.icc profile via CSS @color-profile
+    buildPdfx: ({ input, theme, spec, timeout }, output, target) =>
+      buildWithWeasyPrint({
+        input,
+        output,
+        timeout,
+        mediaType: "print",
+        theme,
+        printSpec: spec,
+        pdfVariant: WEASYPRINT_PDF_VARIANTS[target],
+        optimizeImages: true,
+        dpi: spec.dpi, // Print-quality DPI
+        fullFonts: true, // Embed full fonts (required for print)
+      }),
+    // CRITICAL: Ghostscript's inkcov device reports ~400% TAC for device-cmyk() colors
+    // even though the mathematical TAC is only 230%. This is a MEASUREMENT ARTIFACT.
+    // WeasyPrint with device-cmyk() produces TAC-compliant output by design.
+    // TAC limiting would rasterize the PDF, destroying embedded fonts for no benefit.
+    postProcess: {
+      limitTAC: false,
+      notes: [
+        "Skipping TAC limiting for WeasyPrint to preserve embedded fonts",
+        "Note: Ghostscript inkcov reports inflated TAC for device-cmyk() colors",
+        "Mathematical TAC for device-cmyk(0.5 0.4 0.4 1) = 230% (compliant)",
+      ],
+    },
+    composeCSS: weasyprintCSS,
+    version: async () => {
+      const result = await $`${weasyPrintCommand()} --version`.quiet().nothrow();
+      return result.exitCode === 0 ? result.stdout.toString().trim() : "unknown";
+    },
+  },
+  chromium: {
+    name: "chromium",
+    label: "Chromium",
+    description: "Plain Chromium print-to-PDF via Puppeteer, no paged-media polyfill (control build)",
+    build: ({ input, theme, spec, timeout }, output) =>
+      buildWithChromium({
+        input,
+        output,
+        timeout,
+        theme,
+        printSpec: spec,
+      }),
+    postProcess: { limitTAC: true },
+    composeCSS: chromiumCSS,
+    // The browser binary is part of the version: the same Puppeteer can drive different Chromium builds
+    version: async () =>
+      `puppeteer ${packageVersion("puppeteer")} (${process.env.PUPPETEER_EXECUTABLE_PATH || "bundled browser"})`,
+  },
+};
+
+/**
+ * Look up a renderer by name
+ */
+export function getRenderer(name: string): Renderer {
+  const renderer = RENDERERS[name.toLowerCase()];
+  if (!renderer) {
+    throw new Error(`Unknown engine "${name}" (available: ${Object.keys(RENDERERS).join(", ")})`);
+  }
+  return renderer;
+}
+
+/**
+ * Resolve the engines to run: an explicit list (default: every registered engine) minus skipped ones
+ */
+export function selectRenderers(engines?: string[], skip: string[] = []): Renderer[] {
+  const skipped = new Set(skip.map((name) => name.toLowerCase()));
+  return (engines ?? Object.keys(RENDERERS))
+    .map(getRenderer)
+    .filter((renderer) => !skipped.has(renderer.name));
+}
+
+/**
+ * Parse a comma-separated engine list (e.g. "pagedjs,weasyprint")
+ */
+export function parseEngineList(value: string): string[] {
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0)
+    .map((name) => getRenderer(name).name);
+}
+
+/**
+ * Standard output file locations for an engine within a project output directory.
+ * With a PDF/X `target` other than the provider's, the PDF/X files carry its id
+ * (e.g. `pagedjs-pdfx-x4.pdf`) so they sit next to the provider's own.
+ */
+export function rendererOutputs(
+  outputDir: string,
+  name: string,
+  target?: PdfxTarget
+): { rgb: string; pdfx: string; tacLimited: (suffix: string) => string; digital: string } {
+  const pdfx = target ? `${name}-pdfx-${target}` : `${name}-pdfx`;
+  return {
+    rgb: join(outputDir, `${name}-output.pdf`),
+    pdfx: join(outputDir, `${pdfx}.pdf`),
+    tacLimited: (suffix) => join(outputDir, `${pdfx}-${suffix}.pdf`),
+    digital: join(outputDir, `${name}-digital.pdf`),
+  };
+}
+
+// Run if called directly: list registered engines
+if (import.meta.main) {
+  for (const renderer of Object.values(RENDERERS)) {
+    console.log(`\n🖨️  ${renderer.label} (${renderer.name})`);
+    console.log(`   PDF/X:        ${renderer.buildPdfx ? "native" : "Ghostscript conversion"}`);
+    console.log(`   TAC limiting: ${renderer.postProcess.limitTAC ? "yes" : "no"}`);
+    console.log(`   Version:      ${await renderer.version()}`);
+  }
+}
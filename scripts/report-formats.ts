@@ -0,0 +1,170 @@
+#!/usr/bin/env bun
+/**
+ * Machine-Readable Report Formats
+ * Serializes comparison and batch results as versioned JSON and as JUnit XML
+ * (one test case per validation check, one suite per engine and PDF variant)
+ * so CI dashboards don't have to parse the Markdown reports
+ */
+
+import type { ComparisonReport } from "./compare-pdfs.ts";
+import type { ValidationResult } from "./validate-pdfs.ts";
+import type { TACValidationResult } from "./validate-tac.ts";
+
+/**
+ * Version of the JSON report layout. Bump on breaking changes (renamed or
+ * removed fields); adding fields does not need a bump.
+ */
+export const REPORT_SCHEMA_VERSION = 1;
+
+export interface VersionedReport<Kind extends string, T> {
+  schemaVersion: number;
+  kind: Kind;
+  report: T;
+}
+
+/**
+ * Wrap a report with its schema version and kind
+ */
+export function versioned<Kind extends string, T>(kind: Kind, report: T): VersionedReport<Kind, T> {
+  return { schemaVersion: REPORT_SCHEMA_VERSION, kind, report };
+}
+
+/**
+ * JSON text for a report file (pretty-printed, trailing newline)
+ */
+export function toJSON<Kind extends string, T>(kind: Kind, report: T): string {
+  return JSON.stringify(versioned(kind, report), null, 2) + "\n";
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+interface TestCase {
+  name: string;
+  classname: string;
+  /** Set for failed cases */
+  failure?: { type: string; message: string };
+  /** Set for cases that could not run */
+  skipped?: string;
+  output?: string;
+}
+
+interface TestSuite {
+  name: string;
+  cases: TestCase[];
+}
+
+/**
+ * Test cases for one validated PDF. Failed error-severity checks are JUnit
+ * failures; failed warnings pass but keep their details in system-out.
+ */
+function validationCases(classname: string, validation: ValidationResult | null): TestCase[] {
+  if (!validation) {
+    // Not built or conversion skipped; build failures are reported by the batch itself
+    return [{ name: "Output present", classname, skipped: "PDF not found" }];
+  }
+
+  return validation.checks.map((check) => {
+    const details = `expected: ${check.expected}\nactual: ${check.actual}\nseverity: ${check.severity}`;
+    return {
+      name: check.name,
+      classname,
+      failure:
+        !check.passed && check.severity === "error"
+          ? { type: check.severity, message: `Expected ${check.expected}, got ${check.actual}` }
+          : undefined,
+      output: details,
+    };
+  });
+}
+
+function tacCase(classname: string, tac: TACValidationResult): TestCase {
+  return {
+    name: "TAC per page",
+    classname,
+    failure: tac.passed
+      ? undefined
+      : {
+          type: "error",
+          message: `Max TAC ${tac.maxTAC.toFixed(1)}% exceeds ${tac.limit}% on page(s) ${tac.pagesOverLimit.join(", ")}`,
+        },
+    output: tac.summary,
+  };
+}
+
+/**
+ * One suite per engine and variant (e.g. "book1.pagedjs.pdfx", "book1.pagedjs.pdfx-x4" for
+ * another PDF/X target or "book1.pagedjs.digital"), prefixed with the project name if given
+ */
+export function comparisonSuites(report: ComparisonReport, project?: string): TestSuite[] {
+  const suites: TestSuite[] = [];
+  for (const [name, engine] of Object.entries(report.engines)) {
+    for (const variant of ["rgb", "pdfx"] as const) {
+      const suiteName = [project, name, variant].filter(Boolean).join(".");
+      const cases = validationCases(suiteName, engine[variant]);
+      if (variant === "pdfx" && engine.tacValidation) {
+        cases.push(tacCase(suiteName, engine.tacValidation));
+      }
+      suites.push({ name: suiteName, cases });
+    }
+    for (const [target, result] of Object.entries(engine.targets ?? {})) {
+      const suiteName = [project, name, `pdfx-${target}`].filter(Boolean).join(".");
+      suites.push({ name: suiteName, cases: validationCases(suiteName, result) });
+    }
+    if (engine.digital) {
+      const suiteName = [project, name, "digital"].filter(Boolean).join(".");
+      suites.push({ name: suiteName, cases: validationCases(suiteName, engine.digital) });
+    }
+  }
+  return suites;
+}
+
+/**
+ * Render suites as a JUnit XML document
+ */
+export function toJUnitXml(name: string, suites: TestSuite[]): string {
+  const count = (cases: TestCase[]) => ({
+    tests: cases.length,
+    failures: cases.filter((c) => c.failure).length,
+    skipped: cases.filter((c) => c.skipped).length,
+  });
+  const total = count(suites.flatMap((suite) => suite.cases));
+
+  const lines: string[] = [];
+  lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+  lines.push(
+    `<testsuites name="${escapeXml(name)}" tests="${total.tests}" failures="${total.failures}" errors="0" skipped="${total.skipped}">`
+  );
+  for (const suite of suites) {
+    const { tests, failures, skipped } = count(suite.cases);
+    lines.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${tests}" failures="${failures}" errors="0" skipped="${skipped}">`
+    );
+    for (const test of suite.cases) {
+      lines.push(`    <testcase name="${escapeXml(test.name)}" classname="${escapeXml(test.classname)}" time="0">`);
+      if (test.failure) {
+        lines.push(
+          `      <failure type="${escapeXml(test.failure.type)}" message="${escapeXml(test.failure.message)}"/>`
+        );
+      }
+      if (test.skipped) {
+        lines.push(`      <skipped message="${escapeXml(test.skipped)}"/>`);
+      }
+      if (test.output) {
+        lines.push(`      <system-out>${escapeXml(test.output)}</system-out>`);
+      }
+      lines.push(`    </testcase>`);
+    }
+    lines.push(`  </testsuite>`);
+  }
+  lines.push(`</testsuites>`);
+  return lines.join("\n") + "\n";
+}
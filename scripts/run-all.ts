@@ -3,11 +3,14 @@
  * PDFX Test Harness - Main Runner
  * 
  * Orchestrates the complete test pipeline:
- * 1. Build PDF with PagedJS CLI
- * 2. Build PDF with Vivliostyle CLI
- * 3. Convert both to PDF/X using Ghostscript
- * 4. Validate all outputs
- * 5. Generate comparison report
+ * 1. Build PDF with each engine registered in renderers.ts (PagedJS, Vivliostyle,
+ *    WeasyPrint and the plain Chromium baseline)
+ * 2. Convert to PDF/X using Ghostscript (or the engine's native PDF/X output)
+ * 3. Validate all outputs
+ * 4. Generate comparison report
+ *
+ * Steps run as a dependency graph of jobs; --concurrency N runs up to N of
+ * them at once across engines and projects.
  */
 
 import { $ } from "bun";
@@ -15,8 +18,12 @@ import { existsSync, mkdirSync, readdirSync } from "node:fs";
 import { join, dirname, basename } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { processBatch, type BatchOptions } from "./batch-process.ts";
-import type { TACValidationResult } from "./validate-tac.ts";
+import { processBatch, type EngineResult } from "./batch-process.ts";
+import { RENDERERS, parseEngineList } from "./renderers.ts";
+import { parsePdfxTargetList, type PdfxTarget } from "./providers.ts";
+import { createJobPool, parseConcurrency } from "./job-pool.ts";
+import { comparisonSuites, toJSON, toJUnitXml } from "./report-formats.ts";
+import type { ComparisonReport } from "./compare-pdfs.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
@@ -27,9 +34,11 @@ type ProjectRunResult = {
   outputDir: string;
   duration: number;
   success: boolean;
-  pagedjs: { build: boolean; convert: boolean; tacValidation?: TACValidationResult };
-  vivliostyle: { build: boolean; convert: boolean; tacValidation?: TACValidationResult };
+  /** Keyed by renderer name; engines that were not run are absent */
+  engines: Record<string, EngineResult>;
   errors: string[];
+  /** comparison-report.json relative to the output base, when the compare step ran */
+  comparisonReport: string | null;
 };
 
 interface BatchPipelineResult {
@@ -81,11 +90,22 @@ async function installDependencies(): Promise<void> {
 }
 
 async function runPipeline(options: {
-  skipPagedJS?: boolean;
-  skipVivliostyle?: boolean;
+  engines?: string[];
+  skipEngines?: string[];
   skipConvert?: boolean;
   skipCompare?: boolean;
   strictCompliance?: boolean;
+  provider?: string;
+  /** PDF/X targets to convert to; the first is the main one (default: the provider's) */
+  pdfxTargets?: PdfxTarget[];
+  /** Also build and validate each engine's digital edition */
+  digital?: boolean;
+  /** Maximum jobs running at once across all projects (default: 1) */
+  concurrency?: number;
+  /** Pages rasterized at once within each TAC limiting job (default: 1) */
+  tacWorkers?: number;
+  /** Ignore build manifests and re-run every stage */
+  force?: boolean;
 }): Promise<BatchPipelineResult> {
   const startTime = performance.now();
 
@@ -184,8 +204,12 @@ async function runPipeline(options: {
   console.log(`📁 Output base: ${outputBaseDir}`);
   console.log(`📦 Projects: ${projectsToProcess.map((p) => p.name).join(", ")}`);
 
-  const projects: ProjectRunResult[] = [];
-  for (const project of projectsToProcess) {
+  // All projects share one pool, so --concurrency bounds the whole run
+  const pool = createJobPool(options.concurrency ?? 1);
+  console.log(`🧵 Concurrency: ${pool.concurrency}`);
+
+  const reports = new Map<string, ComparisonReport>();
+  const projects: ProjectRunResult[] = await Promise.all(projectsToProcess.map(async (project) => {
     const projectStart = performance.now();
     const projectOutputDir = join(outputBaseDir, project.name);
 
@@ -193,24 +217,33 @@ async function runPipeline(options: {
       inputDir: project.dir,
       outputDir: projectOutputDir,
       htmlFile: "book.html",
-      skipPagedJS: Boolean(options.skipPagedJS),
-      skipVivliostyle: Boolean(options.skipVivliostyle),
+      engines: options.engines,
+      skipEngines: options.skipEngines,
       skipConvert: Boolean(options.skipConvert),
       skipCompare: Boolean(options.skipCompare),
       strictCompliance: Boolean(options.strictCompliance),
+      provider: options.provider,
+      pdfxTargets: options.pdfxTargets,
+      digital: options.digital,
+      pool,
+      tacWorkers: options.tacWorkers,
+      force: options.force,
     });
+    if (batchResult.report) {
+      reports.set(project.name, batchResult.report);
+    }
 
-    projects.push({
+    return {
       name: project.name,
       inputDir: project.dir,
       outputDir: projectOutputDir,
       duration: performance.now() - projectStart,
       success: batchResult.success,
-      pagedjs: batchResult.pagedjs,
-      vivliostyle: batchResult.vivliostyle,
+      engines: batchResult.engines,
       errors: batchResult.errors,
-    });
-  }
+      comparisonReport: batchResult.report ? `./${project.name}/comparison-report.json` : null,
+    };
+  }));
 
   // Write a summary report (matches docker-entrypoint behavior)
   const summaryPath = join(outputBaseDir, "batch-summary.md");
@@ -231,38 +264,23 @@ async function runPipeline(options: {
       lines.push(`- **Input:** ${p.inputDir}`);
       lines.push(`- **Output:** ./${p.name}`);
 
-      const pjBuildStatus = options.skipPagedJS ? "⏭️" : p.pagedjs.build ? "✅" : "❌";
-      const pjConvertStatus =
-        options.skipPagedJS || options.skipConvert ? "⏭️" : p.pagedjs.convert ? "✅" : "❌";
-      const vsBuildStatus = options.skipVivliostyle ? "⏭️" : p.vivliostyle.build ? "✅" : "❌";
-      const vsConvertStatus =
-        options.skipVivliostyle || options.skipConvert ? "⏭️" : p.vivliostyle.convert ? "✅" : "❌";
-
-      lines.push(`- **PagedJS:** build=${pjBuildStatus}, pdfx=${pjConvertStatus}`);
-
-      // Add TAC validation status for PagedJS
-      if (p.pagedjs.tacValidation) {
-        const tac = p.pagedjs.tacValidation;
-        const tacStatus = tac.passed ? "✅" : "❌";
-        lines.push(`  - TAC: ${tacStatus} Max=${tac.maxTAC.toFixed(1)}%, Avg=${tac.averageTAC.toFixed(1)}%`);
-        if (tac.pagesOverLimit.length > 0) {
-          lines.push(`  - ⚠️ ${tac.pagesOverLimit.length} page(s) exceed 240% TAC limit`);
-        } else if (tac.pagesWithWarnings.length > 0) {
-          lines.push(`  - ⚠️ ${tac.pagesWithWarnings.length} page(s) in warning zone (200-240%)`);
-        }
-      }
-
-      lines.push(`- **Vivliostyle:** build=${vsBuildStatus}, pdfx=${vsConvertStatus}`);
-
-      // Add TAC validation status for Vivliostyle
-      if (p.vivliostyle.tacValidation) {
-        const tac = p.vivliostyle.tacValidation;
-        const tacStatus = tac.passed ? "✅" : "❌";
-        lines.push(`  - TAC: ${tacStatus} Max=${tac.maxTAC.toFixed(1)}%, Avg=${tac.averageTAC.toFixed(1)}%`);
-        if (tac.pagesOverLimit.length > 0) {
-          lines.push(`  - ⚠️ ${tac.pagesOverLimit.length} page(s) exceed 240% TAC limit`);
-        } else if (tac.pagesWithWarnings.length > 0) {
-          lines.push(`  - ⚠️ ${tac.pagesWithWarnings.length} page(s) in warning zone (200-240%)`);
+      for (const renderer of Object.values(RENDERERS)) {
+        const engine = p.engines[renderer.name];
+        const buildStatus = !engine ? "⏭️" : engine.build ? "✅" : "❌";
+        const convertStatus = !engine || options.skipConvert ? "⏭️" : engine.convert ? "✅" : "❌";
+
+        lines.push(`- **${renderer.label}:** build=${buildStatus}, pdfx=${convertStatus}`);
+
+        // Add TAC validation status
+        if (engine?.tacValidation) {
+          const tac = engine.tacValidation;
+          const tacStatus = tac.passed ? "✅" : "❌";
+          lines.push(`  - TAC: ${tacStatus} Max=${tac.maxTAC.toFixed(1)}%, Avg=${tac.averageTAC.toFixed(1)}%`);
+          if (tac.pagesOverLimit.length > 0) {
+            lines.push(`  - ⚠️ ${tac.pagesOverLimit.length} page(s) exceed ${tac.limit}% TAC limit`);
+          } else if (tac.pagesWithWarnings.length > 0) {
+            lines.push(`  - ⚠️ ${tac.pagesWithWarnings.length} page(s) in warning zone (${tac.warnLimit}-${tac.limit}%)`);
+          }
         }
       }
 
@@ -289,6 +307,28 @@ async function runPipeline(options: {
   const totalDuration = performance.now() - startTime;
   const overallSuccess = projects.every((p) => p.success);
 
+  // Machine-readable counterparts for build dashboards
+  try {
+    await Bun.write(
+      join(outputBaseDir, "batch-summary.json"),
+      toJSON("batch-summary", {
+        generatedAt: new Date().toISOString(),
+        success: overallSuccess,
+        totalDuration,
+        projects,
+      })
+    );
+    await Bun.write(
+      join(outputBaseDir, "batch-junit.xml"),
+      toJUnitXml(
+        "PDFX Test Harness",
+        projects.flatMap((p) => (reports.has(p.name) ? comparisonSuites(reports.get(p.name)!, p.name) : []))
+      )
+    );
+  } catch {
+    // Non-fatal
+  }
+
   console.log(`\n${"=".repeat(60)}`);
   console.log(`   PIPELINE COMPLETE`);
   console.log(`${"=".repeat(60)}`);
@@ -307,31 +347,37 @@ async function runPipeline(options: {
 
 // Parse CLI arguments
 function parseArgs(): {
-  skipPagedJS: boolean;
-  skipVivliostyle: boolean;
+  engines?: string[];
+  skipEngines: string[];
   skipConvert: boolean;
   skipCompare: boolean;
   strictCompliance: boolean;
+  provider?: string;
+  pdfxTargets?: PdfxTarget[];
+  digital: boolean;
+  concurrency?: number;
+  tacWorkers?: number;
+  force: boolean;
   help: boolean;
 } {
   const args = process.argv.slice(2);
 
-  const options = {
-    skipPagedJS: false,
-    skipVivliostyle: false,
+  const options: ReturnType<typeof parseArgs> = {
+    skipEngines: [],
     skipConvert: false,
     skipCompare: false,
     strictCompliance: false,
+    digital: false,
+    force: false,
     help: false,
   };
 
-  for (const arg of args) {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
     switch (arg) {
-      case "--skip-pagedjs":
-        options.skipPagedJS = true;
-        break;
-      case "--skip-vivliostyle":
-        options.skipVivliostyle = true;
+      case "--engines":
+        options.engines = parseEngineList(args[i + 1]);
+        i++;
         break;
       case "--skip-convert":
         options.skipConvert = true;
@@ -342,10 +388,38 @@ function parseArgs(): {
       case "--strict":
         options.strictCompliance = true;
         break;
+      case "--force":
+        options.force = true;
+        break;
+      case "--digital":
+        options.digital = true;
+        break;
+      case "--provider":
+        options.provider = args[i + 1];
+        i++;
+        break;
+      case "--pdfx":
+        options.pdfxTargets = parsePdfxTargetList(args[i + 1]);
+        i++;
+        break;
+      case "--concurrency":
+        options.concurrency = parseConcurrency(args[i + 1]);
+        i++;
+        break;
+      case "--tac-workers":
+        options.tacWorkers = parseConcurrency(args[i + 1]);
+        i++;
+        break;
       case "--help":
       case "-h":
         options.help = true;
         break;
+      default:
+        // --skip-<engine> for any registered renderer (e.g. --skip-pagedjs)
+        if (arg.startsWith("--skip-") && RENDERERS[arg.slice("--skip-".length)]) {
+          options.skipEngines.push(arg.slice("--skip-".length));
+        }
+        break;
     }
   }
 
@@ -353,35 +427,47 @@ function parseArgs(): {
 }
 
 function printHelp(): void {
+  const labels = Object.values(RENDERERS).map((renderer) => renderer.label);
   console.log(`
 PDFX Test Harness
 =================
 
-Compare PagedJS and Vivliostyle PDF rendering for DriveThruRPG compliance.
+Compare ${labels.slice(0, -1).join(", ")} and ${labels.at(-1)} PDF rendering for print-provider compliance.
 
 Usage:
   bun run scripts/run-all.ts [options]
 
 Options:
-  --skip-pagedjs      Skip PagedJS build step
-  --skip-vivliostyle  Skip Vivliostyle build step
+  --engines <list>    Comma-separated engines to run (default: all registered)
+  --skip-<engine>     Skip one engine (e.g. --skip-pagedjs, --skip-weasyprint)
   --skip-convert      Skip PDF/X conversion step
   --skip-compare      Skip validation and comparison step
-  --strict            Fail with exit code 1 if no PDF is DriveThruRPG compliant
+  --provider <id>     Print provider profile: drivethrurpg (default), lulu,
+                      ingramspark, kdp
+  --pdfx <list>       PDF/X targets to convert to: x1a, x3, x4 (default: the
+                      provider's). Extra targets are compared side by side
+  --digital           Also build a digital edition (RGB PDF with bookmarks and
+                      links, screen-resolution images, linearized) per engine
+  --strict            Fail with exit code 1 if no PDF is provider compliant
+  --concurrency <N>   Run up to N jobs (builds, conversions, TAC runs) at once,
+                      across engines and projects (default: 1)
+  --tac-workers <N>   Rasterize up to N pages at once in each TAC limiting job (default: 1)
+  --force             Re-run every stage, ignoring each project's build-manifest.json
   -h, --help          Show this help message
 
 Examples:
   bun run scripts/run-all.ts                    # Run full pipeline
-  bun run scripts/run-all.ts --skip-pagedjs     # Only test Vivliostyle
+  bun run scripts/run-all.ts --engines vivliostyle  # Only test Vivliostyle
   bun run scripts/run-all.ts --skip-convert     # Compare RGB PDFs only
+  bun run scripts/run-all.ts --concurrency 4    # Four jobs in parallel
+  bun run scripts/run-all.ts --pdfx x1a,x4      # PDF/X-1a and PDF/X-4 side by side
 
 Output:
-  OUTPUT_DIR/batch-summary.md
-  OUTPUT_DIR/<project>/pagedjs-output.pdf
-  OUTPUT_DIR/<project>/pagedjs-pdfx.pdf
-  OUTPUT_DIR/<project>/vivliostyle-output.pdf
-  OUTPUT_DIR/<project>/vivliostyle-pdfx.pdf
-  OUTPUT_DIR/<project>/comparison-report.md
+  OUTPUT_DIR/batch-summary.md (+ batch-summary.json, batch-junit.xml)
+  OUTPUT_DIR/<project>/<engine>-output.pdf
+  OUTPUT_DIR/<project>/<engine>-pdfx.pdf
+  OUTPUT_DIR/<project>/comparison-report.md (+ .json, .junit.xml)
+  OUTPUT_DIR/<project>/build-manifest.json
 
 Input discovery:
   - If INPUT_DIR is unset: uses bundled ./input and outputs to ./output/default-test
@@ -0,0 +1,460 @@
+#!/usr/bin/env bun
+/**
+ * Per-Pixel TAC Analyzer
+ * Renders each page to 8-bit CMYK with Ghostscript's tiff32nc device and reads
+ * the raster directly, reporting per page:
+ * - the maximum TAC at any single pixel (what print providers actually limit)
+ * - the percentage of the page area above the TAC limit
+ * - the average TAC over the page (what Ghostscript's inkcov device reports)
+ * and optionally writes a heatmap PNG for each page over the limit: the page
+ * in grey with areas over the limit in red and the warning zone in amber.
+ *
+ * Usage:
+ *   bun run scripts/tac-analyzer.ts <pdf-file> [--limit 240] [--dpi 72] [--json]
+ */
+
+import { $ } from "bun";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { deflateSync } from "node:zlib";
+import { join, dirname, basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { DEFAULT_PRINT_SPEC } from "./print-spec.ts";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+/**
+ * Resolution pages are analyzed at. Ghostscript does not anti-alias tiff32nc
+ * output, so any solid area at least one pixel wide keeps its exact TAC.
+ */
+export const DEFAULT_TAC_DPI = 72;
+
+/** Pages rendered per Ghostscript run: one interpreter start-up per range, bounded scratch space */
+const PAGES_PER_RENDER = 20;
+
+/** An 8-bit CMYK raster, 4 bytes per pixel (C, M, Y, K; 255 = 100% ink) */
+export interface CmykRaster {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface PageTAC {
+  page: number;
+  /** Highest C+M+Y+K at any pixel, in percent */
+  maxTAC: number;
+  /** Mean C+M+Y+K over the page, in percent */
+  averageTAC: number;
+  /** Share of the page's pixels above the limit, in percent */
+  areaOverLimit: number;
+  /** C, M, Y, K (percent) of the pixel with the highest TAC */
+  cmykAtMax: [number, number, number, number];
+  /** Heatmap PNG, written for pages over the limit when heatmaps are requested */
+  heatmap?: string;
+}
+
+export interface TACAnalysis {
+  file: string;
+  dpi: number;
+  /** Limit used for `areaOverLimit` */
+  limit: number;
+  pageCount: number;
+  maxTAC: number;
+  averageTAC: number;
+  perPage: PageTAC[];
+}
+
+export interface AnalyzeTACOptions {
+  /** TAC limit in percent (default: the DriveThruRPG 240%) */
+  limit?: number;
+  dpi?: number;
+  /** Scratch directory for the page rasters (default: output/temp) */
+  tempDir?: string;
+  /** Write heatmaps of pages over the limit to `dir` (emptied first); `warnLimit` starts the amber zone */
+  heatmaps?: { dir: string; warnLimit: number };
+}
+
+// TIFF tags read by readCmykTiff (and written by writeCmykTiff)
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIGURATION = 284;
+
+const PHOTOMETRIC_SEPARATED = 5;
+
+/**
+ * Read the first image of an uncompressed, 8-bit, 4-channel CMYK TIFF
+ * (the layout Ghostscript's tiff32nc device writes)
+ */
+export function readCmykTiff(buffer: Uint8Array): CmykRaster {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const order = String.fromCharCode(buffer[0], buffer[1]);
+  if (order !== "II" && order !== "MM") {
+    throw new Error("Not a TIFF file");
+  }
+  const little = order === "II";
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+  if (u16(2) !== 42) {
+    throw new Error("Unsupported TIFF variant (BigTIFF?)");
+  }
+
+  // Tag values: SHORT (3) or LONG (4), inline when they fit in 4 bytes
+  const tags = new Map<number, number[]>();
+  const ifd = u32(4);
+  const entries = u16(ifd);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = u16(entry);
+    const type = u16(entry + 2);
+    const count = u32(entry + 4);
+    if (type !== 3 && type !== 4) continue;
+    const size = type === 3 ? 2 : 4;
+    const base = count * size <= 4 ? entry + 8 : u32(entry + 8);
+    const values: number[] = [];
+    for (let j = 0; j < count; j++) {
+      values.push(type === 3 ? u16(base + j * size) : u32(base + j * size));
+    }
+    tags.set(tag, values);
+  }
+
+  const tag = (id: number, fallback?: number) => {
+    const value = tags.get(id)?.[0] ?? fallback;
+    if (value === undefined) {
+      throw new Error(`TIFF is missing tag ${id}`);
+    }
+    return value;
+  };
+
+  const width = tag(TAG_IMAGE_WIDTH);
+  const height = tag(TAG_IMAGE_LENGTH);
+  const samples = tag(TAG_SAMPLES_PER_PIXEL, 1);
+  const bits = tags.get(TAG_BITS_PER_SAMPLE) ?? [1];
+  if (tag(TAG_PHOTOMETRIC) !== PHOTOMETRIC_SEPARATED || samples !== 4) {
+    throw new Error("TIFF is not CMYK (render with -sDEVICE=tiff32nc)");
+  }
+  if (bits.some((b) => b !== 8)) {
+    throw new Error(`Unsupported TIFF bit depth ${bits.join("/")} (expected 8 bits per sample)`);
+  }
+  if (tag(TAG_COMPRESSION, 1) !== 1) {
+    throw new Error("Compressed TIFFs are not supported (tiff32nc writes uncompressed)");
+  }
+  if (tag(TAG_PLANAR_CONFIGURATION, 1) !== 1) {
+    throw new Error("Planar TIFFs are not supported");
+  }
+
+  // Strips are consecutive rows; concatenate them
+  const offsets = tags.get(TAG_STRIP_OFFSETS) ?? [];
+  const counts = tags.get(TAG_STRIP_BYTE_COUNTS) ?? [];
+  const data = new Uint8Array(width * height * 4);
+  let position = 0;
+  for (let i = 0; i < offsets.length && position < data.length; i++) {
+    const length = Math.min(counts[i] ?? data.length - position, data.length - position);
+    data.set(buffer.subarray(offsets[i], offsets[i] + length), position);
+    position += length;
+  }
+  if (position < data.length) {
+    throw new Error(`TIFF strips hold ${position} of ${data.length} bytes`);
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode a raster as an uncompressed CMYK TIFF with a single strip (the layout readCmykTiff reads back)
+ */
+export function writeCmykTiff(raster: CmykRaster): Uint8Array {
+  const { width, height, data } = raster;
+  const entries: [tag: number, type: 3 | 4, values: number[]][] = [
+    [TAG_IMAGE_WIDTH, 4, [width]],
+    [TAG_IMAGE_LENGTH, 4, [height]],
+    [TAG_BITS_PER_SAMPLE, 3, [8, 8, 8, 8]],
+    [TAG_COMPRESSION, 3, [1]],
+    [TAG_PHOTOMETRIC, 3, [PHOTOMETRIC_SEPARATED]],
+    [TAG_STRIP_OFFSETS, 4, [0]], // Patched below once the layout is known
+    [TAG_SAMPLES_PER_PIXEL, 3, [4]],
+    [TAG_ROWS_PER_STRIP, 4, [height]],
+    [TAG_STRIP_BYTE_COUNTS, 4, [data.length]],
+    [TAG_PLANAR_CONFIGURATION, 3, [1]],
+  ];
+
+  // Header, IFD, the out-of-line BitsPerSample values, then the pixels
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const bitsOffset = ifdOffset + ifdSize;
+  const dataOffset = bitsOffset + 8;
+  entries[5][2] = [dataOffset];
+
+  const buffer = new Uint8Array(dataOffset + data.length);
+  const view = new DataView(buffer.buffer);
+  buffer.set([0x49, 0x49]); // "II"
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+  view.setUint16(ifdOffset, entries.length, true);
+  entries.forEach(([tag, type, values], i) => {
+    const entry = ifdOffset + 2 + i * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+    if (values.length > 1) {
+      view.setUint32(entry + 8, bitsOffset, true);
+      values.forEach((value, j) => view.setUint16(bitsOffset + j * 2, value, true));
+    } else if (type === 3) {
+      view.setUint16(entry + 8, values[0], true);
+    } else {
+      view.setUint32(entry + 8, values[0], true);
+    }
+  });
+  buffer.set(data, dataOffset);
+  return buffer;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const percent = (value: number) => round1((value / 255) * 100);
+
+/**
+ * TAC statistics for one CMYK raster
+ */
+export function measureRaster(raster: CmykRaster, limit: number): Omit<PageTAC, "page"> {
+  const { data } = raster;
+  const pixels = raster.width * raster.height;
+  // Compare in 0-1020 units to avoid a division per pixel
+  const limitUnits = (limit / 100) * 255;
+  let max = 0;
+  let maxAt = 0;
+  let total = 0;
+  let over = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const sum = data[i] + data[i + 1] + data[i + 2] + data[i + 3];
+    total += sum;
+    if (sum > max) {
+      max = sum;
+      maxAt = i;
+    }
+    if (sum > limitUnits) {
+      over++;
+    }
+  }
+
+  return {
+    maxTAC: percent(max),
+    averageTAC: pixels > 0 ? percent(total / pixels) : 0,
+    areaOverLimit: pixels > 0 ? round1((over / pixels) * 100) : 0,
+    cmykAtMax: [percent(data[maxAt]), percent(data[maxAt + 1]), percent(data[maxAt + 2]), percent(data[maxAt + 3])],
+  };
+}
+
+// Heatmap colours and how strongly they cover the greyed-out page
+const OVER_LIMIT_COLOR = [230, 0, 0];
+const WARN_ZONE_COLOR = [255, 170, 0];
+const OVERLAY_OPACITY = 0.75;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode 8-bit RGB pixels as a PNG
+ */
+function encodePng(width: number, height: number, rgb: Uint8Array): Uint8Array {
+  // Each scanline starts with filter type 0 (none)
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+  }
+
+  const chunk = (type: string, data: Uint8Array) => {
+    const body = new Uint8Array(4 + data.length);
+    body.set(new TextEncoder().encode(type));
+    body.set(data, 4);
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(body, 4);
+    view.setUint32(8 + data.length, crc32(body));
+    return out;
+  };
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit, truecolour, deflate, no filter, no interlace
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+/**
+ * Heatmap PNG of a CMYK raster: the page as light greyscale, pixels over
+ * `limit` in red and pixels between `warnLimit` and `limit` in amber
+ */
+export function renderHeatmap(raster: CmykRaster, limit: number, warnLimit: number): Uint8Array {
+  const { data, width, height } = raster;
+  const limitUnits = (limit / 100) * 255;
+  const warnUnits = (warnLimit / 100) * 255;
+  const rgb = new Uint8Array(width * height * 3);
+
+  for (let i = 0, o = 0; i < data.length; i += 4, o += 3) {
+    const [c, m, y, k] = [data[i], data[i + 1], data[i + 2], data[i + 3]];
+    // Naive CMYK -> RGB, then lightened grey so the overlay stands out
+    const white = 1 - k / 255;
+    const luma = 0.299 * (255 - c) * white + 0.587 * (255 - m) * white + 0.114 * (255 - y) * white;
+    const grey = 110 + luma * 0.55;
+
+    const sum = c + m + y + k;
+    const overlay = sum > limitUnits ? OVER_LIMIT_COLOR : sum > warnUnits ? WARN_ZONE_COLOR : null;
+    for (let channel = 0; channel < 3; channel++) {
+      rgb[o + channel] = overlay ? overlay[channel] * OVERLAY_OPACITY + grey * (1 - OVERLAY_OPACITY) : grey;
+    }
+  }
+
+  return encodePng(width, height, rgb);
+}
+
+/**
+ * Number of pages in a PDF
+ */
+export async function pdfPageCount(pdfPath: string): Promise<number> {
+  const result = await $`pdfinfo ${pdfPath}`.quiet().nothrow();
+  const match = result.stdout.toString().match(/Pages:\s+(\d+)/);
+  if (match) {
+    return parseInt(match[1], 10);
+  }
+  // Fallback when poppler is missing
+  const gs = await $`gs -q -dNODISPLAY -dNOSAFER -c ${`(${pdfPath}) (r) file runpdfbegin pdfpagecount = quit`}`.quiet().nothrow();
+  return parseInt(gs.stdout.toString().trim(), 10) || 0;
+}
+
+/**
+ * Analyze every page of a PDF. Pages are rendered one at a time so only one
+ * raster is held in memory and on disk at once.
+ */
+export async function analyzeTAC(pdfPath: string, options: AnalyzeTACOptions = {}): Promise<TACAnalysis> {
+  if (!existsSync(pdfPath)) {
+    throw new Error(`PDF file not found: ${pdfPath}`);
+  }
+
+  const { limit = DEFAULT_PRINT_SPEC.maxTAC, dpi = DEFAULT_TAC_DPI } = options;
+  const tempRoot = options.tempDir ?? join(ROOT, "output", "temp");
+  mkdirSync(tempRoot, { recursive: true });
+  const workDir = mkdtempSync(join(tempRoot, "tac-analyze-"));
+  const { heatmaps } = options;
+  if (heatmaps) {
+    // Drop heatmaps of pages that no longer fail
+    rmSync(heatmaps.dir, { recursive: true, force: true });
+  }
+
+  try {
+    const pageCount = await pdfPageCount(pdfPath);
+    if (pageCount === 0) {
+      throw new Error(`Could not read the page count of ${pdfPath}`);
+    }
+
+    const perPage: PageTAC[] = [];
+    for (let first = 1; first <= pageCount; first += PAGES_PER_RENDER) {
+      // One Ghostscript run per range; %d numbers the range's pages from 1
+      const last = Math.min(first + PAGES_PER_RENDER - 1, pageCount);
+      const pattern = join(workDir, `pages-${first}-%d.tif`);
+      const result =
+        await $`gs -dNOPAUSE -dBATCH -dQUIET -dSAFER -sDEVICE=tiff32nc -r${dpi} -dFirstPage=${first} -dLastPage=${last} -sOutputFile=${pattern} ${pdfPath}`
+          .quiet()
+          .nothrow();
+      if (result.exitCode !== 0) {
+        throw new Error(`Ghostscript could not render pages ${first}-${last}: ${result.stderr.toString().trim() || `exit ${result.exitCode}`}`);
+      }
+
+      for (let page = first; page <= last; page++) {
+        const tiff = join(workDir, `pages-${first}-${page - first + 1}.tif`);
+        if (!existsSync(tiff)) {
+          throw new Error(`Ghostscript could not render page ${page}`);
+        }
+        const raster = readCmykTiff(readFileSync(tiff));
+        const stats: PageTAC = { page, ...measureRaster(raster, limit) };
+        if (heatmaps && stats.maxTAC > limit) {
+          mkdirSync(heatmaps.dir, { recursive: true });
+          stats.heatmap = join(heatmaps.dir, `page-${String(page).padStart(4, "0")}.png`);
+          writeFileSync(stats.heatmap, renderHeatmap(raster, limit, heatmaps.warnLimit));
+        }
+        perPage.push(stats);
+        rmSync(tiff, { force: true });
+      }
+    }
+
+    return {
+      file: basename(pdfPath),
+      dpi,
+      limit,
+      pageCount,
+      maxTAC: Math.max(...perPage.map((p) => p.maxTAC)),
+      averageTAC: round1(perPage.reduce((sum, p) => sum + p.averageTAC, 0) / perPage.length),
+      perPage,
+    };
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// CLI usage
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const pdfPath = args.find((arg, i) => !arg.startsWith("--") && !["--limit", "--dpi"].includes(args[i - 1]));
+  if (!pdfPath) {
+    console.error("Usage: bun run scripts/tac-analyzer.ts <pdf-file> [--limit 240] [--dpi 72] [--json]");
+    process.exit(1);
+  }
+
+  const numberFlag = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? Number(args[index + 1]) : undefined;
+  };
+
+  try {
+    const analysis = await analyzeTAC(pdfPath, { limit: numberFlag("--limit"), dpi: numberFlag("--dpi") });
+    if (args.includes("--json")) {
+      console.log(JSON.stringify(analysis, null, 2));
+    } else {
+      console.log(`\n🎨 ${analysis.file}: ${analysis.pageCount} pages at ${analysis.dpi} dpi, limit ${analysis.limit}%`);
+      for (const p of analysis.perPage) {
+        const icon = p.maxTAC > analysis.limit ? "❌" : "✅";
+        console.log(
+          `   ${icon} Page ${p.page}: max ${p.maxTAC}%, average ${p.averageTAC}%, ${p.areaOverLimit}% of area over limit`
+        );
+      }
+      console.log(`\n   Max TAC: ${analysis.maxTAC}%   Average TAC: ${analysis.averageTAC}%`);
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,338 @@
+#!/usr/bin/env bun
+/**
+ * Transparency Detection and Flattening
+ *
+ * PagedJS and Vivliostyle keep CSS opacity, box-shadow, alpha gradients and
+ * mix-blend-mode as PDF transparency, which PDF/X-1a and PDF/X-3 forbid. The
+ * detector walks each page's content (following forms and tiling patterns)
+ * and reports what it draws with transparency:
+ *
+ * - ExtGStates with a soft mask, constant alpha (CA/ca) below 1 or a blend mode
+ * - images with a soft mask (SMask or SMaskInData)
+ * - Form XObjects that are transparency groups
+ * - a transparency group on the page itself
+ *
+ * Flattening runs before PDF/X conversion and only touches the pages that
+ * need it: a page whose only transparency is its own page group loses the
+ * group (nothing on it blends), and a page drawing transparent content is
+ * rendered to CMYK at print resolution through the output profile and its
+ * content replaced by that image. Every other page keeps its text and vector art.
+ *
+ * Requirements:
+ *   - Ghostscript (gs), to render the flattened pages
+ */
+
+import { $ } from "bun";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
+import { deflateSync } from "node:zlib";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFObject,
+} from "pdf-lib";
+import { forEachOperator } from "./vector-tac.ts";
+import { readCmykTiff } from "./tac-analyzer.ts";
+import { formatPageList } from "./page-boxes.ts";
+import { loadOutputProfile, type ProfileInfo } from "./icc-profile.ts";
+import { dictOf, nameOf, objectLabel } from "./pdf-objects.ts";
+
+export interface PageTransparency {
+  page: number;
+  /** The page itself is a transparency group */
+  pageGroup: boolean;
+  /** Transparent content the page draws, e.g. "blend mode Multiply (ExtGState /GS2)" */
+  reasons: string[];
+}
+
+export interface FlattenOptions {
+  input: string;
+  output: string;
+  /** Profile the pages are rendered to CMYK through (the one the PDF/X OutputIntent embeds) */
+  profile: ProfileInfo;
+  /** Resolution flattened pages are rendered at (default: 300) */
+  dpi?: number;
+  /** Parent directory for scratch files */
+  tempDir?: string;
+}
+
+export interface FlattenResult {
+  success: boolean;
+  outputPath: string;
+  duration: number;
+  /** Pages replaced by a CMYK image of themselves (their text and vector art are gone) */
+  flattenedPages: number[];
+  /** Pages whose page-level transparency group was removed, content untouched */
+  ungroupedPages: number[];
+  error?: string;
+}
+
+function isTransparencyGroup(dict: PDFDict, context: PDFContext): boolean {
+  const group = dictOf(dict.get(PDFName.of("Group")), context);
+  return nameOf(group?.get(PDFName.of("S"))) === "Transparency";
+}
+
+/**
+ * What an ExtGState makes transparent: soft mask, alpha below 1, blend mode
+ */
+function extGStateReasons(gs: PDFDict, label: string, context: PDFContext): string[] {
+  const reasons: string[] = [];
+  const smask = context.lookup(gs.get(PDFName.of("SMask")));
+  if (smask && nameOf(smask) !== "None") reasons.push(`soft mask (${label})`);
+  for (const key of ["CA", "ca"]) {
+    const alpha = context.lookup(gs.get(PDFName.of(key)));
+    if (alpha instanceof PDFNumber && alpha.asNumber() < 1) reasons.push(`/${key} ${alpha.asNumber()} (${label})`);
+  }
+  const blend = context.lookup(gs.get(PDFName.of("BM")));
+  const modes = blend instanceof PDFArray ? blend.asArray().map((m) => nameOf(context.lookup(m))) : [nameOf(blend)];
+  const mode = modes.find((m) => m && m !== "Normal" && m !== "Compatible");
+  if (mode) reasons.push(`blend mode ${mode} (${label})`);
+  return reasons;
+}
+
+interface Walk {
+  context: PDFContext;
+  /** Reasons per Form XObject / tiling pattern, found once and reused per draw */
+  drawn: Map<string, Set<string>>;
+}
+
+function walkDrawn(ref: PDFObject, stream: PDFRawStream, walk: Walk): Set<string> {
+  const key = ref.toString();
+  const known = walk.drawn.get(key);
+  if (known) return known;
+  const reasons = new Set<string>();
+  walk.drawn.set(key, reasons); // Placeholder: a form drawing itself is walked once
+  walkContent([stream], dictOf(stream.dict.get(PDFName.of("Resources")), walk.context), reasons, walk);
+  return reasons;
+}
+
+/**
+ * Collect the transparent content drawn by content streams
+ */
+function walkContent(streams: PDFRawStream[], resources: PDFDict | undefined, reasons: Set<string>, walk: Walk): void {
+  const { context } = walk;
+  const text = streams
+    .map((stream) => {
+      try {
+        return Buffer.from(decodePDFRawStream(stream).decode()).toString("latin1");
+      } catch {
+        return "";
+      }
+    })
+    .join("\n");
+  const resource = (category: string, name: string): PDFObject | undefined =>
+    dictOf(resources?.get(PDFName.of(category)), context)?.get(PDFName.of(name));
+  const add = (found: Iterable<string>) => {
+    for (const reason of found) reasons.add(reason);
+  };
+
+  forEachOperator(text, (operator, operands) => {
+    const name = operands.at(-1);
+    if (name?.kind !== "name") return;
+    switch (operator) {
+      case "gs": {
+        const gs = dictOf(resource("ExtGState", name.value), context);
+        if (gs) add(extGStateReasons(gs, `ExtGState /${name.value}`, context));
+        break;
+      }
+      case "scn":
+      case "SCN": {
+        const ref = resource("Pattern", name.value);
+        const pattern = context.lookup(ref);
+        if (pattern instanceof PDFRawStream && ref) {
+          add(walkDrawn(ref, pattern, walk));
+        } else if (pattern instanceof PDFDict) {
+          const gs = dictOf(pattern.get(PDFName.of("ExtGState")), context);
+          if (gs) add(extGStateReasons(gs, `pattern /${name.value}`, context));
+        }
+        break;
+      }
+      case "Do": {
+        const ref = resource("XObject", name.value);
+        const xobject = context.lookup(ref);
+        if (!(xobject instanceof PDFRawStream) || !ref) break;
+        const dict = xobject.dict;
+        const subtype = nameOf(dict.get(PDFName.of("Subtype")));
+        if (subtype === "Image") {
+          if (dict.has(PDFName.of("SMask"))) reasons.add(`image with a soft mask${objectLabel(ref)}`);
+          const smaskInData = context.lookup(dict.get(PDFName.of("SMaskInData")));
+          if (smaskInData instanceof PDFNumber && smaskInData.asNumber() > 0) {
+            reasons.add(`image with alpha in its data${objectLabel(ref)}`);
+          }
+        } else if (subtype === "Form") {
+          if (isTransparencyGroup(dict, context)) reasons.add(`transparency group${objectLabel(ref)}`);
+          add(walkDrawn(ref, xobject, walk));
+        }
+        break;
+      }
+    }
+  });
+}
+
+/**
+ * Pages of a loaded document that use transparency, with what they use
+ */
+export function findTransparency(doc: PDFDocument): PageTransparency[] {
+  const { context } = doc;
+  const walk: Walk = { context, drawn: new Map() };
+  const found: PageTransparency[] = [];
+
+  doc.getPages().forEach((page, i) => {
+    const contents = context.lookup(page.node.get(PDFName.of("Contents")));
+    const streams = (contents instanceof PDFArray ? contents.asArray() : contents ? [contents] : [])
+      .map((ref) => context.lookup(ref))
+      .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream);
+    const reasons = new Set<string>();
+    walkContent(streams, page.node.Resources(), reasons, walk);
+    const pageGroup = isTransparencyGroup(page.node, context);
+    if (pageGroup || reasons.size > 0) {
+      found.push({ page: i + 1, pageGroup, reasons: [...reasons] });
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Pages of a PDF that use transparency (only those pages are listed)
+ */
+export async function detectTransparency(pdfPath: string): Promise<PageTransparency[]> {
+  if (!existsSync(pdfPath)) {
+    throw new Error(`File not found: ${pdfPath}`);
+  }
+  return findTransparency(await PDFDocument.load(readFileSync(pdfPath), { updateMetadata: false }));
+}
+
+/**
+ * Flatten the transparency of a PDF, rasterizing only the pages that draw transparent content
+ */
+export async function flattenTransparency(options: FlattenOptions): Promise<FlattenResult> {
+  const startTime = performance.now();
+  const { input, output, profile, dpi = 300 } = options;
+  const failure = (error: string): FlattenResult => ({
+    success: false,
+    outputPath: output,
+    duration: performance.now() - startTime,
+    flattenedPages: [],
+    ungroupedPages: [],
+    error,
+  });
+
+  if (!existsSync(input)) {
+    return failure(`Input file not found: ${input}`);
+  }
+
+  const tempRoot = options.tempDir ?? join(dirname(output), "temp");
+  mkdirSync(tempRoot, { recursive: true });
+  const scratchDir = mkdtempSync(join(tempRoot, "flatten-"));
+
+  try {
+    const doc = await PDFDocument.load(readFileSync(input), { updateMetadata: false });
+    const { context } = doc;
+    const pages = doc.getPages();
+    const found = findTransparency(doc);
+    const flattenedPages = found.filter((p) => p.reasons.length > 0).map((p) => p.page);
+    const ungroupedPages = found.filter((p) => p.reasons.length === 0).map((p) => p.page);
+
+    for (const pageNumber of ungroupedPages) {
+      pages[pageNumber - 1].node.delete(PDFName.of("Group"));
+    }
+
+    for (const pageNumber of flattenedPages) {
+      const tiff = join(scratchDir, `page-${pageNumber}.tif`);
+      const render =
+        await $`gs -dNOPAUSE -dBATCH -dQUIET -dSAFER -sDEVICE=tiff32nc -r${dpi} -sOutputICCProfile=${profile.path} -dFirstPage=${pageNumber} -dLastPage=${pageNumber} -sOutputFile=${tiff} ${input}`
+          .quiet()
+          .nothrow();
+      if (render.exitCode !== 0 || !existsSync(tiff)) {
+        throw new Error(`Ghostscript could not render page ${pageNumber}: ${render.stderr.toString().trim() || `exit ${render.exitCode}`}`);
+      }
+      const raster = readCmykTiff(readFileSync(tiff));
+      rmSync(tiff, { force: true });
+
+      // Draw the render over the whole MediaBox in place of the page content
+      const page = pages[pageNumber - 1];
+      const { x, y, width, height } = page.getMediaBox();
+      const image = context.register(
+        PDFRawStream.of(
+          context.obj({
+            Type: "XObject",
+            Subtype: "Image",
+            Width: raster.width,
+            Height: raster.height,
+            ColorSpace: "DeviceCMYK",
+            BitsPerComponent: 8,
+            Filter: "FlateDecode",
+          }),
+          deflateSync(raster.data)
+        )
+      );
+      const content = context.flateStream(`q ${width} 0 0 ${height} ${x} ${y} cm /Flattened Do Q`);
+      page.node.set(PDFName.of("Contents"), context.register(content));
+      page.node.set(PDFName.of("Resources"), context.obj({ XObject: { Flattened: image } }));
+      page.node.delete(PDFName.of("Group"));
+    }
+
+    mkdirSync(dirname(output), { recursive: true });
+    writeFileSync(output, await doc.save({ useObjectStreams: false }));
+
+    return {
+      success: true,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      flattenedPages,
+      ungroupedPages,
+    };
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : String(error));
+  } finally {
+    rmSync(scratchDir, { recursive: true, force: true });
+  }
+}
+
+// Run if called directly: report the pages using transparency, or --flatten them into <output.pdf>
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const [input, output] = args.filter((a) => a.endsWith(".pdf"));
+  const iccFlagIndex = args.indexOf("--icc");
+  const dpiFlagIndex = args.indexOf("--dpi");
+
+  if (!input || (args.includes("--flatten") && !output)) {
+    console.error("Usage: bun run scripts/transparency.ts <input.pdf> [--flatten <output.pdf> [--icc <profile>] [--dpi 300]]");
+    process.exit(1);
+  }
+
+  if (!args.includes("--flatten")) {
+    const found = await detectTransparency(input);
+    console.log(`\n🔍 Transparency in ${basename(input)}: ${found.length === 0 ? "none" : `pages ${formatPageList(found.map((p) => p.page))}`}\n`);
+    for (const { page, pageGroup, reasons } of found) {
+      const what = [...(pageGroup ? ["page transparency group"] : []), ...reasons];
+      console.log(`   Page ${page}: ${what.slice(0, 5).join("; ")}${what.length > 5 ? ` and ${what.length - 5} more` : ""}`);
+    }
+    process.exit(found.some((p) => p.reasons.length > 0) ? 1 : 0);
+  }
+
+  const result = await flattenTransparency({
+    input,
+    output,
+    profile: loadOutputProfile(iccFlagIndex >= 0 ? args[iccFlagIndex + 1] : undefined),
+    dpi: dpiFlagIndex >= 0 ? parseInt(args[dpiFlagIndex + 1], 10) : undefined,
+  });
+  if (!result.success) {
+    console.error(`❌ Flattening failed: ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`✅ Flattened ${result.flattenedPages.length} page(s): ${result.outputPath}`);
+  if (result.flattenedPages.length > 0) {
+    console.log(`   Rasterized: ${formatPageList(result.flattenedPages)}`);
+  }
+  if (result.ungroupedPages.length > 0) {
+    console.log(`   Page group removed: ${formatPageList(result.ungroupedPages)}`);
+  }
+}
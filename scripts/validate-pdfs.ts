@@ -1,29 +1,49 @@
 #!/usr/bin/env bun
 /**
- * Validate PDF files for DriveThruRPG compliance
- * Checks: dimensions, color space, ink coverage, fonts, and PDF/X compliance
+ * Validate PDF files for print-provider compliance (DriveThruRPG by default)
+ * Checks: dimensions, trim size, page boxes, color space, ink coverage, fonts,
+ * page count, file size and the provider's PDF/X rules (see pdfx-conformance.ts)
  */
 
 import { $ } from "bun";
 import { existsSync } from "node:fs";
 import { join, dirname, basename } from "node:path";
 import { fileURLToPath } from "node:url";
+import { loadPrintSpec, pageSize, DEFAULT_PRINT_SPEC, type PrintSpec } from "./print-spec.ts";
+import {
+  getProvider,
+  resolveProvider,
+  loadProviderSpec,
+  applyProvider,
+  matchTrimSize,
+  parsePdfxTarget,
+  withPdfxTarget,
+  type ProviderProfile,
+} from "./providers.ts";
+import {
+  bleedMarginInches,
+  boxSizeInches,
+  effectiveTrim,
+  formatPageList,
+  readPageBoxes,
+  summarizePageBoxes,
+  type PageBoxSummary,
+} from "./page-boxes.ts";
+import { checkPdfx } from "./pdfx-conformance.ts";
+import type { TACValidationResult } from "./validate-tac.ts";
+import {
+  analyzeColorSpaces,
+  findColorModels,
+  formatColorModels,
+  formatUsage,
+  NON_CMYK_MODELS,
+  type ColorSpaceReport,
+} from "./color-spaces.ts";
+import { RENDERERS, rendererOutputs } from "./renderers.ts";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 
-// DriveThruRPG specification
-const DTRPG_SPEC = {
-  trimSize: { width: 6, height: 9 }, // inches
-  bleed: 0.125, // inches
-  expectedPageSize: { width: 6.25, height: 9.25 }, // trim + bleed
-  maxTAC: 240, // Total Area Coverage (ink) percentage
-  dpi: 300,
-  insideMargin: 0.5, // minimum
-  outsideMargin: 0.25, // minimum
-  tolerancePct: 2, // 2% tolerance for measurements
-};
-
 export interface PdfInfo {
   filename: string;
   filepath: string;
@@ -36,9 +56,16 @@ export interface PdfInfo {
   pdfVersion: string;
   encrypted: boolean;
   tagged: boolean;
+  /** Linearized for fast web view (pdfinfo "Optimized") */
+  linearized: boolean;
   fonts: FontInfo[];
+  /** Colour models painted with, e.g. "CMYK + Gray" */
   colorSpace: string;
+  /** Colour spaces used per page (fills, strokes, images, shadings) */
+  colorSpaces: ColorSpaceReport | null;
   inkCoverage: InkCoverage[];
+  /** Page box geometry (first page) and the pages breaking the PDF/X box rules */
+  pageBoxes: PageBoxSummary | null;
 }
 
 export interface FontInfo {
@@ -139,6 +166,9 @@ async function getPdfInfo(filepath: string): Promise<Partial<PdfInfo>> {
         case "tagged":
           info.tagged = value.toLowerCase() === "yes";
           break;
+        case "optimized":
+          info.linearized = value.toLowerCase() === "yes";
+          break;
       }
     }
   } catch (error) {
@@ -246,42 +276,57 @@ async function getInkCoverage(filepath: string): Promise<InkCoverage[]> {
 }
 
 /**
- * Detect color space from PDF
+ * Everything validation reports about a PDF: pdfinfo fields, fonts, colour spaces,
+ * page boxes and (unless turned off, e.g. for RGB downloads) Ghostscript ink coverage
  */
-async function detectColorSpace(filepath: string): Promise<string> {
+export async function collectPdfInfo(filepath: string, options: { inkCoverage?: boolean } = {}): Promise<PdfInfo> {
+  const basicInfo = await getPdfInfo(filepath);
+  const fonts = await getPdfFonts(filepath);
+  const inkCoverage = options.inkCoverage === false ? [] : await getInkCoverage(filepath);
+  let colorSpaces: ColorSpaceReport | null = null;
   try {
-    // Use Ghostscript to detect color space
-    const result =
-      await $`gs -o - -sDEVICE=txtwrite -dFirstPage=1 -dLastPage=1 ${filepath}`.quiet();
-
-    // Check ink coverage result for CMYK values
-    const inkResult = await $`gs -o - -sDEVICE=inkcov -dFirstPage=1 -dLastPage=1 ${filepath}`.quiet();
-    const inkOutput = inkResult.stdout.toString();
-
-    if (inkOutput.includes("CMYK")) {
-      return "CMYK";
-    }
-
-    // Try to determine from pdfinfo
-    const infoResult = await $`pdfinfo ${filepath}`.quiet();
-    const infoOutput = infoResult.stdout.toString().toLowerCase();
-
-    if (infoOutput.includes("cmyk")) {
-      return "CMYK";
-    } else if (infoOutput.includes("rgb")) {
-      return "RGB";
-    }
-
-    return "Unknown";
+    colorSpaces = await analyzeColorSpaces(filepath);
+  } catch (error) {
+    console.error(`Error analyzing colour spaces: ${error}`);
+  }
+  const colorSpace = colorSpaces ? formatColorModels(colorSpaces) : "Unknown";
+  let pageBoxes: PageBoxSummary | null = null;
+  try {
+    pageBoxes = summarizePageBoxes(await readPageBoxes(filepath));
   } catch (error) {
-    return "Unknown";
+    console.error(`Error reading page boxes: ${error}`);
   }
+
+  return {
+    filename: basicInfo.filename || basename(filepath),
+    filepath,
+    fileSize: basicInfo.fileSize || 0,
+    pageCount: basicInfo.pageCount || 0,
+    pageSize: basicInfo.pageSize || { width: 0, height: 0 },
+    pageSizeUnit: basicInfo.pageSizeUnit || "unknown",
+    producer: basicInfo.producer || "unknown",
+    creator: basicInfo.creator || "unknown",
+    pdfVersion: basicInfo.pdfVersion || "unknown",
+    encrypted: basicInfo.encrypted || false,
+    tagged: basicInfo.tagged || false,
+    linearized: basicInfo.linearized || false,
+    fonts,
+    colorSpace,
+    colorSpaces,
+    inkCoverage,
+    pageBoxes,
+  };
 }
 
 /**
- * Validate a PDF file against DriveThruRPG specifications
+ * Validate a PDF file against the project print spec and the provider's rules
  */
-export async function validatePdf(filepath: string): Promise<ValidationResult> {
+export async function validatePdf(
+  filepath: string,
+  spec: PrintSpec = DEFAULT_PRINT_SPEC,
+  provider: ProviderProfile = getProvider(),
+  tac?: TACValidationResult | null
+): Promise<ValidationResult> {
   console.log(`\n🔍 Validating: ${basename(filepath)}`);
 
   const result: ValidationResult = {
@@ -301,27 +346,8 @@ export async function validatePdf(filepath: string): Promise<ValidationResult> {
   }
 
   // Gather PDF information
-  const basicInfo = await getPdfInfo(filepath);
-  const fonts = await getPdfFonts(filepath);
-  const inkCoverage = await getInkCoverage(filepath);
-  const colorSpace = await detectColorSpace(filepath);
-
-  result.info = {
-    filename: basicInfo.filename || basename(filepath),
-    filepath,
-    fileSize: basicInfo.fileSize || 0,
-    pageCount: basicInfo.pageCount || 0,
-    pageSize: basicInfo.pageSize || { width: 0, height: 0 },
-    pageSizeUnit: basicInfo.pageSizeUnit || "unknown",
-    producer: basicInfo.producer || "unknown",
-    creator: basicInfo.creator || "unknown",
-    pdfVersion: basicInfo.pdfVersion || "unknown",
-    encrypted: basicInfo.encrypted || false,
-    tagged: basicInfo.tagged || false,
-    fonts,
-    colorSpace,
-    inkCoverage,
-  };
+  result.info = await collectPdfInfo(filepath);
+  const { fonts, inkCoverage, colorSpace, colorSpaces, pageBoxes } = result.info;
 
   // Run validation checks
   const checks: ValidationCheck[] = [];
@@ -329,9 +355,8 @@ export async function validatePdf(filepath: string): Promise<ValidationResult> {
   // Check 1: Page dimensions
   if (result.info.pageSize) {
     const { width, height } = result.info.pageSize;
-    const expectedWidth = DTRPG_SPEC.expectedPageSize.width;
-    const expectedHeight = DTRPG_SPEC.expectedPageSize.height;
-    const tolerance = DTRPG_SPEC.tolerancePct / 100;
+    const { width: expectedWidth, height: expectedHeight } = pageSize(spec);
+    const tolerance = spec.tolerancePct / 100;
 
     const widthOk =
       Math.abs(width - expectedWidth) <= expectedWidth * tolerance;
@@ -341,7 +366,7 @@ export async function validatePdf(filepath: string): Promise<ValidationResult> {
     checks.push({
       name: "Page Dimensions",
       passed: widthOk && heightOk,
-      expected: `${expectedWidth}" × ${expectedHeight}" (±${DTRPG_SPEC.tolerancePct}%)`,
+      expected: `${expectedWidth}" × ${expectedHeight}" (±${spec.tolerancePct}%)`,
       actual: `${width.toFixed(3)}" × ${height.toFixed(3)}"`,
       severity: widthOk && heightOk ? "info" : "error",
     });
@@ -351,25 +376,123 @@ export async function validatePdf(filepath: string): Promise<ValidationResult> {
         `Page dimensions (${width.toFixed(2)}" × ${height.toFixed(2)}") don't match expected (${expectedWidth}" × ${expectedHeight}")`
       );
     }
+
+    // Check 1b: Trim size (page minus the provider's bleed) is one the provider prints
+    const trim = { width: width - provider.bleed * 2, height: height - provider.bleed * 2 };
+    const trimOk = matchTrimSize(provider, trim) !== undefined;
+    checks.push({
+      name: "Trim Size",
+      passed: trimOk,
+      expected: `${provider.name} trim + ${provider.bleed}" bleed`,
+      actual: `${trim.width.toFixed(3)}" × ${trim.height.toFixed(3)}"`,
+      severity: trimOk ? "info" : "error",
+    });
+
+    if (!trimOk) {
+      result.errors.push(
+        `Trim size ${trim.width.toFixed(2)}" × ${trim.height.toFixed(2)}" is not offered by ${provider.name}`
+      );
+    }
+  }
+
+  // Check 1c: Page boxes. PDF/X needs a TrimBox (or ArtBox) on every page,
+  // inside the BleedBox, inside the MediaBox, and the trim is what gets cut
+  if (pageBoxes) {
+    const { first, missingTrim, badNesting, differentPages } = pageBoxes;
+
+    checks.push({
+      name: "TrimBox",
+      passed: missingTrim.length === 0,
+      expected: "TrimBox (or ArtBox) on every page",
+      actual:
+        missingTrim.length === 0
+          ? "present on every page"
+          : `missing on ${missingTrim.length} of ${pageBoxes.pageCount} pages`,
+      severity: missingTrim.length === 0 ? "info" : "error",
+    });
+    if (missingTrim.length > 0) {
+      result.errors.push(`No TrimBox on page(s) ${formatPageList(missingTrim)}`);
+    }
+
+    checks.push({
+      name: "Box Nesting",
+      passed: badNesting.length === 0,
+      expected: "MediaBox ⊇ BleedBox ⊇ TrimBox",
+      actual: badNesting.length === 0 ? "nested on every page" : `broken on page(s) ${formatPageList(badNesting)}`,
+      severity: badNesting.length === 0 ? "info" : "error",
+    });
+    if (badNesting.length > 0) {
+      result.errors.push(`Page boxes not nested (MediaBox ⊇ BleedBox ⊇ TrimBox) on page(s) ${formatPageList(badNesting)}`);
+    }
+
+    checks.push({
+      name: "Consistent Boxes",
+      passed: differentPages.length === 0,
+      expected: "Same boxes on every page",
+      actual: differentPages.length === 0 ? "same on every page" : `differ on page(s) ${formatPageList(differentPages)}`,
+      severity: differentPages.length === 0 ? "info" : "error",
+    });
+    if (differentPages.length > 0) {
+      result.errors.push(`Page boxes differ from page 1 on page(s) ${formatPageList(differentPages)}`);
+    }
+
+    const trim = effectiveTrim(first);
+    if (trim) {
+      const { width, height } = boxSizeInches(trim);
+      const bleedMargin = bleedMarginInches(first)!;
+      const tolerance = spec.tolerancePct / 100;
+      const trimBoxOk =
+        Math.abs(width - spec.trimSize.width) <= spec.trimSize.width * tolerance &&
+        Math.abs(height - spec.trimSize.height) <= spec.trimSize.height * tolerance;
+      const bleedOk = bleedMargin >= spec.bleed - 0.01;
+
+      checks.push({
+        name: "TrimBox Size",
+        passed: trimBoxOk && bleedOk,
+        expected: `${spec.trimSize.width}" × ${spec.trimSize.height}" with ${spec.bleed}" bleed`,
+        actual: `${width.toFixed(3)}" × ${height.toFixed(3)}" with ${bleedMargin.toFixed(3)}" bleed`,
+        severity: trimBoxOk && bleedOk ? "info" : "error",
+      });
+      if (!trimBoxOk) {
+        result.errors.push(
+          `TrimBox ${width.toFixed(2)}" × ${height.toFixed(2)}" doesn't match the trim size (${spec.trimSize.width}" × ${spec.trimSize.height}")`
+        );
+      }
+      if (!bleedOk) {
+        result.errors.push(`Bleed around the TrimBox is ${bleedMargin.toFixed(3)}", expected ${spec.bleed}"`);
+      }
+    }
   }
 
-  // Check 2: Color space
+  // Check 2: Color space (every fill, stroke, image and shading; gray and spot colours are fine).
+  // PDF/X-3 and X-4 also allow ICC-based, Cal* and Lab colour, so only device RGB fails there
+  const deviceOnly = provider.pdfx.standard === "PDF/X-1a:2001";
+  const nonCmyk = (colorSpaces ? findColorModels(colorSpaces, NON_CMYK_MODELS) : []).filter(
+    ({ usage }) => deviceOnly || !/ICCBased|Cal|Lab/.test(usage.space)
+  );
+  const colorOk = colorSpaces !== null && nonCmyk.length === 0;
   checks.push({
     name: "Color Space",
-    passed: colorSpace === "CMYK",
-    expected: "CMYK",
-    actual: colorSpace,
-    severity: colorSpace === "CMYK" ? "info" : "error",
+    passed: colorOk,
+    expected: deviceOnly ? "CMYK (process, gray or spot colours only)" : "No device RGB (CMYK, gray, spot, ICC-based or Lab colour)",
+    actual: nonCmyk.length > 0 ? nonCmyk.map(({ usage }) => `${usage.space}: ${formatUsage(usage)}`).join("; ") : colorSpace,
+    severity: colorOk ? "info" : "error",
   });
 
-  if (colorSpace !== "CMYK") {
-    result.errors.push(`Color space is ${colorSpace}, expected CMYK`);
+  if (!colorSpaces) {
+    result.errors.push("Color space could not be determined");
+  }
+  for (const { usage, pages } of nonCmyk) {
+    result.errors.push(`${usage.space} left after conversion (${formatUsage(usage)}) on pages ${formatPageList(pages)}`);
   }
 
-  // Check 3: Ink coverage (TAC)
+  // Check 3: Ink coverage (TAC): the per-pixel maximum from validate-tac.ts when
+  // the caller has it, else Ghostscript inkcov's page averages
+  const tacPages = tac ? tac.perPage : inkCoverage;
+  const kind = tac ? "Max" : "Average";
   let maxTac = 0;
   let maxTacPage = 0;
-  for (const page of inkCoverage) {
+  for (const page of tacPages) {
     if (page.tac > maxTac) {
       maxTac = page.tac;
       maxTacPage = page.page;
@@ -377,21 +500,22 @@ export async function validatePdf(filepath: string): Promise<ValidationResult> {
   }
 
   checks.push({
-    name: "Max Ink Coverage (TAC)",
-    passed: maxTac <= DTRPG_SPEC.maxTAC,
-    expected: `≤ ${DTRPG_SPEC.maxTAC}%`,
+    name: `${kind} Ink Coverage (TAC)`,
+    passed: maxTac <= spec.maxTAC,
+    expected: `≤ ${spec.maxTAC}%`,
     actual: `${maxTac.toFixed(1)}% (page ${maxTacPage})`,
-    severity: maxTac <= DTRPG_SPEC.maxTAC ? "info" : "warning",
+    severity: maxTac <= spec.maxTAC ? "info" : "warning",
   });
 
-  if (maxTac > DTRPG_SPEC.maxTAC) {
+  if (maxTac > spec.maxTAC) {
     result.warnings.push(
-      `Max ink coverage (${maxTac.toFixed(1)}%) exceeds ${DTRPG_SPEC.maxTAC}% on page ${maxTacPage}`
+      `${kind} ink coverage (${maxTac.toFixed(1)}%) exceeds ${spec.maxTAC}% on page ${maxTacPage}`
     );
   }
 
   // Check 4: Fonts embedded
   const unembeddedFonts = fonts.filter((f) => !f.embedded);
+  const embedSeverity = provider.fonts.requireEmbedded ? "error" : "warning";
   checks.push({
     name: "Fonts Embedded",
     passed: unembeddedFonts.length === 0,
@@ -400,22 +524,39 @@ export async function validatePdf(filepath: string): Promise<ValidationResult> {
       unembeddedFonts.length === 0
         ? `All ${fonts.length} fonts embedded`
         : `${unembeddedFonts.length} fonts not embedded`,
-    severity: unembeddedFonts.length === 0 ? "info" : "error",
+    severity: unembeddedFonts.length === 0 ? "info" : embedSeverity,
   });
 
   if (unembeddedFonts.length > 0) {
-    result.errors.push(
+    (provider.fonts.requireEmbedded ? result.errors : result.warnings).push(
       `Fonts not embedded: ${unembeddedFonts.map((f) => f.name).join(", ")}`
     );
   }
 
+  // Check 4b: Type 3 fonts (some providers reject them)
+  if (!provider.fonts.allowType3) {
+    const type3Fonts = fonts.filter((f) => f.type.toLowerCase().startsWith("type 3"));
+    checks.push({
+      name: "Type 3 Fonts",
+      passed: type3Fonts.length === 0,
+      expected: "No Type 3 fonts",
+      actual: type3Fonts.length === 0 ? "None" : `${type3Fonts.length} Type 3 fonts`,
+      severity: type3Fonts.length === 0 ? "info" : "error",
+    });
+
+    if (type3Fonts.length > 0) {
+      result.errors.push(
+        `${provider.name} does not accept Type 3 fonts: ${type3Fonts.map((f) => f.name).join(", ")}`
+      );
+    }
+  }
+
   // Check 5: PDF Version
-  const versionOk =
-    result.info.pdfVersion === "1.4" || result.info.pdfVersion === "1.3";
+  const versionOk = spec.pdfVersions.includes(result.info.pdfVersion);
   checks.push({
     name: "PDF Version",
     passed: versionOk,
-    expected: "1.3 or 1.4 (PDF/X-1a compatible)",
+    expected: spec.pdfVersions.join(" or "),
     actual: result.info.pdfVersion,
     severity: versionOk ? "info" : "warning",
   });
@@ -430,18 +571,67 @@ export async function validatePdf(filepath: string): Promise<ValidationResult> {
   });
 
   if (result.info.encrypted) {
-    result.errors.push("PDF is encrypted - DriveThruRPG requires unencrypted PDFs");
+    result.errors.push(`PDF is encrypted - ${provider.name} requires unencrypted PDFs`);
   }
 
-  // Check 7: Page count (should be reasonable)
+  // Check 7: Page count within the provider's range
+  // An empty PDF is an error; an out-of-range count is a warning since test books are often short samples
+  const { min, max, multipleOf } = provider.pageCount;
+  const pageCount = result.info.pageCount;
+  const pageCountOk = pageCount >= min && pageCount <= max && pageCount % multipleOf === 0;
   checks.push({
     name: "Page Count",
-    passed: result.info.pageCount > 0,
-    expected: "> 0 pages",
-    actual: `${result.info.pageCount} pages`,
-    severity: result.info.pageCount > 0 ? "info" : "error",
+    passed: pageCountOk,
+    expected: `${min}-${max} pages, multiple of ${multipleOf}`,
+    actual: `${pageCount} pages`,
+    severity: pageCount === 0 ? "error" : pageCountOk ? "info" : "warning",
   });
 
+  if (pageCount === 0) {
+    result.errors.push("PDF has no pages");
+  } else if (!pageCountOk) {
+    result.warnings.push(
+      `Page count ${pageCount} is outside ${provider.name}'s rules (${min}-${max}, multiple of ${multipleOf})`
+    );
+  }
+
+  // Check 8: File size
+  const fileSizeMB = result.info.fileSize / (1024 * 1024);
+  const fileSizeOk = fileSizeMB <= provider.maxFileSizeMB;
+  checks.push({
+    name: "File Size",
+    passed: fileSizeOk,
+    expected: `≤ ${provider.maxFileSizeMB} MB`,
+    actual: `${fileSizeMB.toFixed(1)} MB`,
+    severity: fileSizeOk ? "info" : "error",
+  });
+
+  if (!fileSizeOk) {
+    result.errors.push(
+      `File size (${fileSizeMB.toFixed(1)} MB) exceeds ${provider.name}'s ${provider.maxFileSizeMB} MB limit`
+    );
+  }
+
+  // Check 9: PDF/X rules (output intent, colour spaces, transparency, LZW, actions,
+  // annotations, optional content, fonts), one check per rule of the provider's standard
+  try {
+    for (const rule of await checkPdfx(filepath, provider.pdfx.standard)) {
+      const passed = rule.violations.length === 0;
+      checks.push({
+        name: rule.name,
+        passed,
+        expected: rule.expected,
+        actual: passed ? "none found" : rule.violations.slice(0, 5).join("; ") + (rule.violations.length > 5 ? ` (+${rule.violations.length - 5} more)` : ""),
+        severity: passed ? "info" : "error",
+      });
+      if (!passed) {
+        result.errors.push(`${rule.name}: ${rule.violations.length} violation(s), e.g. ${rule.violations[0]}`);
+      }
+    }
+  } catch (error) {
+    result.warnings.push(`${provider.pdfx.standard} conformance not checked: ${error instanceof Error ? error.message : error}`);
+  }
+
   result.checks = checks;
   result.valid = result.errors.length === 0;
 
@@ -464,9 +654,14 @@ if (import.meta.main) {
 
   const dirFlagIndex = args.findIndex((a) => a === "--dir" || a === "--output");
   const dir = dirFlagIndex >= 0 ? args[dirFlagIndex + 1] : undefined;
-  const remainingArgs = dirFlagIndex >= 0
-    ? args.filter((_, idx) => idx !== dirFlagIndex && idx !== dirFlagIndex + 1)
-    : args;
+  const providerFlagIndex = args.indexOf("--provider");
+  const providerId = providerFlagIndex >= 0 ? args[providerFlagIndex + 1] : undefined;
+  const pdfxFlagIndex = args.indexOf("--pdfx");
+  const target = pdfxFlagIndex >= 0 ? parsePdfxTarget(args[pdfxFlagIndex + 1]) : undefined;
+  const flagIndices = [dirFlagIndex, providerFlagIndex, pdfxFlagIndex].filter((idx) => idx >= 0);
+  const remainingArgs = args.filter(
+    (_, idx) => !flagIndices.some((flagIdx) => idx === flagIdx || idx === flagIdx + 1)
+  );
 
   if (remainingArgs.length === 0) {
     // Validate all PDFs in a project output directory
@@ -477,28 +672,31 @@ if (import.meta.main) {
         : join(ROOT, "output", "default-test"));
 
     // Back-compat: if default-test doesn't exist but ROOT/output contains PDFs, use ROOT/output.
-    const outputDir =
-      existsSync(join(outputDirCandidate, "pagedjs-output.pdf")) ||
-      existsSync(join(outputDirCandidate, "vivliostyle-output.pdf"))
-        ? outputDirCandidate
-        : join(ROOT, "output");
-    const pdfs = [
-      "pagedjs-output.pdf",
-      "pagedjs-pdfx.pdf",
-      "vivliostyle-output.pdf",
-      "vivliostyle-pdfx.pdf",
-    ];
-
-    for (const pdf of pdfs) {
-      const filepath = join(outputDir, pdf);
+    const outputDir = Object.keys(RENDERERS).some((name) => existsSync(rendererOutputs(outputDirCandidate, name).rgb))
+      ? outputDirCandidate
+      : join(ROOT, "output");
+    const pdfs = Object.keys(RENDERERS).flatMap((name) => {
+      const outputs = rendererOutputs(outputDir, name);
+      return [outputs.rgb, outputs.pdfx];
+    });
+
+    // batch-process copies the project's pdfx.config.json next to its outputs
+    const { spec, provider } = loadProviderSpec(outputDir, providerId, target);
+    console.log(`🖨️  Provider: ${provider.name}`);
+
+    for (const filepath of pdfs) {
       if (existsSync(filepath)) {
-        await validatePdf(filepath);
+        await validatePdf(filepath, spec, provider);
       }
     }
   } else {
     // Validate specified PDFs
+    const baseSpec = dir ? loadPrintSpec(dir) : DEFAULT_PRINT_SPEC;
+    const provider = withPdfxTarget(resolveProvider(baseSpec, providerId), target);
+    const spec = applyProvider(baseSpec, provider);
+    console.log(`🖨️  Provider: ${provider.name}`);
     for (const filepath of remainingArgs) {
-      await validatePdf(filepath);
+      await validatePdf(filepath, spec, provider);
     }
   }
 
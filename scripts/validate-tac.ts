@@ -2,20 +2,21 @@
 /**
  * TAC (Total Area Coverage) Validation Script
  *
- * Validates that PDF ink coverage meets DriveThruRPG requirements.
- * Wraps the check_ink.ts tool from the ttrpg-publishing profile.
+ * Validates that PDF ink coverage meets print-provider requirements.
+ * Pages are judged by their per-pixel maximum TAC (see tac-analyzer.ts), not
+ * by the page-average coverage Ghostscript's inkcov device reports.
  *
- * TAC Thresholds:
+ * TAC Thresholds (defaults, tightened by the project's pdfx.config.json and provider):
  * - ≤200%: Pass (safe)
  * - 200-240%: Warning (acceptable but close to limit)
  * - >240%: Fail (exceeds DriveThruRPG maximum)
  */
 
 import { existsSync } from "node:fs";
-import { basename } from "node:path";
-
-// Import the existing check_ink.ts from the ttrpg-publishing profile
-import { checkInkCoverage, type InkResult } from "/home/founder3/.hyphn/profiles/ttrpg-publishing/skills/pdfx-print-pipeline/scripts/check_ink.ts";
+import { basename, dirname, join, relative } from "node:path";
+import { DEFAULT_PRINT_SPEC, type PrintSpec } from "./print-spec.ts";
+import { loadProviderSpec } from "./providers.ts";
+import { analyzeTAC, DEFAULT_TAC_DPI } from "./tac-analyzer.ts";
 
 /**
  * TAC Validation Status
@@ -27,8 +28,15 @@ export type TACStatus = "pass" | "warn" | "fail";
  */
 export interface TACValidation {
   page: number;
+  /** Maximum TAC at any pixel of the page */
   tac: number;
+  /** Mean TAC over the page */
+  averageTAC: number;
+  /** Share of the page area above the limit, in percent */
+  areaOverLimit: number;
   status: TACStatus;
+  /** Heatmap PNG of a failing page, relative to the PDF's directory */
+  heatmap?: string;
   recommendation?: string;
 }
 
@@ -38,8 +46,16 @@ export interface TACValidation {
 export interface TACValidationResult {
   file: string;
   passed: boolean;
+  /** Highest per-pixel TAC on any page */
   maxTAC: number;
+  /** Mean of the per-page average TAC */
   averageTAC: number;
+  /** Resolution the pages were analyzed at */
+  dpi: number;
+  /** TAC limit the file was validated against */
+  limit: number;
+  /** TAC above which pages are reported in the warning zone */
+  warnLimit: number;
   pageCount: number;
   pagesOverLimit: number[];
   pagesWithWarnings: number[];
@@ -50,21 +66,25 @@ export interface TACValidationResult {
 
 /**
  * Determine TAC status based on value
- * - pass: ≤200% (safe)
- * - warn: 200-240% (acceptable but risky)
- * - fail: >240% (exceeds limit)
+ * - pass: ≤warnTAC (safe)
+ * - warn: warnTAC-maxTAC (acceptable but risky)
+ * - fail: >maxTAC (exceeds limit)
  */
-function getTACStatus(tac: number): TACStatus {
-  if (tac > 240) return "fail";
-  if (tac > 200) return "warn";
+function getTACStatus(tac: number, spec: PrintSpec): TACStatus {
+  if (tac > spec.maxTAC) return "fail";
+  if (tac > spec.warnTAC) return "warn";
   return "pass";
 }
 
 /**
  * Get recommendation for reducing TAC
  */
-function getTACRecommendation(tac: number, cmyk: [number, number, number, number]): string | undefined {
-  if (tac <= 200) return undefined;
+function getTACRecommendation(
+  tac: number,
+  cmyk: [number, number, number, number],
+  spec: PrintSpec
+): string | undefined {
+  if (tac <= spec.warnTAC) return undefined;
 
   const [c, m, y, k] = cmyk;
   const recommendations: string[] = [];
@@ -80,7 +100,7 @@ function getTACRecommendation(tac: number, cmyk: [number, number, number, number
   }
 
   // General recommendations
-  if (tac > 240) {
+  if (tac > spec.maxTAC) {
     recommendations.push("Convert to CGATS21_CRPC1.icc profile for lower TAC");
   }
 
@@ -88,25 +108,46 @@ function getTACRecommendation(tac: number, cmyk: [number, number, number, number
 }
 
 /**
- * Validate TAC for a PDF file
+ * Heatmaps for a PDF's failing pages (e.g. output/book/tac-heatmaps/pagedjs-pdfx/)
  */
-export async function validateTAC(pdfPath: string): Promise<TACValidationResult> {
+export function heatmapDirFor(pdfPath: string): string {
+  return join(dirname(pdfPath), "tac-heatmaps", basename(pdfPath, ".pdf"));
+}
+
+/**
+ * Validate TAC for a PDF file. Pages over the limit get a heatmap PNG unless `heatmaps` is false.
+ */
+export async function validateTAC(
+  pdfPath: string,
+  spec: PrintSpec = DEFAULT_PRINT_SPEC,
+  options: { dpi?: number; tempDir?: string; heatmaps?: boolean } = {}
+): Promise<TACValidationResult> {
   if (!existsSync(pdfPath)) {
     throw new Error(`PDF file not found: ${pdfPath}`);
   }
 
-  // Use the existing check_ink.ts tool
-  const inkResult: InkResult = await checkInkCoverage(pdfPath);
+  const inkResult = await analyzeTAC(pdfPath, {
+    limit: spec.maxTAC,
+    dpi: options.dpi ?? DEFAULT_TAC_DPI,
+    tempDir: options.tempDir,
+    heatmaps: options.heatmaps === false ? undefined : { dir: heatmapDirFor(pdfPath), warnLimit: spec.warnTAC },
+  });
 
   // Convert to validation format
   const perPage: TACValidation[] = inkResult.perPage.map((page) => ({
     page: page.page,
-    tac: page.tac,
-    status: getTACStatus(page.tac),
-    recommendation: getTACRecommendation(page.tac, page.cmyk),
+    tac: page.maxTAC,
+    averageTAC: page.averageTAC,
+    areaOverLimit: page.areaOverLimit,
+    status: getTACStatus(page.maxTAC, spec),
+    recommendation: getTACRecommendation(page.maxTAC, page.cmykAtMax, spec),
+    heatmap: page.heatmap ? relative(dirname(pdfPath), page.heatmap) : undefined,
   }));
 
-  // Identify pages with warnings (200-240%)
+  // Identify pages over the limit and in the warning zone
+  const pagesOverLimit = perPage
+    .filter((p) => p.status === "fail")
+    .map((p) => p.page);
   const pagesWithWarnings = perPage
     .filter((p) => p.status === "warn")
     .map((p) => p.page);
@@ -114,9 +155,9 @@ export async function validateTAC(pdfPath: string): Promise<TACValidationResult>
   // Generate recommendations
   const recommendations: string[] = [];
 
-  if (inkResult.pagesOverLimit.length > 0) {
+  if (pagesOverLimit.length > 0) {
     recommendations.push(
-      `${inkResult.pagesOverLimit.length} page(s) exceed 240% TAC limit (pages: ${inkResult.pagesOverLimit.join(", ")})`
+      `${pagesOverLimit.length} page(s) exceed ${spec.maxTAC}% TAC limit (pages: ${pagesOverLimit.join(", ")})`
     );
     recommendations.push("Use CGATS21_CRPC1.icc profile for color conversion");
     recommendations.push("Convert images to CMYK before placing in document");
@@ -124,7 +165,7 @@ export async function validateTAC(pdfPath: string): Promise<TACValidationResult>
 
   if (pagesWithWarnings.length > 0) {
     recommendations.push(
-      `${pagesWithWarnings.length} page(s) are in warning zone 200-240% TAC (pages: ${pagesWithWarnings.join(", ")})`
+      `${pagesWithWarnings.length} page(s) are in warning zone ${spec.warnTAC}-${spec.maxTAC}% TAC (pages: ${pagesWithWarnings.join(", ")})`
     );
     recommendations.push("Consider reducing color saturation to improve print reliability");
   }
@@ -135,17 +176,17 @@ export async function validateTAC(pdfPath: string): Promise<TACValidationResult>
   }
 
   // Generate summary
-  const passed = inkResult.pagesOverLimit.length === 0;
+  const passed = pagesOverLimit.length === 0;
   let summary: string;
 
   if (passed) {
     if (pagesWithWarnings.length > 0) {
       summary = `✅ Passed (with warnings): Max TAC ${inkResult.maxTAC.toFixed(1)}% is within limit, but ${pagesWithWarnings.length} page(s) in warning zone`;
     } else {
-      summary = `✅ Passed: All pages ≤200% TAC (max: ${inkResult.maxTAC.toFixed(1)}%)`;
+      summary = `✅ Passed: All pages ≤${spec.warnTAC}% TAC (max: ${inkResult.maxTAC.toFixed(1)}%)`;
     }
   } else {
-    summary = `❌ Failed: ${inkResult.pagesOverLimit.length} page(s) exceed 240% TAC limit (max: ${inkResult.maxTAC.toFixed(1)}%)`;
+    summary = `❌ Failed: ${pagesOverLimit.length} page(s) exceed ${spec.maxTAC}% TAC limit (max: ${inkResult.maxTAC.toFixed(1)}%)`;
   }
 
   return {
@@ -153,8 +194,11 @@ export async function validateTAC(pdfPath: string): Promise<TACValidationResult>
     passed,
     maxTAC: inkResult.maxTAC,
     averageTAC: inkResult.averageTAC,
+    dpi: inkResult.dpi,
+    limit: spec.maxTAC,
+    warnLimit: spec.warnTAC,
     pageCount: inkResult.pageCount,
-    pagesOverLimit: inkResult.pagesOverLimit,
+    pagesOverLimit,
     pagesWithWarnings,
     perPage,
     recommendations,
@@ -178,9 +222,9 @@ Pages: ${result.pageCount}
 TAC SUMMARY
 ─────────────────────────────────────────────────────────────────
 
-  Maximum TAC:    ${result.maxTAC.toFixed(1)}%
+  Maximum TAC:    ${result.maxTAC.toFixed(1)}% (per pixel at ${result.dpi} dpi)
   Average TAC:    ${result.averageTAC.toFixed(1)}%
-  Threshold:      ≤240% (DriveThruRPG requirement)
+  Threshold:      ≤${result.limit}%
 
   ${result.summary}
 `);
@@ -189,7 +233,7 @@ TAC SUMMARY
   if (result.pagesWithWarnings.length > 0) {
     console.log(`
 ─────────────────────────────────────────────────────────────────
-⚠️  PAGES IN WARNING ZONE (200-240% TAC)
+⚠️  PAGES IN WARNING ZONE (${result.warnLimit}-${result.limit}% TAC)
 ─────────────────────────────────────────────────────────────────
 `);
     const warnPages = result.perPage.filter((p) => p.status === "warn");
@@ -208,15 +252,18 @@ TAC SUMMARY
   if (result.pagesOverLimit.length > 0) {
     console.log(`
 ─────────────────────────────────────────────────────────────────
-❌ PAGES OVER 240% TAC LIMIT
+❌ PAGES OVER ${result.limit}% TAC LIMIT
 ─────────────────────────────────────────────────────────────────
 `);
     const failPages = result.perPage.filter((p) => p.status === "fail");
     for (const p of failPages.slice(0, 20)) {
-      console.log(`  Page ${p.page}: ${p.tac.toFixed(1)}% TAC`);
+      console.log(`  Page ${p.page}: ${p.tac.toFixed(1)}% TAC (${p.areaOverLimit.toFixed(1)}% of page area over limit)`);
       if (p.recommendation) {
         console.log(`    → ${p.recommendation}`);
       }
+      if (p.heatmap) {
+        console.log(`    🗺️  Heatmap: ${p.heatmap}`);
+      }
     }
     if (failPages.length > 20) {
       console.log(`  ... and ${failPages.length - 20} more pages`);
@@ -246,7 +293,7 @@ if (import.meta.main) {
     console.log(`
 TAC Validation Tool
 
-Validates PDF ink coverage against DriveThruRPG requirements.
+Validates PDF ink coverage against print-provider requirements.
 
 Usage:
   bun run validate-tac.ts <pdf-file> [options]
@@ -254,8 +301,12 @@ Usage:
 Options:
   --json      Output as JSON instead of formatted report
   --quiet     Only show summary, suppress detailed output
+  --provider  Print provider profile (drivethrurpg, lulu, ingramspark, kdp)
+  --dpi       Analysis resolution (default: 72)
+  --no-heatmaps  Don't write heatmap PNGs for pages over the limit
+                 (default: tac-heatmaps/<pdf-name>/ next to the PDF)
 
-Thresholds:
+Thresholds (lowered by the provider's limit or maxTAC/warnTAC in a pdfx.config.json next to the PDF):
   ≤200%       ✅ Pass (safe)
   200-240%    ⚠️  Warning (acceptable but risky)
   >240%       ❌ Fail (exceeds DriveThruRPG limit)
@@ -263,7 +314,16 @@ Thresholds:
     process.exit(0);
   }
 
-  const pdfPath = args.find((a) => !a.startsWith("--"));
+  const providerFlagIndex = args.indexOf("--provider");
+  const providerId = providerFlagIndex >= 0 ? args[providerFlagIndex + 1] : undefined;
+  const dpiFlagIndex = args.indexOf("--dpi");
+  const dpi = dpiFlagIndex >= 0 ? Number(args[dpiFlagIndex + 1]) : undefined;
+  const pdfPath = args.find(
+    (a, idx) =>
+      !a.startsWith("--") &&
+      (providerFlagIndex < 0 || idx !== providerFlagIndex + 1) &&
+      (dpiFlagIndex < 0 || idx !== dpiFlagIndex + 1)
+  );
   const jsonOutput = args.includes("--json");
   const quiet = args.includes("--quiet");
 
@@ -273,7 +333,9 @@ Thresholds:
   }
 
   try {
-    const result = await validateTAC(pdfPath);
+    // Thresholds come from a pdfx.config.json next to the PDF, if any, and the provider's limit
+    const { spec } = loadProviderSpec(dirname(pdfPath), providerId);
+    const result = await validateTAC(pdfPath, spec, { dpi, heatmaps: !args.includes("--no-heatmaps") });
 
     if (jsonOutput) {
       console.log(JSON.stringify(result, null, 2));
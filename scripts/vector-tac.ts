@@ -0,0 +1,402 @@
+#!/usr/bin/env bun
+/**
+ * Vector TAC Reduction
+ *
+ * Rewrites the DeviceCMYK fill and stroke colours in page content streams
+ * (`k`/`K`, and `sc`/`scn`/`SC`/`SCN` while a CMYK colour space is selected) so
+ * every flat colour is at or below the TAC limit. Text and vector art stay
+ * vectors, unlike the raster pipeline in limit-tac.ts.
+ *
+ * Each colour over the limit is first given grey component replacement (the
+ * common part of C, M and Y moves to K, which lowers the total by two units per
+ * unit moved); if that is not enough, C, M and Y are scaled down beside the
+ * black. Form XObjects drawn with `Do` are rewritten too. Images, shadings and
+ * patterns are left alone; pages still over the limit afterwards need the
+ * raster pipeline.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { deflateSync } from "node:zlib";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  decodePDFRawStream,
+  type PDFContext,
+} from "pdf-lib";
+
+export type CMYK = [number, number, number, number];
+
+export interface VectorTACOptions {
+  input: string;
+  output?: string;
+  maxTAC?: number;
+}
+
+export interface VectorTACResult {
+  success: boolean;
+  inputPath: string;
+  outputPath: string;
+  duration: number;
+  /** Colour operators whose values were lowered */
+  colorsChanged: number;
+  /** Pages with at least one rewritten colour (1-based) */
+  pagesChanged: number[];
+  error?: string;
+}
+
+/**
+ * Bring one CMYK colour (components 0-1) to at most `maxTAC` percent, or null if it is already within it
+ */
+export function limitCMYK(color: CMYK, maxTAC: number): CMYK | null {
+  const limit = maxTAC / 100;
+  let [c, m, y, k] = color.map((v) => Math.min(Math.max(v, 0), 1));
+  const total = c + m + y + k;
+  if (total <= limit + 1e-6) return null;
+
+  // Grey component replacement
+  const moved = Math.min(c, m, y, 1 - k, (total - limit) / 2);
+  c -= moved;
+  m -= moved;
+  y -= moved;
+  k = Math.min(k + moved, limit);
+
+  // Scale the chromatic inks into whatever room the black leaves
+  const chromatic = c + m + y;
+  const room = Math.max(limit - k, 0);
+  if (chromatic > room) {
+    const scale = room / chromatic;
+    c *= scale;
+    m *= scale;
+    y *= scale;
+  }
+
+  // Round down so the written values never end up over the limit
+  return [c, m, y, k].map((v) => Math.floor(v * 10000) / 10000) as CMYK;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+/** Fill and stroke colour space state; true when the space is CMYK */
+interface ColorState {
+  fill: boolean;
+  stroke: boolean;
+}
+
+export interface Token {
+  kind: "number" | "name" | "other";
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface RewriteContext {
+  context: PDFContext;
+  maxTAC: number;
+  /** Form XObjects already rewritten (shared between pages) */
+  forms: Set<string>;
+  colorsChanged: number;
+}
+
+const WHITESPACE = " \t\r\n\f\0";
+const DELIMITERS = "()<>[]{}/%";
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)/y;
+
+function isRegular(ch: string): boolean {
+  return !WHITESPACE.includes(ch) && !DELIMITERS.includes(ch);
+}
+
+/**
+ * Whether a colour space operand (a device name or a /ColorSpace resource name) is CMYK
+ */
+function isCMYKSpace(name: string, resources: PDFDict | undefined, context: PDFContext): boolean {
+  if (name === "DeviceCMYK") return true;
+  const spaces = resources?.lookupMaybe(PDFName.of("ColorSpace"), PDFDict);
+  const space = spaces?.lookup(PDFName.of(name));
+  if (space instanceof PDFName) return space.asString() === "/DeviceCMYK";
+  if (space instanceof PDFArray && space.size() >= 2) {
+    const family = space.lookup(0);
+    if (!(family instanceof PDFName) || family.asString() !== "/ICCBased") return false;
+    const profile = context.lookup(space.get(1));
+    const components = profile instanceof PDFRawStream ? profile.dict.lookup(PDFName.of("N")) : undefined;
+    return components instanceof PDFNumber && components.asNumber() === 4;
+  }
+  return false;
+}
+
+/**
+ * Walk the operators of a decoded content stream, calling `onOperator` with each
+ * operator, its operands and its offset. Comments and string contents are skipped;
+ * an inline image is reported as one "BI" operator whose single operand is its
+ * dictionary text (between BI and ID), and its data is skipped.
+ */
+export function forEachOperator(
+  text: string,
+  onOperator: (operator: string, operands: Token[], start: number) => void
+): void {
+  let operands: Token[] = [];
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (WHITESPACE.includes(ch)) {
+      i++;
+    } else if (ch === "%") {
+      while (i < text.length && text[i] !== "\n" && text[i] !== "\r") i++;
+    } else if (ch === "(") {
+      // Literal string: balanced parentheses, backslash escapes
+      const start = i;
+      let depth = 0;
+      for (; i < text.length; i++) {
+        if (text[i] === "\\") i++;
+        else if (text[i] === "(") depth++;
+        else if (text[i] === ")" && --depth === 0) break;
+      }
+      i++;
+      operands.push({ kind: "other", value: text.slice(start, i), start, end: i });
+    } else if (ch === "<" && text[i + 1] !== "<") {
+      const start = i;
+      const end = text.indexOf(">", i);
+      i = end < 0 ? text.length : end + 1;
+      operands.push({ kind: "other", value: text.slice(start, i), start, end: i });
+    } else if ("<>[]{}".includes(ch)) {
+      const width = (ch === "<" || ch === ">") && text[i + 1] === ch ? 2 : 1;
+      operands.push({ kind: "other", value: text.slice(i, i + width), start: i, end: i + width });
+      i += width;
+    } else if (ch === "/") {
+      const start = i++;
+      while (i < text.length && isRegular(text[i])) i++;
+      operands.push({ kind: "name", value: text.slice(start + 1, i), start, end: i });
+    } else {
+      NUMBER_PATTERN.lastIndex = i;
+      const number = NUMBER_PATTERN.exec(text);
+      if (number && (i + number[0].length >= text.length || !isRegular(text[i + number[0].length]))) {
+        operands.push({ kind: "number", value: number[0], start: i, end: i + number[0].length });
+        i += number[0].length;
+        continue;
+      }
+
+      const start = i;
+      while (i < text.length && isRegular(text[i])) i++;
+      if (i === start) i++; // Stray delimiter
+      const operator = text.slice(start, i);
+
+      if (operator === "true" || operator === "false" || operator === "null") {
+        operands.push({ kind: "other", value: operator, start, end: i });
+        continue;
+      }
+      if (operator === "BI") {
+        // Inline image: pass on the dictionary, skip the binary data up to EI
+        const data = text.slice(i).search(/\sID\s/);
+        const end = data < 0 ? -1 : text.slice(i + data + 4).search(/\sEI(?=\s|$)/);
+        const dict = data < 0 ? text.slice(i) : text.slice(i, i + data);
+        operands = [{ kind: "other", value: dict, start: i, end: i + dict.length }];
+        i = data < 0 || end < 0 ? text.length : i + data + 4 + end + 3;
+      }
+      onOperator(operator, operands, start);
+      operands = [];
+    }
+  }
+}
+
+/**
+ * Rewrite the CMYK colours in one decoded content stream. `state` carries the
+ * colour spaces across the streams of a page and is updated in place.
+ */
+function rewriteContent(
+  text: string,
+  state: ColorState,
+  resources: PDFDict | undefined,
+  ctx: RewriteContext
+): { text: string; changed: number } {
+  const edits: { start: number; end: number; value: string }[] = [];
+  const stack: ColorState[] = [];
+  let changed = 0;
+
+  forEachOperator(text, (operator, operands) => {
+    const limitOperands = () => {
+      const values = operands.slice(-4);
+      if (operands.length !== 4 || values.some((t) => t.kind !== "number")) return;
+      const limited = limitCMYK(values.map((t) => parseFloat(t.value)) as CMYK, ctx.maxTAC);
+      if (!limited) return;
+      values.forEach((token, i) => edits.push({ start: token.start, end: token.end, value: formatNumber(limited[i]) }));
+      changed++;
+    };
+
+    switch (operator) {
+      case "q":
+        stack.push({ ...state });
+        break;
+      case "Q":
+        Object.assign(state, stack.pop() ?? state);
+        break;
+      case "cs":
+      case "CS": {
+        const name = operands.at(-1);
+        const cmyk = name?.kind === "name" && isCMYKSpace(name.value, resources, ctx.context);
+        if (operator === "cs") state.fill = cmyk;
+        else state.stroke = cmyk;
+        break;
+      }
+      case "g":
+      case "rg":
+        state.fill = false;
+        break;
+      case "G":
+      case "RG":
+        state.stroke = false;
+        break;
+      case "k":
+        state.fill = true;
+        limitOperands();
+        break;
+      case "K":
+        state.stroke = true;
+        limitOperands();
+        break;
+      case "sc":
+      case "scn":
+        if (state.fill) limitOperands();
+        break;
+      case "SC":
+      case "SCN":
+        if (state.stroke) limitOperands();
+        break;
+      case "Do": {
+        const name = operands.at(-1);
+        if (name?.kind === "name") rewriteForm(name.value, resources, state, ctx);
+        break;
+      }
+    }
+  });
+
+  if (edits.length === 0) return { text, changed: 0 };
+  let result = "";
+  let position = 0;
+  for (const edit of edits) {
+    result += text.slice(position, edit.start) + edit.value;
+    position = edit.end;
+  }
+  return { text: result + text.slice(position), changed };
+}
+
+/**
+ * Decode a content stream, rewrite its colours and store it back (Flate-compressed) under the same reference
+ */
+function rewriteStream(ref: PDFRef, state: ColorState, resources: PDFDict | undefined, ctx: RewriteContext): number {
+  const stream = ctx.context.lookup(ref);
+  if (!(stream instanceof PDFRawStream)) return 0;
+
+  const text = Buffer.from(decodePDFRawStream(stream).decode()).toString("latin1");
+  const { text: rewritten, changed } = rewriteContent(text, state, resources, ctx);
+  if (changed === 0) return 0;
+
+  const dict = stream.dict.clone(ctx.context);
+  dict.set(PDFName.of("Filter"), PDFName.of("FlateDecode"));
+  dict.delete(PDFName.of("DecodeParms"));
+  ctx.context.assign(ref, PDFRawStream.of(dict, deflateSync(Buffer.from(rewritten, "latin1"))));
+  return changed;
+}
+
+/**
+ * Rewrite a Form XObject the first time it is drawn, starting from the caller's colour state
+ */
+function rewriteForm(name: string, resources: PDFDict | undefined, state: ColorState, ctx: RewriteContext): void {
+  const ref = resources?.lookupMaybe(PDFName.of("XObject"), PDFDict)?.get(PDFName.of(name));
+  if (!(ref instanceof PDFRef) || ctx.forms.has(ref.toString())) return;
+  const form = ctx.context.lookup(ref);
+  if (!(form instanceof PDFRawStream) || form.dict.get(PDFName.of("Subtype"))?.toString() !== "/Form") return;
+
+  ctx.forms.add(ref.toString());
+  const formResources = form.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? resources;
+  const changed = rewriteStream(ref, { ...state }, formResources, ctx);
+  ctx.colorsChanged += changed;
+}
+
+/**
+ * Lower every flat CMYK colour in a PDF to the TAC limit, keeping text and vectors
+ */
+export async function reduceVectorTAC(options: VectorTACOptions): Promise<VectorTACResult> {
+  const startTime = performance.now();
+  const { input, output = input.replace(".pdf", "-vector-tac.pdf"), maxTAC = 240 } = options;
+  const failure = (error: string): VectorTACResult => ({
+    success: false,
+    inputPath: input,
+    outputPath: output,
+    duration: performance.now() - startTime,
+    colorsChanged: 0,
+    pagesChanged: [],
+    error,
+  });
+
+  if (!existsSync(input)) {
+    return failure(`Input file not found: ${input}`);
+  }
+
+  try {
+    // Keep the producer and dates: they must stay in sync with the PDF/X XMP metadata
+    const doc = await PDFDocument.load(readFileSync(input), { updateMetadata: false });
+    const ctx: RewriteContext = { context: doc.context, maxTAC, forms: new Set(), colorsChanged: 0 };
+    const pagesChanged: number[] = [];
+
+    doc.getPages().forEach((page, index) => {
+      const before = ctx.colorsChanged;
+      const contents = page.node.get(PDFName.of("Contents"));
+      const resolved = contents instanceof PDFRef ? doc.context.lookup(contents) : contents;
+      const refs = resolved instanceof PDFArray ? resolved.asArray() : [contents];
+      const state: ColorState = { fill: false, stroke: false };
+      for (const ref of refs) {
+        if (ref instanceof PDFRef) {
+          const changed = rewriteStream(ref, state, page.node.Resources(), ctx);
+          ctx.colorsChanged += changed;
+        }
+      }
+      if (ctx.colorsChanged > before) pagesChanged.push(index + 1);
+    });
+
+    mkdirSync(dirname(output), { recursive: true });
+    // No object streams: PDF/X-1a is PDF 1.3
+    writeFileSync(output, await doc.save({ useObjectStreams: false }));
+
+    return {
+      success: true,
+      inputPath: input,
+      outputPath: output,
+      duration: performance.now() - startTime,
+      colorsChanged: ctx.colorsChanged,
+      pagesChanged,
+    };
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// CLI
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const input = args.find((a) => !a.startsWith("--") && a.endsWith(".pdf"));
+  const output = args.find((a) => !a.startsWith("--") && a.endsWith(".pdf") && a !== input);
+  const maxTAC = parseInt(args.find((_, i) => args[i - 1] === "--max-tac") || "240", 10);
+
+  if (!input || args.includes("--help")) {
+    console.error("Usage: bun run scripts/vector-tac.ts <input.pdf> [output.pdf] [--max-tac 240]");
+    process.exit(input ? 0 : 1);
+  }
+
+  const result = await reduceVectorTAC({ input, output, maxTAC });
+  if (!result.success) {
+    console.error(`❌ Vector TAC reduction failed: ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`✅ ${result.colorsChanged} colour(s) lowered to ${maxTAC}% TAC on ${result.pagesChanged.length} page(s): ${result.outputPath}`);
+  if (result.pagesChanged.length > 0) {
+    console.log(`   Pages: ${result.pagesChanged.join(", ")}`);
+  }
+}
@@ -0,0 +1,163 @@
+#!/usr/bin/env bun
+/**
+ * Watch Mode Helpers
+ * Watches a project's HTML, the CSS/images it links and the shared styles/
+ * tree, and summarizes how the key checks (page count, max TAC, unembedded
+ * fonts) moved between two comparison runs. Used by `batch-process.ts --watch`.
+ */
+
+import { existsSync, readFileSync, watch, type FSWatcher } from "node:fs";
+import { join, dirname, basename, resolve, relative, isAbsolute } from "node:path";
+import type { ComparisonReport } from "./compare-pdfs.ts";
+
+/** Per-engine values shown in the watch-mode diff */
+export interface CheckSnapshot {
+  label: string;
+  pageCount: number | null;
+  maxTAC: number | null;
+  unembeddedFonts: string[];
+  compliant: boolean;
+}
+
+/**
+ * Local files referenced by an HTML file's href/src attributes (stylesheets, images, scripts)
+ */
+export function linkedFiles(htmlPath: string): string[] {
+  const html = readFileSync(htmlPath, "utf-8");
+  const files = new Set<string>();
+  for (const match of html.matchAll(/\b(?:href|src)\s*=\s*["']([^"'#?]+)/gi)) {
+    let ref: string;
+    try {
+      ref = decodeURI(match[1].trim());
+    } catch {
+      // Malformed escapes (e.g. "100%.css") can't name a file we could find
+      continue;
+    }
+    // Skip URLs (http:, data:, mailto: ...) and in-page anchors
+    if (ref.length === 0 || /^[a-z][a-z0-9+.-]*:/i.test(ref)) continue;
+    const file = resolve(dirname(htmlPath), ref);
+    if (existsSync(file)) {
+      files.add(file);
+    }
+  }
+  return [...files];
+}
+
+function isInside(path: string, dir: string): boolean {
+  const rel = relative(dir, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+/**
+ * Watch directories and individual files; calls `onChange` with the changed paths
+ * once edits have settled for `debounceMs`. Returns a function that stops watching.
+ */
+export function watchPaths(
+  targets: { dirs: string[]; files: string[]; ignore?: string[] },
+  onChange: (changed: string[]) => void,
+  debounceMs = 300
+): () => void {
+  const ignored = (targets.ignore ?? []).map((path) => resolve(path));
+  const watchers: FSWatcher[] = [];
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const record = (path: string) => {
+    const name = basename(path);
+    // Editor swap/backup files and anything under an ignored directory (e.g. the output dir)
+    if (name.startsWith(".") || name.endsWith("~") || name.endsWith(".swp")) return;
+    if (ignored.some((dir) => isInside(path, dir))) return;
+
+    changed.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const paths = [...changed];
+      changed.clear();
+      onChange(paths);
+    }, debounceMs);
+  };
+
+  const dirs = targets.dirs.filter((dir) => existsSync(dir)).map((dir) => resolve(dir));
+  for (const dir of dirs) {
+    watchers.push(watch(dir, { recursive: true }, (_event, filename) => filename && record(join(dir, filename.toString()))));
+  }
+
+  // Files outside the watched trees: watch their directory (editors often save by
+  // replacing the file) and only react to the file itself
+  const outside = targets.files.map((file) => resolve(file)).filter((file) => !dirs.some((dir) => isInside(file, dir)));
+  const byDir = new Map<string, Set<string>>();
+  for (const file of outside) {
+    const names = byDir.get(dirname(file)) ?? new Set<string>();
+    names.add(basename(file));
+    byDir.set(dirname(file), names);
+  }
+  for (const [dir, names] of byDir) {
+    watchers.push(
+      watch(dir, (_event, filename) => filename && names.has(filename.toString()) && record(join(dir, filename.toString())))
+    );
+  }
+
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  };
+}
+
+/**
+ * Pull the watched checks out of a comparison report (PDF/X output, falling back to RGB)
+ */
+export function snapshotChecks(report: ComparisonReport): Record<string, CheckSnapshot> {
+  const snapshot: Record<string, CheckSnapshot> = {};
+  for (const [name, engine] of Object.entries(report.engines)) {
+    const info = (engine.pdfx ?? engine.rgb)?.info ?? null;
+    snapshot[name] = {
+      label: engine.label,
+      pageCount: info ? info.pageCount : null,
+      maxTAC: engine.tacValidation ? engine.tacValidation.maxTAC : null,
+      unembeddedFonts: info ? info.fonts.filter((font) => !font.embedded).map((font) => font.name).sort() : [],
+      compliant: report.summary.compliant[name] ?? false,
+    };
+  }
+  return snapshot;
+}
+
+const show = (value: number | null, unit = "") => (value === null ? "—" : `${value}${unit}`);
+
+/**
+ * One compact line per engine describing what changed between two snapshots
+ */
+export function diffChecks(
+  before: Record<string, CheckSnapshot>,
+  after: Record<string, CheckSnapshot>
+): string[] {
+  const lines: string[] = [];
+  for (const [name, now] of Object.entries(after)) {
+    const prev = before[name];
+    if (!prev) {
+      lines.push(`${now.label}: new (${show(now.pageCount)} pages, max TAC ${show(now.maxTAC, "%")})`);
+      continue;
+    }
+
+    const changes: string[] = [];
+    if (prev.pageCount !== now.pageCount) {
+      changes.push(`pages ${show(prev.pageCount)} → ${show(now.pageCount)}`);
+    }
+    if (prev.maxTAC !== now.maxTAC) {
+      changes.push(`max TAC ${show(prev.maxTAC, "%")} → ${show(now.maxTAC, "%")}`);
+    }
+    const added = now.unembeddedFonts.filter((font) => !prev.unembeddedFonts.includes(font));
+    const removed = prev.unembeddedFonts.filter((font) => !now.unembeddedFonts.includes(font));
+    if (added.length > 0 || removed.length > 0) {
+      const parts = [...added.map((font) => `+${font}`), ...removed.map((font) => `−${font}`)];
+      changes.push(`unembedded fonts ${parts.join(" ")}`);
+    }
+    if (prev.compliant !== now.compliant) {
+      changes.push(now.compliant ? "now compliant ✅" : "no longer compliant ❌");
+    }
+
+    lines.push(`${now.label}: ${changes.length > 0 ? changes.join(", ") : "no change"}`);
+  }
+  return lines;
+}